@@ -0,0 +1,18 @@
+import { resolveApproval } from "@/lib/approvals/registry";
+import { parseApprovalDecision } from "@/lib/approvals/types";
+
+// Approves (optionally with edited arguments) or rejects a held tool call.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const toolCallId = body?.toolCallId;
+  const decision = parseApprovalDecision(body);
+
+  if (typeof toolCallId !== "string" || !decision) {
+    return new Response("Invalid approval decision", { status: 400 });
+  }
+
+  if (!resolveApproval(toolCallId, decision)) {
+    return new Response("No pending approval for this call", { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,23 @@
+import { connectDesktop } from "@/lib/e2b/utils";
+import { listArtifacts } from "@/lib/e2b/files";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+
+  if (!sandboxId) {
+    return new Response("No sandboxId provided", { status: 400 });
+  }
+
+  const desktop = await connectDesktop(sandboxId);
+  if (!desktop) {
+    return new Response("Desktop not found", { status: 404 });
+  }
+
+  try {
+    return Response.json({ files: await listArtifacts(desktop) });
+  } catch (error) {
+    console.error(`Failed to list artifacts for ${sandboxId}`, error);
+    return new Response("Failed to list artifacts", { status: 500 });
+  }
+}
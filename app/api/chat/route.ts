@@ -1,43 +1,256 @@
-import { anthropic } from "@ai-sdk/anthropic";
-import { streamText, UIMessage } from "ai";
-import { killDesktop } from "@/lib/e2b/utils";
-import { bashTool, computerTool } from "@/lib/e2b/tool";
-import { prunedMessages } from "@/lib/utils";
+import {
+  createDataStreamResponse,
+  streamText,
+  UIMessage,
+  type JSONValue,
+} from "ai";
+import { createApprovalGate, recordStepText } from "@/lib/approvals/gate";
+import { withApprovedArgs } from "@/lib/approvals/types";
+import { downscaleScreenshot } from "@/lib/context/downscale";
+import {
+  findContextStrategy,
+  getContextStrategy,
+  isValidKeepScreenshots,
+  MAX_KEEP_SCREENSHOTS,
+  withKeepScreenshots,
+} from "@/lib/context/strategies";
+import {
+  applyContextStrategy,
+  estimateInputTokens,
+  type ContextAnnotation,
+} from "@/lib/context/window";
+import { killDesktop } from "@/lib/e2b/lifecycle";
+import { bashTool, computerTool, editorTool } from "@/lib/e2b/tool";
+import { createPublisher, sessionTopic } from "@/lib/events/bus";
+import { getLanguageModel, SYSTEM_PROMPT } from "@/lib/agent";
+import { findModel, getModel } from "@/lib/models";
+import {
+  ensureRunRecording,
+  finishRunRecording,
+} from "@/lib/recordings/recorder";
+import { addSessionCost, getSession } from "@/lib/sessions/store";
+import {
+  agentTelemetry,
+  inSpan,
+  recordSpanError,
+  tracer,
+  usageAttributes,
+} from "@/lib/telemetry/tracer";
+import {
+  BUDGET_EXCEEDED,
+  estimateCostUsd,
+  formatUsd,
+  isOverBudget,
+  toTokenUsage,
+  type UsageAnnotation,
+} from "@/lib/usage";
+import type { TimingRecorder, ToolTimingAnnotation } from "@/lib/tool-timings";
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 300;
 
 export async function POST(req: Request) {
-  const { messages, sandboxId }: { messages: UIMessage[]; sandboxId: string } =
-    await req.json();
-  try {
-    const result = streamText({
-      model: anthropic("claude-sonnet-4-5-20250929"), // Using Sonnet for computer use
-      system:
-        "You are a helpful assistant with access to a computer. " +
-        "Use the computer tool to help the user with their requests. " +
-        "Use the bash tool to execute commands on the computer. You can create files and folders using the bash tool. Always prefer the bash tool where it is viable for the task. " +
-        "Be sure to advise the user when waiting is necessary. " +
-        "If the browser opens with a setup wizard, YOU MUST IGNORE IT and move straight to the next step (e.g. input the url in the search bar).",
-      messages: prunedMessages(messages),
-      tools: { computer: computerTool(sandboxId), bash: bashTool(sandboxId) },
-      providerOptions: {
-        anthropic: { cacheControl: { type: "ephemeral" } },
-      },
+  const {
+    messages,
+    sandboxId,
+    sessionId,
+    modelId,
+    approvalMode,
+    recordScreen,
+    contextStrategyId,
+    keepScreenshots,
+  }: {
+    messages: UIMessage[];
+    sandboxId: string;
+    sessionId?: string;
+    modelId?: string;
+    approvalMode?: boolean;
+    recordScreen?: boolean;
+    contextStrategyId?: string;
+    keepScreenshots?: number;
+  } = await req.json();
+
+  if (modelId && !findModel(modelId)) {
+    return new Response(`Unknown model: ${modelId}`, { status: 400 });
+  }
+  const model = getModel(modelId);
+  if (contextStrategyId && !findContextStrategy(contextStrategyId)) {
+    return new Response(`Unknown context strategy: ${contextStrategyId}`, {
+      status: 400,
+    });
+  }
+  if (
+    keepScreenshots !== undefined &&
+    !isValidKeepScreenshots(keepScreenshots)
+  ) {
+    return new Response(
+      `Expected keepScreenshots between 1 and ${MAX_KEEP_SCREENSHOTS}`,
+      { status: 400 },
+    );
+  }
+  const contextStrategy = withKeepScreenshots(
+    getContextStrategy(contextStrategyId),
+    keepScreenshots,
+  );
+
+  // Every step of a run is its own request, so checking here stops the run
+  // at the first step after the budget is used up.
+  const session = sessionId
+    ? await getSession(sessionId).catch(() => null)
+    : null;
+  if (session?.readOnly) {
+    return new Response("Imported sessions are read-only", { status: 409 });
+  }
+  if (session && isOverBudget(session.costUsd, session.budgetUsd)) {
+    await finishRunRecording(sandboxId);
+    return new Response(
+      `${BUDGET_EXCEEDED}: this session has spent ${formatUsd(session.costUsd)} of its ${formatUsd(session.budgetUsd ?? 0)} budget.`,
+      { status: 402 },
+    );
+  }
+
+  // Ends when the model stops; the AI SDK's spans for the model step and
+  // tool calls, and the tools' own spans, nest under it.
+  const requestSpan = tracer.startSpan("chat.request", {
+    attributes: {
+      "session.id": session?.id,
+      "sandbox.id": sandboxId,
+      "model.id": model.id,
+      "context.strategy": contextStrategy.id,
+      "context.keep_screenshots": contextStrategy.keepScreenshots,
+      "chat.approval_mode": approvalMode === true,
+      "chat.messages": messages.length,
+    },
+  });
+
+  // A recording spans the whole run and ends once the model stops calling
+  // tools; it is attached to the session, so it needs one.
+  if (recordScreen === true && session && sandboxId) {
+    await ensureRunRecording({
+      sandboxId,
+      sessionId: session.id,
+      resolution: model.resolution,
+      isNewRun: messages.at(-1)?.role === "user",
     });
+  }
+
+  try {
+    // Applied on every step, so long runs stay within the strategy too.
+    const context = await applyContextStrategy(
+      withApprovedArgs(messages),
+      contextStrategy,
+      downscaleScreenshot,
+    );
+    const contextAnnotation: ContextAnnotation = {
+      type: "context",
+      strategyId: contextStrategy.id,
+      estimatedInputTokens: estimateInputTokens(
+        context.messages,
+        SYSTEM_PROMPT,
+      ),
+      screenshots: context.screenshots,
+    };
 
-    // Create response stream
-    const response = result.toDataStreamResponse({
-      // @ts-expect-error eheljfe
-      getErrorMessage(error) {
+    return createDataStreamResponse({
+      execute: (dataStream) => {
+        dataStream.writeMessageAnnotation(contextAnnotation as JSONValue);
+
+        const step = recordStepText(getLanguageModel(model));
+        // Tool calls are also published for observers of the session's
+        // live event feed.
+        const publish = session
+          ? createPublisher(sessionTopic(session.id))
+          : undefined;
+        // In approval mode, risky calls wait for a decision from the dashboard.
+        const gate =
+          approvalMode === true
+            ? createApprovalGate({ dataStream, context: step.text, publish })
+            : undefined;
+        // The client takes tool timings from here rather than measuring
+        // them itself, so they reflect the run and survive reloads.
+        const recordTiming: TimingRecorder = (timing) => {
+          const annotation: ToolTimingAnnotation = {
+            type: "tool-timing",
+            ...timing,
+          };
+          dataStream.writeMessageAnnotation(annotation as JSONValue);
+        };
+
+        const result = inSpan(requestSpan, () =>
+          streamText({
+            model: step.model,
+            system: SYSTEM_PROMPT,
+            messages: context.messages,
+            tools: {
+              computer: computerTool(
+                sandboxId,
+                model,
+                gate,
+                recordTiming,
+                publish,
+              ),
+              bash: bashTool(sandboxId, model, gate, recordTiming, publish),
+              str_replace_editor: editorTool(
+                sandboxId,
+                model,
+                gate,
+                recordTiming,
+                publish,
+              ),
+            },
+            providerOptions: model.supportsPromptCaching
+              ? { anthropic: { cacheControl: { type: "ephemeral" } } }
+              : undefined,
+            experimental_telemetry: agentTelemetry("chat", {
+              sessionId: session?.id ?? "",
+            }),
+            onStepFinish: async ({ usage, providerMetadata }) => {
+              const tokens = toTokenUsage(usage, providerMetadata);
+              const costUsd = estimateCostUsd(tokens, model.pricing);
+              requestSpan.addEvent("step", usageAttributes(tokens, costUsd));
+              const updated = session
+                ? await addSessionCost(session.id, costUsd).catch((error) => {
+                    console.error(
+                      `Failed to record cost for ${session.id}`,
+                      error,
+                    );
+                    return null;
+                  })
+                : null;
+              const annotation: UsageAnnotation = {
+                type: "usage",
+                modelId: model.id,
+                ...tokens,
+                costUsd,
+                sessionCostUsd: updated?.costUsd ?? null,
+                budgetUsd: updated?.budgetUsd ?? null,
+              };
+              dataStream.writeMessageAnnotation(annotation as JSONValue);
+            },
+            onFinish: async ({ finishReason }) => {
+              requestSpan.setAttribute("chat.finish_reason", finishReason);
+              if (finishReason !== "tool-calls") {
+                await finishRunRecording(sandboxId);
+              }
+              requestSpan.end();
+            },
+          }),
+        );
+
+        result.mergeIntoDataStream(dataStream);
+      },
+      onError(error) {
         console.error(error);
-        return error;
+        recordSpanError(requestSpan, error);
+        requestSpan.end();
+        void finishRunRecording(sandboxId);
+        return error instanceof Error ? error.message : String(error);
       },
     });
-
-    return response;
   } catch (error) {
     console.error("Chat API error:", error);
+    recordSpanError(requestSpan, error);
+    requestSpan.end();
     await killDesktop(sandboxId); // Force cleanup on error
     return new Response(JSON.stringify({ error: "Internal Server Error" }), {
       status: 500,
@@ -0,0 +1,39 @@
+import { posix } from "node:path";
+import { connectDesktop } from "@/lib/e2b/utils";
+import { resolveSandboxPath } from "@/lib/e2b/files";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+  const path = searchParams.get("path");
+
+  if (!sandboxId || !path) {
+    return new Response("sandboxId and path are required", { status: 400 });
+  }
+
+  let resolved: string;
+  try {
+    resolved = resolveSandboxPath(path);
+  } catch {
+    return new Response("Path is not downloadable", { status: 403 });
+  }
+
+  const desktop = await connectDesktop(sandboxId);
+  if (!desktop) {
+    return new Response("Desktop not found", { status: 404 });
+  }
+
+  try {
+    const data = await desktop.files.read(resolved);
+    const filename = encodeURIComponent(posix.basename(resolved));
+    return new Response(Buffer.from(data), {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename*=UTF-8''${filename}`,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to download ${resolved} from ${sandboxId}`, error);
+    return new Response("File not found", { status: 404 });
+  }
+}
@@ -0,0 +1,19 @@
+import { heartbeatDesktop } from "@/lib/e2b/lifecycle";
+
+// Called periodically by an open dashboard to keep its desktop alive.
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+
+  if (!sandboxId) {
+    return new Response("No sandboxId provided", { status: 400 });
+  }
+
+  try {
+    const alive = await heartbeatDesktop(sandboxId);
+    return Response.json({ alive }, { status: alive ? 200 : 404 });
+  } catch (error) {
+    console.error(`Heartbeat failed for ID: ${sandboxId}`, error);
+    return new Response("Heartbeat failed", { status: 500 });
+  }
+}
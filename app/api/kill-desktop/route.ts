@@ -1,4 +1,5 @@
-import { killDesktop } from "@/lib/e2b/utils";
+import { killDesktop } from "@/lib/e2b/lifecycle";
+import { getSandbox } from "@/lib/e2b/registry";
 
 // Common handler for both GET and POST requests
 async function handleKillDesktop(request: Request) {
@@ -6,6 +7,7 @@ async function handleKillDesktop(request: Request) {
 
   const { searchParams } = new URL(request.url);
   const sandboxId = searchParams.get("sandboxId");
+  const owner = searchParams.get("owner");
 
   console.log(`Kill desktop request received via ${request.method} for ID: ${sandboxId}`);
 
@@ -13,6 +15,16 @@ async function handleKillDesktop(request: Request) {
     return new Response("No sandboxId provided", { status: 400 });
   }
 
+  // Only the client that created a desktop may kill it; a desktop with an
+  // owner cannot be killed without naming one.
+  const record = getSandbox(sandboxId);
+  if (record?.owner && !owner) {
+    return new Response("No owner provided", { status: 403 });
+  }
+  if (record?.owner && record.owner !== owner) {
+    return new Response("Desktop belongs to another client", { status: 403 });
+  }
+
   try {
     await killDesktop(sandboxId);
     return new Response("Desktop killed successfully", { status: 200 });
@@ -0,0 +1,52 @@
+import { getMockDesktopLog, getMockScreen } from "@/lib/desktop/mock";
+
+// Stands in for the VNC stream when DESKTOP_PROVIDER=mock: an HTML page that
+// polls the current screen (?format=png) and the recorded input (?format=log).
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+  const format = searchParams.get("format");
+
+  if (!sandboxId) {
+    return new Response("No sandboxId provided", { status: 400 });
+  }
+
+  if (format === "png") {
+    const screen = getMockScreen(sandboxId);
+    if (!screen) {
+      return new Response("Desktop not found", { status: 404 });
+    }
+    return new Response(Buffer.from(screen), {
+      headers: { "Content-Type": "image/png", "Cache-Control": "no-store" },
+    });
+  }
+
+  if (format === "log") {
+    return Response.json({ log: getMockDesktopLog(sandboxId).slice(-20) });
+  }
+
+  const base = `/api/mock-desktop?sandboxId=${encodeURIComponent(sandboxId)}`;
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;background:#000;color:#d4d4d8;font:12px monospace">
+    <img id="screen" style="display:block;width:100%" alt="Mock desktop" />
+    <pre id="log" style="margin:0;padding:8px;white-space:pre-wrap"></pre>
+    <script>
+      const refresh = async () => {
+        document.getElementById("screen").src = ${JSON.stringify(base)} + "&format=png&t=" + Date.now();
+        const response = await fetch(${JSON.stringify(base)} + "&format=log");
+        if (!response.ok) return;
+        const { log } = await response.json();
+        document.getElementById("log").textContent = log
+          .map((entry) => entry.method + " " + JSON.stringify(entry.args))
+          .join("\\n");
+      };
+      refresh();
+      setInterval(refresh, 1000);
+    </script>
+  </body>
+</html>`;
+  return new Response(html, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
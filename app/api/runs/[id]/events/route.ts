@@ -0,0 +1,45 @@
+import { runTopic } from "@/lib/events/bus";
+import {
+  createEventStream,
+  eventStreamResponse,
+  formatServerSentEvent,
+} from "@/lib/events/sse";
+import { getRun } from "@/lib/runs/runner";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const endOf = (id: string) => {
+  const run = getRun(id);
+  return run && { status: run.status, answer: run.answer, error: run.error };
+};
+
+// Server-sent events for the run's tool calls, closed by an `end` event with
+// the outcome once it finishes; see LiveEvent in lib/events/bus.ts.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const run = getRun(id);
+  if (!run) {
+    return new Response("Run not found", { status: 404 });
+  }
+
+  if (run.status !== "running") {
+    return eventStreamResponse(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(
+            new TextEncoder().encode(formatServerSentEvent("end", endOf(id))),
+          );
+          controller.close();
+        },
+      }),
+    );
+  }
+
+  return eventStreamResponse(
+    createEventStream({
+      topic: runTopic(id),
+      signal: request.signal,
+      onEnd: () => endOf(id),
+    }),
+  );
+}
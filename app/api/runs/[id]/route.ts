@@ -0,0 +1,22 @@
+import { cancelRun, getRun } from "@/lib/runs/runner";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const run = getRun(id);
+  if (!run) {
+    return new Response("Run not found", { status: 404 });
+  }
+  return Response.json(run);
+}
+
+// Stops a running run; finished runs are returned as they are.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const run = cancelRun(id);
+  if (!run) {
+    return new Response("Run not found", { status: 404 });
+  }
+  return Response.json(run);
+}
@@ -0,0 +1,28 @@
+import { connectDesktop } from "@/lib/e2b/utils";
+import { startRun } from "@/lib/runs/runner";
+import { parseRunInput, type RunInput } from "@/lib/runs/types";
+
+// Starts an agent run on the server, for scripts and cron jobs; poll
+// GET /api/runs/:id for its progress.
+export async function POST(request: Request) {
+  let input: RunInput;
+  try {
+    input = parseRunInput(await request.json().catch(() => null));
+  } catch (error) {
+    return new Response(
+      error instanceof Error ? error.message : "Invalid run",
+      { status: 400 },
+    );
+  }
+
+  try {
+    // A dead desktop would fail the run's first tool call anyway.
+    if (input.sandboxId && !(await connectDesktop(input.sandboxId))) {
+      return new Response("Desktop not found", { status: 404 });
+    }
+    return Response.json(startRun(input), { status: 202 });
+  } catch (error) {
+    console.error("Failed to start run", error);
+    return new Response("Failed to start run", { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import {
+  checkoutSessionBranch,
+  getSession,
+  isValidSessionId,
+} from "@/lib/sessions/store";
+
+type RouteContext = { params: Promise<{ id: string; branchId: string }> };
+
+// Checks out another branch; the one it replaces is stored as it was.
+export async function PUT(_request: Request, { params }: RouteContext) {
+  const { id, branchId } = await params;
+  if (!isValidSessionId(id) || !isValidSessionId(branchId)) {
+    return new Response("Invalid session or branch id", { status: 400 });
+  }
+
+  try {
+    if ((await getSession(id))?.readOnly) {
+      return new Response("Session is read-only", { status: 409 });
+    }
+    const session = await checkoutSessionBranch(id, branchId);
+    if (!session) {
+      return new Response("Branch not found", { status: 404 });
+    }
+    return Response.json(session);
+  } catch (error) {
+    console.error(`Failed to check out branch ${branchId} of ${id}`, error);
+    return new Response("Failed to check out branch", { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  forkSession,
+  getSession,
+  isValidSessionId,
+} from "@/lib/sessions/store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Forks a new branch from an edited user message and checks it out.
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return new Response("Invalid session id", { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const messageId: unknown = body?.messageId;
+  const text: unknown = body?.text;
+  if (
+    typeof messageId !== "string" ||
+    typeof text !== "string" ||
+    !text.trim()
+  ) {
+    return new Response("Expected a messageId and text", { status: 400 });
+  }
+
+  try {
+    const existing = await getSession(id);
+    if (!existing) {
+      return new Response("Session not found", { status: 404 });
+    }
+    if (existing.readOnly) {
+      return new Response("Session is read-only", { status: 409 });
+    }
+    if (
+      !existing.messages.some(
+        (message) => message.id === messageId && message.role === "user",
+      )
+    ) {
+      return new Response("Not a user message of this session", {
+        status: 400,
+      });
+    }
+    const session = await forkSession(id, messageId, text.trim());
+    if (!session) {
+      return new Response("Session not found", { status: 404 });
+    }
+    return Response.json(session, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to fork session ${id}`, error);
+    return new Response("Failed to fork session", { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { sessionTopic } from "@/lib/events/bus";
+import { createEventStream, eventStreamResponse } from "@/lib/events/sse";
+import { getSession, isValidSessionId } from "@/lib/sessions/store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Server-sent events for every tool call the session makes from now on; see
+// LiveEvent in lib/events/bus.ts.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return new Response("Invalid session id", { status: 400 });
+  }
+
+  try {
+    if (!(await getSession(id))) {
+      return new Response("Session not found", { status: 404 });
+    }
+  } catch (error) {
+    console.error(`Failed to read session ${id}`, error);
+    return new Response("Failed to read session", { status: 500 });
+  }
+
+  return eventStreamResponse(
+    createEventStream({ topic: sessionTopic(id), signal: request.signal }),
+  );
+}
@@ -0,0 +1,72 @@
+import { createReadStream } from "node:fs";
+import { Readable } from "node:stream";
+import {
+  getRecordingSize,
+  isValidRecordingId,
+  recordingPath,
+} from "@/lib/recordings/storage";
+import { isValidSessionId } from "@/lib/sessions/store";
+
+type RouteContext = {
+  params: Promise<{ id: string; recordingId: string }>;
+};
+
+// "bytes=start-end" with either end optional; null when unsatisfiable.
+const parseRange = (header: string, size: number) => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  const start = match[1]
+    ? Number(match[1])
+    : Math.max(0, size - Number(match[2]));
+  const end =
+    match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end ? { start, end } : null;
+};
+
+const stream = (path: string, range?: { start: number; end: number }) =>
+  Readable.toWeb(createReadStream(path, range)) as ReadableStream<Uint8Array>;
+
+// Serves byte ranges so the player can seek without downloading everything.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id, recordingId } = await params;
+  if (!isValidSessionId(id) || !isValidRecordingId(recordingId)) {
+    return new Response("Invalid recording", { status: 400 });
+  }
+
+  try {
+    const size = await getRecordingSize(id, recordingId);
+    if (size === null) {
+      return new Response("Recording not found", { status: 404 });
+    }
+    const path = recordingPath(id, recordingId);
+    const headers = {
+      "Content-Type": "video/mp4",
+      "Accept-Ranges": "bytes",
+    };
+
+    const rangeHeader = request.headers.get("range");
+    if (!rangeHeader) {
+      return new Response(stream(path), {
+        headers: { ...headers, "Content-Length": String(size) },
+      });
+    }
+    const range = parseRange(rangeHeader, size);
+    if (!range) {
+      return new Response(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${size}` },
+      });
+    }
+    return new Response(stream(path, range), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Length": String(range.end - range.start + 1),
+        "Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to read recording ${recordingId}`, error);
+    return new Response("Failed to read recording", { status: 500 });
+  }
+}
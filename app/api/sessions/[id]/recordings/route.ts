@@ -0,0 +1,21 @@
+import { getSession, isValidSessionId } from "@/lib/sessions/store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return new Response("Invalid session id", { status: 400 });
+  }
+
+  try {
+    const session = await getSession(id);
+    if (!session) {
+      return new Response("Session not found", { status: 404 });
+    }
+    return Response.json({ recordings: session.recordings });
+  } catch (error) {
+    console.error(`Failed to list recordings of ${id}`, error);
+    return new Response("Failed to list recordings", { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  deleteSession,
+  getSession,
+  isValidSessionId,
+  updateSession,
+} from "@/lib/sessions/store";
+import { parseSessionUpdate } from "@/lib/sessions/types";
+import { deleteSessionRecordings } from "@/lib/recordings/storage";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return new Response("Invalid session id", { status: 400 });
+  }
+
+  try {
+    const session = await getSession(id);
+    if (!session) {
+      return new Response("Session not found", { status: 404 });
+    }
+    return Response.json(session);
+  } catch (error) {
+    console.error(`Failed to read session ${id}`, error);
+    return new Response("Failed to read session", { status: 500 });
+  }
+}
+
+// Partial update: only the fields present in the body are replaced.
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return new Response("Invalid session id", { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return new Response("Invalid JSON body", { status: 400 });
+  }
+
+  try {
+    if ((await getSession(id))?.readOnly) {
+      return new Response("Session is read-only", { status: 409 });
+    }
+    const session = await updateSession(id, parseSessionUpdate(body));
+    if (!session) {
+      return new Response("Session not found", { status: 404 });
+    }
+    return Response.json({ id: session.id, updatedAt: session.updatedAt });
+  } catch (error) {
+    console.error(`Failed to update session ${id}`, error);
+    return new Response("Failed to update session", { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return new Response("Invalid session id", { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteSession(id);
+    if (!deleted) {
+      return new Response("Session not found", { status: 404 });
+    }
+    await deleteSessionRecordings(id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error(`Failed to delete session ${id}`, error);
+    return new Response("Failed to delete session", { status: 500 });
+  }
+}
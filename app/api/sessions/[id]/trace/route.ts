@@ -0,0 +1,37 @@
+import { getSession, isValidSessionId } from "@/lib/sessions/store";
+import { createTraceBundle } from "@/lib/trace/bundle";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const fileName = (title: string) =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 60) || "session"
+  }-trace.zip`;
+
+// Downloads the session as a trace bundle; see lib/trace/bundle.ts.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return new Response("Invalid session id", { status: 400 });
+  }
+
+  try {
+    const session = await getSession(id);
+    if (!session) {
+      return new Response("Session not found", { status: 404 });
+    }
+    return new Response(Buffer.from(createTraceBundle(session)), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName(session.title)}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to export session ${id}`, error);
+    return new Response("Failed to export session", { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { createSession, isValidSessionId } from "@/lib/sessions/store";
+import { parseSessionUpdate } from "@/lib/sessions/types";
+
+// One-time migration of sessions the browser kept in localStorage. Sessions
+// that already exist on the server are left untouched.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.sessions)) {
+    return new Response("No sessions provided", { status: 400 });
+  }
+
+  let imported = 0;
+  for (const stored of body.sessions as unknown[]) {
+    const { id, createdAt, updatedAt } = (stored ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (typeof id !== "string" || !isValidSessionId(id)) continue;
+
+    try {
+      const session = await createSession({
+        ...parseSessionUpdate(stored),
+        id,
+        createdAt: typeof createdAt === "number" ? createdAt : undefined,
+        updatedAt: typeof updatedAt === "number" ? updatedAt : undefined,
+      });
+      if (session) imported++;
+    } catch (error) {
+      console.error(`Failed to import session ${id}`, error);
+    }
+  }
+
+  return Response.json({ imported });
+}
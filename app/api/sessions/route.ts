@@ -0,0 +1,36 @@
+import {
+  createSession,
+  isValidSessionId,
+  listSessions,
+} from "@/lib/sessions/store";
+import { parseSessionUpdate } from "@/lib/sessions/types";
+
+export async function GET() {
+  try {
+    return Response.json({ sessions: await listSessions() });
+  } catch (error) {
+    console.error("Failed to list sessions", error);
+    return new Response("Failed to list sessions", { status: 500 });
+  }
+}
+
+// Clients may pick the id so a session can be shown before the save lands.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const id =
+    typeof body?.id === "string" ? (body.id as string) : crypto.randomUUID();
+  if (!isValidSessionId(id)) {
+    return new Response("Invalid session id", { status: 400 });
+  }
+
+  try {
+    const session = await createSession({ ...parseSessionUpdate(body), id });
+    if (!session) {
+      return new Response("Session already exists", { status: 409 });
+    }
+    return Response.json(session, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to create session ${id}`, error);
+    return new Response("Failed to create session", { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  deleteTemplate,
+  isValidTemplateId,
+  updateTemplate,
+} from "@/lib/templates/store";
+import { parseTemplateUpdate } from "@/lib/templates/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Partial update: only the fields present in the body are replaced.
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidTemplateId(id)) {
+    return new Response("Invalid template id", { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return new Response("Invalid JSON body", { status: 400 });
+  }
+
+  try {
+    const template = await updateTemplate(id, parseTemplateUpdate(body));
+    if (!template) {
+      return new Response("Template not found", { status: 404 });
+    }
+    return Response.json(template);
+  } catch (error) {
+    console.error(`Failed to update template ${id}`, error);
+    return new Response("Failed to update template", { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidTemplateId(id)) {
+    return new Response("Invalid template id", { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteTemplate(id);
+    if (!deleted) {
+      return new Response("Template not found", { status: 404 });
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error(`Failed to delete template ${id}`, error);
+    return new Response("Failed to delete template", { status: 500 });
+  }
+}
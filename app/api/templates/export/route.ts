@@ -0,0 +1,18 @@
+import { listTemplates } from "@/lib/templates/store";
+import { toTemplateLibrary } from "@/lib/templates/types";
+
+// Downloads the whole library; POST /api/templates/import takes it back.
+export async function GET() {
+  try {
+    const library = toTemplateLibrary(await listTemplates());
+    return new Response(JSON.stringify(library, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": 'attachment; filename="task-templates.json"',
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export templates", error);
+    return new Response("Failed to export templates", { status: 500 });
+  }
+}
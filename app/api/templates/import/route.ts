@@ -0,0 +1,25 @@
+import { createTemplate } from "@/lib/templates/store";
+import { parseTemplateLibrary } from "@/lib/templates/types";
+
+// Adds every template in an export as a new one, so importing the same file
+// twice never overwrites anything.
+export async function POST(request: Request) {
+  let inputs;
+  try {
+    inputs = parseTemplateLibrary(await request.json());
+  } catch (error) {
+    return new Response(
+      error instanceof Error ? error.message : "Invalid template library",
+      { status: 400 },
+    );
+  }
+
+  try {
+    const templates = [];
+    for (const input of inputs) templates.push(await createTemplate(input));
+    return Response.json({ templates }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to import templates", error);
+    return new Response("Failed to import templates", { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { createTemplate, listTemplates } from "@/lib/templates/store";
+import { parseTemplateInput } from "@/lib/templates/types";
+
+export async function GET() {
+  try {
+    return Response.json({ templates: await listTemplates() });
+  } catch (error) {
+    console.error("Failed to list templates", error);
+    return new Response("Failed to list templates", { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const input = parseTemplateInput(await request.json().catch(() => null));
+  if (!input) {
+    return new Response("Expected a name and prompt", { status: 400 });
+  }
+
+  try {
+    return Response.json(await createTemplate(input), { status: 201 });
+  } catch (error) {
+    console.error("Failed to create template", error);
+    return new Response("Failed to create template", { status: 500 });
+  }
+}
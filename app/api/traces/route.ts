@@ -0,0 +1,52 @@
+import { DEFAULT_MODEL_ID, findModel } from "@/lib/models";
+import { createSession } from "@/lib/sessions/store";
+import { toSessionSummary } from "@/lib/sessions/types";
+import { readTraceBundle } from "@/lib/trace/bundle";
+
+// Loads a trace bundle (the zip as the request body) as a new read-only
+// session, so importing the same trace twice never overwrites anything.
+export async function POST(request: Request) {
+  const bytes = new Uint8Array(await request.arrayBuffer());
+  if (bytes.length === 0) {
+    return new Response("No trace bundle provided", { status: 400 });
+  }
+
+  let trace;
+  try {
+    trace = readTraceBundle(bytes);
+  } catch (error) {
+    return new Response(
+      error instanceof Error ? error.message : "Invalid trace bundle",
+      { status: 400 },
+    );
+  }
+
+  const id = crypto.randomUUID();
+  try {
+    const { session } = trace;
+    const created = await createSession({
+      id,
+      title: typeof session.title === "string" ? session.title : undefined,
+      // Models this deployment doesn't know fall back to the default, so the
+      // picker and pricing can resolve the session's model.
+      modelId:
+        typeof session.modelId === "string" && findModel(session.modelId)
+          ? session.modelId
+          : DEFAULT_MODEL_ID,
+      costUsd:
+        typeof session.costUsd === "number" ? session.costUsd : undefined,
+      messages: trace.messages,
+      events: trace.events,
+      readOnly: true,
+      createdAt:
+        typeof session.createdAt === "number" ? session.createdAt : undefined,
+    });
+    if (!created) {
+      return new Response("Session already exists", { status: 409 });
+    }
+    return Response.json(toSessionSummary(created), { status: 201 });
+  } catch (error) {
+    console.error(`Failed to import trace as ${id}`, error);
+    return new Response("Failed to import trace", { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { connectDesktop } from "@/lib/e2b/utils";
+import { uploadFiles } from "@/lib/e2b/files";
+
+// Accepts multipart form data with one or more `files` fields and writes them
+// into the sandbox upload directory.
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+
+  if (!sandboxId) {
+    return new Response("No sandboxId provided", { status: 400 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  if (!form) {
+    return new Response("Expected multipart form data", { status: 400 });
+  }
+  const files = form
+    .getAll("files")
+    .filter((entry): entry is File => entry instanceof File);
+  if (files.length === 0) {
+    return new Response("No files provided", { status: 400 });
+  }
+
+  const desktop = await connectDesktop(sandboxId);
+  if (!desktop) {
+    return new Response("Desktop not found", { status: 404 });
+  }
+
+  try {
+    const uploaded = await uploadFiles(desktop, files);
+    return Response.json({ files: uploaded });
+  } catch (error) {
+    console.error(`Failed to upload files to ${sandboxId}`, error);
+    return new Response("Failed to upload files", { status: 500 });
+  }
+}
@@ -1,12 +1,11 @@
 "use client";
 
 import { PreviewMessage } from "@/components/message";
-import { getDesktopURL } from "@/lib/e2b/utils";
 import { useScrollToBottom } from "@/lib/use-scroll-to-bottom";
 import { useChat } from "@ai-sdk/react";
-import type { Message } from "ai";
-import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Input } from "@/components/input";
+import { Artifacts } from "@/components/artifacts";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { DeployButton, ProjectInfo } from "@/components/project-info";
@@ -17,80 +16,44 @@ import {
   ResizablePanel,
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
-import { ABORTED, cn } from "@/lib/utils";
+import { ABORTED, cn, formatTimestamp } from "@/lib/utils";
 import {
-  deriveStatusFromResult,
-  eventReducer,
   getEventType,
-  initialEventState,
-  parseToolPayload,
-  parseToolResult,
   type ToolEvent,
   type ToolEventStatus,
-  type ToolName,
 } from "@/lib/agent-events";
+import type { ChatSession } from "@/lib/sessions/types";
 import { VncViewer } from "@/components/vnc-viewer";
-import { Plus, Trash2 } from "lucide-react";
-
-const STORAGE_KEY = "computer-use:sessions";
-
-type ChatSession = {
-  id: string;
-  title: string;
-  messages: Message[];
-  createdAt: number;
-  updatedAt: number;
-};
-
-type StoredSessions = {
-  sessions: ChatSession[];
-  activeSessionId: string | null;
-};
-
-type MessagePart = NonNullable<Message["parts"]>[number];
-
-type ToolInvocationPart = MessagePart & {
-  type: "tool-invocation";
-  toolInvocation: {
-    toolCallId: string;
-    toolName: string;
-    state: "call" | "result";
-    args: unknown;
-    result?: unknown;
-  };
-};
-
-const isToolInvocationPart = (
-  part: MessagePart,
-): part is ToolInvocationPart => part.type === "tool-invocation";
-
-const createSessionId = () => {
-  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
-    return crypto.randomUUID();
-  }
-  return `session-${Date.now()}-${Math.random().toString(16).slice(2)}`;
-};
-
-const isTextPart = (
-  part: MessagePart,
-): part is MessagePart & { type: "text"; text: string } =>
-  part.type === "text" && "text" in part && typeof part.text === "string";
-
-const extractMessageText = (message: Message): string | undefined => {
-  if (typeof message.content === "string") return message.content;
-  const textPart = message.parts?.find(isTextPart);
-  return textPart?.text;
-};
-
-const deriveSessionTitle = (messages: Message[], fallback: string) => {
-  const firstUserMessage = messages.find((message) => message.role === "user");
-  const text = firstUserMessage ? extractMessageText(firstUserMessage) : undefined;
-  if (!text) return fallback;
-  return text.trim().slice(0, 48) || fallback;
-};
-
-const formatTimestamp = (timestamp: number) =>
-  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+import { ModelPicker } from "@/components/model-picker";
+import { ContextPicker } from "@/components/context-picker";
+import { ApprovalToggle } from "@/components/approval-toggle";
+import { SessionSpend } from "@/components/session-spend";
+import { SessionList } from "@/components/session-list";
+import { ReplayViewer } from "@/components/replay-viewer";
+import { RecordingPlayer } from "@/components/recording-player";
+import { RecordingToggle } from "@/components/recording-toggle";
+import { AnnotatedScreenshot } from "@/components/annotated-screenshot";
+import { TraceImportButton } from "@/components/trace-import-button";
+import { DEFAULT_MODEL_ID } from "@/lib/models";
+import { BUDGET_EXCEEDED, getStepUsages } from "@/lib/usage";
+import { buildReplay } from "@/lib/replay";
+import { MAIN_BRANCH_ID } from "@/lib/sessions/branches";
+import { getScreenshotMarkers } from "@/lib/action-markers";
+import {
+  getContextAnnotations,
+  type ContextScreenshot,
+} from "@/lib/context/window";
+import { useBranches } from "@/lib/use-branches";
+import { useChatSettings } from "@/lib/use-chat-settings";
+import { useDesktop } from "@/lib/use-desktop";
+import { useRecordings } from "@/lib/use-recordings";
+import {
+  sessionUrl,
+  useSessionPersistence,
+} from "@/lib/use-session-persistence";
+import { useToolEvents } from "@/lib/use-tool-events";
+import { useUploads } from "@/lib/use-uploads";
+import { Film, History, Plus } from "lucide-react";
 
 const formatDuration = (durationMs?: number) => {
   if (durationMs === undefined) return "--";
@@ -100,6 +63,8 @@ const formatDuration = (durationMs?: number) => {
 
 const getStatusTone = (status: ToolEventStatus) => {
   switch (status) {
+    case "awaiting-approval":
+      return "text-sky-600";
     case "running":
       return "text-amber-600";
     case "success":
@@ -113,30 +78,68 @@ const getStatusTone = (status: ToolEventStatus) => {
   }
 };
 
-const normalizeToolName = (toolName: string): ToolName => {
-  if (toolName === "computer" || toolName === "bash") return toolName;
-  return "unknown";
-};
-
 export default function Chat() {
   const [desktopContainerRef, desktopEndRef] = useScrollToBottom();
-  const [isInitializing, setIsInitializing] = useState(true);
-  const [streamUrl, setStreamUrl] = useState<string | null>(null);
-  const [sandboxId, setSandboxId] = useState<string | null>(null);
   const [mobileView, setMobileView] = useState<"chat" | "desktop">("chat");
 
-  const [sessions, setSessions] = useState<ChatSession[]>([]);
-  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
-  const [hasHydrated, setHasHydrated] = useState(false);
-  const sessionsRef = useRef<ChatSession[]>([]);
-
-  const [eventState, dispatchEvent] = useReducer(
-    eventReducer,
-    initialEventState,
+  const {
+    sessions,
+    activeSession,
+    activeSessionId,
+    activeSessionRef,
+    selectSession,
+    findSession,
+    hasHydrated,
+    updateSession,
+    recordSessionCost,
+    saveConversation,
+    flushSessionSave,
+    createSession,
+    importTrace,
+    deleteSession: deleteStoredSession,
+  } = useSessionPersistence();
+  // The session whose messages are currently in useChat; null while loading.
+  const [loadedSessionId, setLoadedSessionId] = useState<string | null>(null);
+  const {
+    approvalMode,
+    changeApprovalMode,
+    recordScreen,
+    changeRecordScreen,
+    contextStrategyId,
+    changeContextStrategy,
+    keepScreenshots,
+    changeKeepScreenshots,
+  } = useChatSettings();
+  // Shown over the live desktop, which stays connected underneath.
+  const [desktopOverlay, setDesktopOverlay] = useState<
+    "replay" | "recording" | null
+  >(null);
+
+  const setSessionDesktop = useCallback(
+    (sessionId: string, id: string) =>
+      updateSession(sessionId, { sandboxId: id }),
+    [updateSession],
   );
-  const seenCallsRef = useRef<Set<string>>(new Set());
-  const seenResultsRef = useRef<Set<string>>(new Set());
-  const callStartRef = useRef<Record<string, number>>({});
+  const {
+    streamUrl,
+    isInitializing,
+    isDesktopExpired,
+    desktopStatus,
+    openSessionDesktop,
+    closeDesktop,
+    refreshDesktop,
+    discardDesktop,
+  } = useDesktop({
+    sessions,
+    activeSession,
+    hasHydrated,
+    onProvision: setSessionDesktop,
+  });
+
+  const sandboxId = activeSession?.sandboxId ?? null;
+  const modelId = activeSession?.modelId ?? DEFAULT_MODEL_ID;
+  const isReadOnly = activeSession?.readOnly ?? false;
+  const isChatReady = Boolean(streamUrl && loadedSessionId);
 
   const {
     messages,
@@ -146,16 +149,31 @@ export default function Chat() {
     status,
     stop: stopGeneration,
     append,
+    setInput,
     setMessages,
+    reload,
   } = useChat({
     api: "/api/chat",
-    id: sandboxId ?? undefined,
     body: {
       sandboxId,
+      sessionId: loadedSessionId,
+      modelId,
+      approvalMode,
+      recordScreen,
+      contextStrategyId,
+      keepScreenshots: keepScreenshots ?? undefined,
     },
     maxSteps: 30,
     onError: (error) => {
       console.error(error);
+      if (error.message.startsWith(BUDGET_EXCEEDED)) {
+        toast.error("Session budget reached", {
+          description: error.message,
+          richColors: true,
+          position: "top-center",
+        });
+        return;
+      }
       toast.error("There was an error", {
         description: "Please try again later.",
         richColors: true,
@@ -195,245 +213,174 @@ export default function Chat() {
 
   const isLoading = status !== "ready";
 
-  const refreshDesktop = useCallback(async () => {
-    try {
-      setIsInitializing(true);
-      const { streamUrl, id } = await getDesktopURL(sandboxId || undefined);
-      setStreamUrl(streamUrl);
-      setSandboxId(id);
-    } catch (err) {
-      console.error("Failed to refresh desktop:", err);
-    } finally {
-      setIsInitializing(false);
-    }
-  }, [sandboxId]);
-
-  useEffect(() => {
-    if (!sandboxId) return;
-
-    const killDesktop = () => {
-      if (!sandboxId) return;
-      navigator.sendBeacon(
-        `/api/kill-desktop?sandboxId=${encodeURIComponent(sandboxId)}`,
-      );
-    };
-
-    const isIOS =
-      /iPad|iPhone|iPod/.test(navigator.userAgent) ||
-      (navigator.platform === "MacIntel" && navigator.maxTouchPoints > 1);
-    const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
-
-    if (isIOS || isSafari) {
-      window.addEventListener("pagehide", killDesktop);
-
-      return () => {
-        window.removeEventListener("pagehide", killDesktop);
-        killDesktop();
-      };
+  const { events, showEvents } = useToolEvents(messages, hasHydrated);
+  const recordings = useRecordings(loadedSessionId, isLoading);
+  const {
+    pendingUploads,
+    isUploading,
+    uploadFiles,
+    removeUpload,
+    clearUploads,
+  } = useUploads(sandboxId);
+
+  // Uploaded files are announced to the model in the next user message.
+  const submitMessage = (event: React.FormEvent<HTMLFormElement>) => {
+    if (pendingUploads.length === 0) {
+      handleSubmit(event);
+      return;
     }
+    event.preventDefault();
+    const fileList = pendingUploads
+      .map((upload) => `- ${upload.path}`)
+      .join("\n");
+    append({
+      role: "user",
+      content: [
+        input.trim(),
+        `I uploaded these files to the computer:\n${fileList}`,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+    });
+    setInput("");
+    clearUploads();
+  };
 
-    window.addEventListener("beforeunload", killDesktop);
+  const showConversation = useCallback(
+    (session: ChatSession) => {
+      showEvents(session.events);
+      setMessages(session.messages);
+    },
+    [showEvents, setMessages],
+  );
 
-    return () => {
-      window.removeEventListener("beforeunload", killDesktop);
-      killDesktop();
-    };
-  }, [sandboxId]);
+  const { branchChoices, showBranches, forkFromMessage, switchBranch } =
+    useBranches({
+      sessionId: loadedSessionId,
+      messages,
+      activeSessionRef,
+      flushSessionSave,
+      onCheckout: showConversation,
+      reload,
+    });
 
   useEffect(() => {
-    const init = async () => {
-      try {
-        setIsInitializing(true);
-        const { streamUrl, id } = await getDesktopURL(sandboxId ?? undefined);
-        setStreamUrl(streamUrl);
-        setSandboxId(id);
-      } catch (err) {
-        console.error("Failed to initialize desktop:", err);
-        toast.error("Failed to initialize desktop");
-      } finally {
-        setIsInitializing(false);
-      }
-    };
-
-    init();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    if (!hasHydrated || !activeSessionId) return;
+    const active = findSession(activeSessionId);
+    if (!active) return;
 
-  useEffect(() => {
-    sessionsRef.current = sessions;
-  }, [sessions]);
+    flushSessionSave();
+    setLoadedSessionId(null);
+    setMessages([]);
+    clearUploads();
+    setDesktopOverlay(null);
+    showEvents([]);
+    showBranches({ branchId: MAIN_BRANCH_ID, branches: [] });
+    if (active.readOnly) {
+      closeDesktop();
+    } else {
+      openSessionDesktop(active);
+    }
 
-  useEffect(() => {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) {
+    let cancelled = false;
+    const load = async () => {
       try {
-        const parsed = JSON.parse(raw) as StoredSessions;
-        if (parsed.sessions?.length) {
-          setSessions(parsed.sessions);
-          const nextActiveId =
-            parsed.activeSessionId ?? parsed.sessions[0].id ?? null;
-          setActiveSessionId(nextActiveId);
-          const active = parsed.sessions.find(
-            (session) => session.id === nextActiveId,
-          );
-          setMessages(active?.messages ?? []);
-          setHasHydrated(true);
-          return;
-        }
+        const response = await fetch(sessionUrl(activeSessionId));
+        if (!response.ok) throw new Error(await response.text());
+        const session = (await response.json()) as ChatSession;
+        if (cancelled) return;
+
+        showConversation(session);
+        showBranches(session);
+        setLoadedSessionId(session.id);
       } catch (error) {
-        console.error("Failed to parse stored sessions:", error);
+        if (cancelled) return;
+        console.error("Failed to load session:", error);
+        toast.error("Failed to load session");
       }
-    }
-
-    const newSession: ChatSession = {
-      id: createSessionId(),
-      title: "New session",
-      messages: [],
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
     };
-    setSessions([newSession]);
-    setActiveSessionId(newSession.id);
-    setMessages([]);
-    setHasHydrated(true);
-  }, [setMessages]);
 
-  useEffect(() => {
-    if (!hasHydrated) return;
-    const payload: StoredSessions = {
-      sessions,
-      activeSessionId,
+    load();
+    return () => {
+      cancelled = true;
     };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
-  }, [sessions, activeSessionId, hasHydrated]);
-
-  useEffect(() => {
-    if (!hasHydrated || !activeSessionId) return;
-    const active = sessionsRef.current.find(
-      (session) => session.id === activeSessionId,
-    );
-    if (!active) return;
-    setMessages(active.messages ?? []);
-  }, [activeSessionId, hasHydrated, setMessages]);
-
-  useEffect(() => {
-    if (!hasHydrated || !activeSessionId) return;
+  }, [
+    activeSessionId,
+    hasHydrated,
+    findSession,
+    flushSessionSave,
+    setMessages,
+    clearUploads,
+    showEvents,
+    showConversation,
+    showBranches,
+    closeDesktop,
+    openSessionDesktop,
+  ]);
+
+  const changeModel = useCallback(
+    (nextModelId: string) => {
+      if (activeSessionId) {
+        updateSession(activeSessionId, { modelId: nextModelId });
+      }
+    },
+    [activeSessionId, updateSession],
+  );
 
-    setSessions((prev) =>
-      prev.map((session) => {
-        if (session.id !== activeSessionId) return session;
-        const title = deriveSessionTitle(messages, session.title);
-        return {
-          ...session,
-          title,
-          messages,
-          updatedAt: Date.now(),
-        };
-      }),
-    );
-  }, [messages, activeSessionId, hasHydrated]);
-
-  const createSession = useCallback(() => {
-    const newSession: ChatSession = {
-      id: createSessionId(),
-      title: "New session",
-      messages: [],
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
-    setSessions((prev) => [newSession, ...prev]);
-    setActiveSessionId(newSession.id);
-    setMessages([]);
-  }, [setMessages]);
+  const changeBudget = useCallback(
+    (budgetUsd: number | null) => {
+      if (activeSessionId) updateSession(activeSessionId, { budgetUsd });
+    },
+    [activeSessionId, updateSession],
+  );
 
   const deleteSession = useCallback(
     (sessionId: string) => {
-      setSessions((prev) => prev.filter((session) => session.id !== sessionId));
-      if (sessionId !== activeSessionId) return;
-
-      const remaining = sessionsRef.current.filter(
-        (session) => session.id !== sessionId,
-      );
-      const nextSession = remaining[0];
-      if (!nextSession) {
-        const newSession: ChatSession = {
-          id: createSessionId(),
-          title: "New session",
-          messages: [],
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-        };
-        setSessions([newSession]);
-        setActiveSessionId(newSession.id);
-        setMessages([]);
-        return;
-      }
-      setActiveSessionId(nextSession.id);
-      setMessages(nextSession.messages);
+      const deleted = findSession(sessionId);
+      if (deleted?.sandboxId) discardDesktop(deleted.sandboxId);
+      deleteStoredSession(sessionId);
     },
-    [activeSessionId, setMessages],
+    [findSession, discardDesktop, deleteStoredSession],
   );
 
+  // The route reports the session's running total with every step.
   useEffect(() => {
-    if (!hasHydrated) return;
-    dispatchEvent({ type: "reset" });
-    seenCallsRef.current = new Set();
-    seenResultsRef.current = new Set();
-    callStartRef.current = {};
-  }, [activeSessionId, hasHydrated]);
+    if (!loadedSessionId) return;
+    const costUsd = messages
+      .flatMap((message) => getStepUsages(message.annotations))
+      .findLast((usage) => usage.sessionCostUsd !== null)?.sessionCostUsd;
+    if (costUsd != null) recordSessionCost(loadedSessionId, costUsd);
+  }, [messages, loadedSessionId, recordSessionCost]);
 
   useEffect(() => {
-    if (!hasHydrated) return;
-
-    messages.forEach((message) => {
-      message.parts?.forEach((part) => {
-        if (!isToolInvocationPart(part)) return;
-
-        const { toolCallId, toolName, state, args, result } =
-          part.toolInvocation;
-        if (!toolCallId) return;
-
-        if (state === "call" && !seenCallsRef.current.has(toolCallId)) {
-          seenCallsRef.current.add(toolCallId);
-          const timestamp = Date.now();
-          callStartRef.current[toolCallId] = timestamp;
-
-          dispatchEvent({
-            type: "register-call",
-            event: {
-              id: toolCallId,
-              toolName: normalizeToolName(toolName),
-              timestamp,
-              status: "running",
-              payload: parseToolPayload(toolName, args),
-            },
-          });
-        }
-
-        if (state === "result" && !seenResultsRef.current.has(toolCallId)) {
-          seenResultsRef.current.add(toolCallId);
-          const startedAt = callStartRef.current[toolCallId] ?? Date.now();
-          const parsedResult = parseToolResult(result);
-          const status = deriveStatusFromResult(parsedResult);
-
-          dispatchEvent({
-            type: "register-result",
-            id: toolCallId,
-            status,
-            durationMs: Math.max(0, Date.now() - startedAt),
-            result: parsedResult,
-          });
-        }
-      });
-    });
-  }, [messages, hasHydrated]);
-
-  const events = useMemo<ToolEvent[]>(
-    () =>
-      eventState.order
-        .map((id) => eventState.byId[id])
-        .filter((event): event is ToolEvent => Boolean(event)),
-    [eventState],
+    if (loadedSessionId) saveConversation(loadedSessionId, messages, events);
+  }, [messages, events, loadedSessionId, saveConversation]);
+
+  const screenshotMarkers = useMemo(
+    () => getScreenshotMarkers(events),
+    [events],
+  );
+
+  // What the latest request did with each screenshot.
+  const contextScreenshots = useMemo(() => {
+    const latest = messages
+      .flatMap((message) => getContextAnnotations(message.annotations))
+      .at(-1);
+    return Object.fromEntries(
+      (latest?.screenshots ?? []).map((screenshot) => [
+        screenshot.toolCallId,
+        screenshot,
+      ]),
+    ) as Record<string, ContextScreenshot>;
+  }, [messages]);
+
+  const canBranch = !isLoading && !isReadOnly;
+
+  const showReplay = desktopOverlay === "replay" || isReadOnly;
+  const showRecording = desktopOverlay === "recording" && !isReadOnly;
+  const replaySteps = useMemo(
+    () => (showReplay ? buildReplay(messages, events) : []),
+    [showReplay, messages, events],
   );
 
   const eventCounts = useMemo(() => {
@@ -445,6 +392,9 @@ export default function Chat() {
   }, [events]);
 
   const agentStatus = useMemo(() => {
+    if (events.some((event) => event.status === "awaiting-approval")) {
+      return "Awaiting approval";
+    }
     const hasRunning = events.some((event) => event.status === "running");
     if (hasRunning) return "Acting";
     if (status === "submitted" || status === "streaming") return "Thinking";
@@ -452,6 +402,8 @@ export default function Chat() {
   }, [events, status]);
 
   const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  // The event hovered in the details list, highlighted on its screenshot.
+  const [hoveredEventId, setHoveredEventId] = useState<string | null>(null);
 
   useEffect(() => {
     const latestId = events.at(-1)?.id ?? null;
@@ -466,14 +418,32 @@ export default function Chat() {
 
     return (
       <div className="space-y-2">
+        {event.policyReason && (
+          <div className="text-xs text-rose-400">
+            Blocked by policy: {event.policyReason}
+          </div>
+        )}
+        {event.error && (
+          <div className="text-xs text-rose-400">Failed: {event.error}</div>
+        )}
         <div className="text-xs text-zinc-500">Payload</div>
         <pre className="text-xs bg-zinc-950 text-zinc-100 rounded-md p-3 overflow-x-auto">
           {payload}
         </pre>
         <div className="text-xs text-zinc-500">Result</div>
-        <pre className="text-xs bg-zinc-950 text-zinc-100 rounded-md p-3 overflow-x-auto">
-          {result}
-        </pre>
+        {event.result?.type === "image" ? (
+          <AnnotatedScreenshot
+            src={`data:image/png;base64,${event.result.data}`}
+            alt={`Screenshot from ${event.id}`}
+            className="w-full rounded-md"
+            markers={screenshotMarkers[event.id]}
+            highlightedEventId={hoveredEventId}
+          />
+        ) : (
+          <pre className="text-xs bg-zinc-950 text-zinc-100 rounded-md p-3 overflow-x-auto">
+            {result}
+          </pre>
+        )}
       </div>
     );
   };
@@ -493,7 +463,36 @@ export default function Chat() {
                 <span className="text-xs text-zinc-500">{agentStatus}</span>
               </div>
               <div className="flex items-center gap-2">
+                <ModelPicker
+                  modelId={modelId}
+                  onChange={changeModel}
+                  disabled={isLoading || !activeSession || isReadOnly}
+                />
+                <ContextPicker
+                  strategyId={contextStrategyId}
+                  onChange={changeContextStrategy}
+                  keepScreenshots={keepScreenshots}
+                  onKeepScreenshotsChange={changeKeepScreenshots}
+                  disabled={isLoading || isReadOnly}
+                />
+                <ApprovalToggle
+                  enabled={approvalMode}
+                  onChange={changeApprovalMode}
+                  disabled={isLoading}
+                />
+                <RecordingToggle
+                  enabled={recordScreen}
+                  onChange={changeRecordScreen}
+                  disabled={isLoading || isReadOnly}
+                />
+                <SessionSpend
+                  costUsd={activeSession?.costUsd ?? 0}
+                  budgetUsd={activeSession?.budgetUsd ?? null}
+                  onBudgetChange={changeBudget}
+                  disabled={!activeSession || isReadOnly}
+                />
                 <DeployButton />
+                <TraceImportButton onImport={importTrace} />
                 <Button size="sm" variant="secondary" onClick={createSession}>
                   <Plus className="h-4 w-4" />
                   New
@@ -505,52 +504,14 @@ export default function Chat() {
               <div className="text-xs uppercase tracking-wide text-zinc-500 mb-2">
                 Sessions
               </div>
-              <div className="flex flex-col gap-2 max-h-40 overflow-y-auto">
-                {sessions.map((session) => (
-                  <div
-                    key={session.id}
-                    className={cn(
-                      "flex items-center justify-between rounded-md border px-3 py-2 text-sm transition",
-                      session.id === activeSessionId
-                        ? "border-zinc-900 bg-zinc-900 text-white"
-                        : "border-zinc-200 bg-white hover:border-zinc-400",
-                    )}
-                  >
-                    <button
-                      type="button"
-                      className="flex-1 text-left"
-                      onClick={() => setActiveSessionId(session.id)}
-                    >
-                      <div className="font-medium line-clamp-1">
-                        {session.title}
-                      </div>
-                      <div
-                        className={cn(
-                          "text-xs",
-                          session.id === activeSessionId
-                            ? "text-zinc-200"
-                            : "text-zinc-500",
-                        )}
-                      >
-                        Updated {formatTimestamp(session.updatedAt)}
-                      </div>
-                    </button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className={cn(
-                        "ml-2",
-                        session.id === activeSessionId
-                          ? "text-white hover:bg-white/10"
-                          : "text-zinc-500",
-                      )}
-                      onClick={() => deleteSession(session.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
+              <SessionList
+                sessions={sessions}
+                activeSessionId={activeSessionId}
+                desktopStatus={desktopStatus}
+                onSelect={selectSession}
+                onDelete={deleteSession}
+                className="max-h-40"
+              />
             </div>
 
             <div
@@ -565,6 +526,12 @@ export default function Chat() {
                   isLoading={isLoading}
                   status={status}
                   isLatestMessage={i === messages.length - 1}
+                  markers={screenshotMarkers}
+                  highlightedEventId={hoveredEventId}
+                  contextScreenshots={contextScreenshots}
+                  branchChoices={branchChoices[message.id]}
+                  onEdit={canBranch ? forkFromMessage : undefined}
+                  onSwitchBranch={canBranch ? switchBranch : undefined}
                 />
               ))}
               <div ref={desktopEndRef} className="pb-2" />
@@ -572,14 +539,15 @@ export default function Chat() {
 
             {messages.length === 0 && (
               <PromptSuggestions
-                disabled={isInitializing}
+                disabled={isInitializing || !isChatReady}
                 submitPrompt={(prompt: string) =>
                   append({ role: "user", content: prompt })
                 }
               />
             )}
 
-            <div className="border-t border-zinc-200 bg-white px-4 py-3">
+            <div className="border-t border-zinc-200 bg-white px-4 py-3 space-y-3">
+              <Artifacts sandboxId={sandboxId} isRunning={isLoading} />
               <details className="group rounded-lg border border-amber-200 bg-amber-50/60 px-3 py-3">
                 <summary className="flex cursor-pointer items-center justify-between text-sm font-semibold text-amber-900">
                   Debug event store
@@ -609,16 +577,26 @@ export default function Chat() {
             </div>
 
             <div className="bg-white border-t border-zinc-200">
-              <form onSubmit={handleSubmit} className="p-4">
-                <Input
-                  handleInputChange={handleInputChange}
-                  input={input}
-                  isInitializing={isInitializing}
-                  isLoading={isLoading}
-                  status={status}
-                  stop={stop}
-                />
-              </form>
+              {isReadOnly ? (
+                <div className="p-4 text-sm text-zinc-500">
+                  Imported from a trace bundle, so this session is read-only.
+                </div>
+              ) : (
+                <form onSubmit={submitMessage} className="p-4">
+                  <Input
+                    handleInputChange={handleInputChange}
+                    input={input}
+                    isInitializing={isInitializing || !isChatReady}
+                    isLoading={isLoading}
+                    status={status}
+                    stop={stop}
+                    uploads={pendingUploads}
+                    isUploading={isUploading}
+                    onUpload={uploadFiles}
+                    onRemoveUpload={removeUpload}
+                  />
+                </form>
+              )}
             </div>
           </ResizablePanel>
 
@@ -635,8 +613,27 @@ export default function Chat() {
                   <VncViewer
                     streamUrl={streamUrl}
                     isInitializing={isInitializing}
+                    isExpired={isDesktopExpired}
                     onRefresh={refreshDesktop}
                   />
+                  {showReplay && (
+                    <ReplayViewer
+                      steps={replaySteps}
+                      onClose={
+                        isReadOnly ? undefined : () => setDesktopOverlay(null)
+                      }
+                      className="absolute inset-0 z-20"
+                    />
+                  )}
+                  {showRecording && loadedSessionId && (
+                    <RecordingPlayer
+                      sessionId={loadedSessionId}
+                      recordings={recordings}
+                      events={events}
+                      onClose={() => setDesktopOverlay(null)}
+                      className="absolute inset-0 z-20"
+                    />
+                  )}
                 </div>
               </ResizablePanel>
               <ResizableHandle withHandle />
@@ -647,8 +644,36 @@ export default function Chat() {
               >
                 <div className="flex items-center justify-between mb-4">
                   <div className="text-sm font-semibold">Tool call details</div>
-                  <div className="text-xs text-zinc-400">
-                    {events.length} total
+                  <div className="flex items-center gap-3">
+                    <div className="text-xs text-zinc-400">
+                      {events.length} total
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      disabled={isLoading || isReadOnly || recordings.length === 0}
+                      onClick={() =>
+                        setDesktopOverlay((open) =>
+                          open === "recording" ? null : "recording",
+                        )
+                      }
+                    >
+                      <Film className="h-4 w-4" />
+                      {desktopOverlay === "recording" ? "Live" : "Recording"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      disabled={isLoading || isReadOnly || events.length === 0}
+                      onClick={() =>
+                        setDesktopOverlay((open) =>
+                          open === "replay" ? null : "replay",
+                        )
+                      }
+                    >
+                      <History className="h-4 w-4" />
+                      {desktopOverlay === "replay" ? "Live" : "Replay"}
+                    </Button>
                   </div>
                 </div>
                 <div className="flex-1 overflow-y-auto pr-1">
@@ -663,6 +688,8 @@ export default function Chat() {
                           key={event.id}
                           className="rounded-md border border-zinc-800 bg-zinc-950"
                           open={expandedEventId === event.id}
+                          onMouseEnter={() => setHoveredEventId(event.id)}
+                          onMouseLeave={() => setHoveredEventId(null)}
                         >
                           <summary
                             className="flex cursor-pointer items-center justify-between px-3 py-2 text-sm"
@@ -716,6 +743,36 @@ export default function Chat() {
             <span className="text-xs text-zinc-500">{agentStatus}</span>
           </div>
           <div className="flex items-center gap-2">
+            <ModelPicker
+              modelId={modelId}
+              onChange={changeModel}
+              disabled={isLoading || !activeSession || isReadOnly}
+              className="max-w-32"
+            />
+            <ContextPicker
+              strategyId={contextStrategyId}
+              onChange={changeContextStrategy}
+              keepScreenshots={keepScreenshots}
+              onKeepScreenshotsChange={changeKeepScreenshots}
+              disabled={isLoading || isReadOnly}
+              className="max-w-32"
+            />
+            <ApprovalToggle
+              enabled={approvalMode}
+              onChange={changeApprovalMode}
+              disabled={isLoading}
+            />
+            <RecordingToggle
+              enabled={recordScreen}
+              onChange={changeRecordScreen}
+              disabled={isLoading || isReadOnly}
+            />
+            <SessionSpend
+              costUsd={activeSession?.costUsd ?? 0}
+              budgetUsd={activeSession?.budgetUsd ?? null}
+              onBudgetChange={changeBudget}
+              disabled={!activeSession || isReadOnly}
+            />
             <Button
               size="sm"
               variant={mobileView === "chat" ? "default" : "secondary"}
@@ -740,57 +797,22 @@ export default function Chat() {
                 <div className="text-xs uppercase tracking-wide text-zinc-500">
                   Sessions
                 </div>
-                <Button size="sm" variant="secondary" onClick={createSession}>
-                  <Plus className="h-4 w-4" />
-                  New
-                </Button>
-              </div>
-              <div className="mt-2 flex flex-col gap-2 max-h-32 overflow-y-auto">
-                {sessions.map((session) => (
-                  <div
-                    key={session.id}
-                    className={cn(
-                      "flex items-center justify-between rounded-md border px-3 py-2 text-sm",
-                      session.id === activeSessionId
-                        ? "border-zinc-900 bg-zinc-900 text-white"
-                        : "border-zinc-200 bg-white",
-                    )}
-                  >
-                    <button
-                      type="button"
-                      className="flex-1 text-left"
-                      onClick={() => setActiveSessionId(session.id)}
-                    >
-                      <div className="font-medium line-clamp-1">
-                        {session.title}
-                      </div>
-                      <div
-                        className={cn(
-                          "text-xs",
-                          session.id === activeSessionId
-                            ? "text-zinc-200"
-                            : "text-zinc-500",
-                        )}
-                      >
-                        Updated {formatTimestamp(session.updatedAt)}
-                      </div>
-                    </button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className={cn(
-                        "ml-2",
-                        session.id === activeSessionId
-                          ? "text-white hover:bg-white/10"
-                          : "text-zinc-500",
-                      )}
-                      onClick={() => deleteSession(session.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
+                <div className="flex items-center gap-2">
+                  <TraceImportButton onImport={importTrace} />
+                  <Button size="sm" variant="secondary" onClick={createSession}>
+                    <Plus className="h-4 w-4" />
+                    New
+                  </Button>
+                </div>
               </div>
+              <SessionList
+                sessions={sessions}
+                activeSessionId={activeSessionId}
+                desktopStatus={desktopStatus}
+                onSelect={selectSession}
+                onDelete={deleteSession}
+                className="mt-2 max-h-32"
+              />
             </div>
 
             <div
@@ -805,6 +827,12 @@ export default function Chat() {
                   isLoading={isLoading}
                   status={status}
                   isLatestMessage={i === messages.length - 1}
+                  markers={screenshotMarkers}
+                  highlightedEventId={hoveredEventId}
+                  contextScreenshots={contextScreenshots}
+                  branchChoices={branchChoices[message.id]}
+                  onEdit={canBranch ? forkFromMessage : undefined}
+                  onSwitchBranch={canBranch ? switchBranch : undefined}
                 />
               ))}
               <div ref={desktopEndRef} className="pb-2" />
@@ -812,33 +840,84 @@ export default function Chat() {
 
             {messages.length === 0 && (
               <PromptSuggestions
-                disabled={isInitializing}
+                disabled={isInitializing || !isChatReady}
                 submitPrompt={(prompt: string) =>
                   append({ role: "user", content: prompt })
                 }
               />
             )}
 
-            <div className="border-t border-zinc-200 bg-white">
-              <form onSubmit={handleSubmit} className="p-4">
-                <Input
-                  handleInputChange={handleInputChange}
-                  input={input}
-                  isInitializing={isInitializing}
-                  isLoading={isLoading}
-                  status={status}
-                  stop={stop}
-                />
-              </form>
+            <div className="border-t border-zinc-200 bg-white px-4 pt-3">
+              <Artifacts sandboxId={sandboxId} isRunning={isLoading} />
+            </div>
+
+            <div className="bg-white">
+              {isReadOnly ? (
+                <div className="p-4 text-sm text-zinc-500">
+                  Imported from a trace bundle, so this session is read-only.
+                </div>
+              ) : (
+                <form onSubmit={submitMessage} className="p-4">
+                  <Input
+                    handleInputChange={handleInputChange}
+                    input={input}
+                    isInitializing={isInitializing || !isChatReady}
+                    isLoading={isLoading}
+                    status={status}
+                    stop={stop}
+                    uploads={pendingUploads}
+                    isUploading={isUploading}
+                    onUpload={uploadFiles}
+                    onRemoveUpload={removeUpload}
+                  />
+                </form>
+              )}
             </div>
           </>
         ) : (
-          <div className="flex-1 bg-black">
+          <div className="flex-1 bg-black relative">
             <VncViewer
               streamUrl={streamUrl}
               isInitializing={isInitializing}
+              isExpired={isDesktopExpired}
               onRefresh={refreshDesktop}
             />
+            {showReplay ? (
+              <ReplayViewer
+                steps={replaySteps}
+                onClose={isReadOnly ? undefined : () => setDesktopOverlay(null)}
+                className="absolute inset-0 z-20"
+              />
+            ) : showRecording && loadedSessionId ? (
+              <RecordingPlayer
+                sessionId={loadedSessionId}
+                recordings={recordings}
+                events={events}
+                onClose={() => setDesktopOverlay(null)}
+                className="absolute inset-0 z-20"
+              />
+            ) : (
+              <div className="absolute top-3 left-3 z-10 flex gap-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={isLoading || events.length === 0}
+                  onClick={() => setDesktopOverlay("replay")}
+                >
+                  <History className="h-4 w-4" />
+                  Replay
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={isLoading || recordings.length === 0}
+                  onClick={() => setDesktopOverlay("recording")}
+                >
+                  <Film className="h-4 w-4" />
+                  Recording
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
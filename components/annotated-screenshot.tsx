@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import type { ActionMarker } from "@/lib/action-markers";
+import { cn } from "@/lib/utils";
+
+// Desktops run at 1024x768 until the screenshot reports its size.
+const DEFAULT_SIZE = { width: 1024, height: 768 };
+
+const SCROLL_ROTATION = { up: 0, right: 90, down: 180, left: 270 };
+
+const MarkerShape = ({
+  marker,
+  radius,
+  isHighlighted,
+  isDimmed,
+}: {
+  marker: ActionMarker;
+  radius: number;
+  isHighlighted: boolean;
+  isDimmed: boolean;
+}) => {
+  const [x, y] = marker.point;
+  const color = isHighlighted ? "#facc15" : "#f43f5e";
+  const strokeWidth = isHighlighted ? 3 : 2;
+  const shared = {
+    stroke: color,
+    strokeWidth,
+    vectorEffect: "non-scaling-stroke" as const,
+    opacity: isDimmed ? 0.35 : 1,
+  };
+
+  switch (marker.kind) {
+    case "click":
+      return (
+        <g {...shared} fill="none" data-marker={marker.kind}>
+          <circle cx={x} cy={y} r={radius} />
+          <line x1={x - radius * 1.6} y1={y} x2={x + radius * 1.6} y2={y} />
+          <line x1={x} y1={y - radius * 1.6} x2={x} y2={y + radius * 1.6} />
+        </g>
+      );
+    case "drag": {
+      const [fromX, fromY] = marker.from;
+      const angle = Math.atan2(y - fromY, x - fromX);
+      const head = (offset: number) =>
+        `${x - radius * 1.5 * Math.cos(angle + offset)},${y - radius * 1.5 * Math.sin(angle + offset)}`;
+      return (
+        <g {...shared} fill={color} data-marker={marker.kind}>
+          <circle cx={fromX} cy={fromY} r={radius / 2} />
+          <line x1={fromX} y1={fromY} x2={x} y2={y} />
+          <polygon points={`${x},${y} ${head(0.4)} ${head(-0.4)}`} />
+        </g>
+      );
+    }
+    case "scroll":
+      // An arrowhead pointing the way the page scrolled.
+      return (
+        <g
+          {...shared}
+          fill={color}
+          fillOpacity={0.3}
+          transform={`rotate(${SCROLL_ROTATION[marker.direction]} ${x} ${y})`}
+          data-marker={marker.kind}
+        >
+          <path
+            d={`M ${x} ${y - radius * 1.5} L ${x + radius} ${y + radius * 0.5} L ${x} ${y} L ${x - radius} ${y + radius * 0.5} Z`}
+          />
+        </g>
+      );
+  }
+};
+
+// A screenshot with the actions that led up to it drawn on top.
+export const AnnotatedScreenshot = ({
+  src,
+  alt,
+  markers = [],
+  highlightedEventId = null,
+  className,
+}: {
+  src: string;
+  alt: string;
+  markers?: ActionMarker[];
+  // Emphasizes one action's marker and fades the rest.
+  highlightedEventId?: string | null;
+  className?: string;
+}) => {
+  const [size, setSize] = useState(DEFAULT_SIZE);
+  const radius = size.width / 64;
+  const hasHighlight = markers.some(
+    (marker) => marker.eventId === highlightedEventId,
+  );
+
+  return (
+    <div className="relative">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={src}
+        alt={alt}
+        // Block so the overlay doesn't cover the inline gap below the image.
+        className={cn("block", className)}
+        onLoad={(event) =>
+          setSize({
+            width: event.currentTarget.naturalWidth,
+            height: event.currentTarget.naturalHeight,
+          })
+        }
+      />
+      {markers.length > 0 && (
+        <svg
+          className="pointer-events-none absolute inset-0 h-full w-full"
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="none"
+          aria-hidden
+        >
+          {markers.map((marker) => (
+            <MarkerShape
+              key={marker.eventId}
+              marker={marker}
+              radius={radius}
+              isHighlighted={marker.eventId === highlightedEventId}
+              isDimmed={hasHighlight && marker.eventId !== highlightedEventId}
+            />
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
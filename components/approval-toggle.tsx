@@ -0,0 +1,41 @@
+import { ShieldCheck, ShieldOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Whether risky tool calls wait for approval; see lib/approvals/policy.ts.
+export const ApprovalToggle = ({
+  enabled,
+  onChange,
+  disabled,
+  className,
+}: {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}) => (
+  <button
+    type="button"
+    aria-pressed={enabled}
+    disabled={disabled}
+    onClick={() => onChange(!enabled)}
+    title={
+      enabled
+        ? "Risky tool calls wait for your approval"
+        : "Tool calls run without approval"
+    }
+    className={cn(
+      "flex h-8 items-center gap-1 rounded-md border px-2 text-xs disabled:cursor-not-allowed disabled:opacity-50",
+      enabled
+        ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+        : "border-zinc-200 bg-white text-zinc-500",
+      className,
+    )}
+  >
+    {enabled ? (
+      <ShieldCheck className="h-3.5 w-3.5" />
+    ) : (
+      <ShieldOff className="h-3.5 w-3.5" />
+    )}
+    Approvals
+  </button>
+);
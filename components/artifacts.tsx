@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Download, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+type Artifact = {
+  name: string;
+  path: string;
+  size: number;
+  modifiedAt: number;
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const Artifacts = ({
+  sandboxId,
+  isRunning,
+}: {
+  sandboxId: string | null;
+  isRunning: boolean;
+}) => {
+  const [artifacts, setArtifacts] = useState<Artifact[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!sandboxId) {
+      setArtifacts([]);
+      return;
+    }
+    try {
+      setIsRefreshing(true);
+      const response = await fetch(
+        `/api/artifacts?sandboxId=${encodeURIComponent(sandboxId)}`,
+      );
+      if (!response.ok) throw new Error(await response.text());
+      const { files } = (await response.json()) as { files: Artifact[] };
+      setArtifacts(files);
+    } catch (error) {
+      console.error("Failed to list artifacts:", error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [sandboxId]);
+
+  // Re-list whenever a run finishes, since that is when new files appear.
+  useEffect(() => {
+    if (!isRunning) refresh();
+  }, [isRunning, refresh]);
+
+  return (
+    <details className="group rounded-lg border border-zinc-200 px-3 py-3">
+      <summary className="flex cursor-pointer items-center justify-between text-sm font-semibold text-zinc-900">
+        Files
+        <span className="text-xs font-normal text-zinc-500">
+          {artifacts.length} files
+        </span>
+      </summary>
+      <div className="mt-3 space-y-2">
+        <div className="flex items-center justify-between text-xs text-zinc-500">
+          Downloads and files the agent created
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            onClick={refresh}
+            disabled={!sandboxId || isRefreshing}
+          >
+            <RefreshCw className={isRefreshing ? "animate-spin" : undefined} />
+          </Button>
+        </div>
+        {artifacts.length === 0 ? (
+          <div className="text-xs text-zinc-400">No files yet</div>
+        ) : (
+          <ul className="max-h-40 space-y-1 overflow-y-auto">
+            {artifacts.map((artifact) => (
+              <li
+                key={artifact.path}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="truncate" title={artifact.path}>
+                    {artifact.name}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {formatSize(artifact.size)}
+                  </div>
+                </div>
+                <a
+                  href={`/api/download?sandboxId=${encodeURIComponent(
+                    sandboxId ?? "",
+                  )}&path=${encodeURIComponent(artifact.path)}`}
+                  className="text-zinc-500 hover:text-zinc-900"
+                  download={artifact.name}
+                >
+                  <Download className="h-4 w-4" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+};
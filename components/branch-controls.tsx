@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+const iconButton =
+  "rounded p-0.5 text-zinc-500 hover:bg-zinc-100 hover:text-zinc-700 disabled:pointer-events-none disabled:opacity-40";
+
+// Edit button and "‹ 2/3 ›" switcher under a user message.
+export const BranchControls = ({
+  choices,
+  onEdit,
+  onSwitch,
+}: {
+  // The branches that differ at this message; null when there is only one.
+  choices: { branchIds: string[]; current: number } | null;
+  onEdit?: () => void;
+  // Unset while a run is going, which disables the switcher.
+  onSwitch?: (branchId: string) => void;
+}) => {
+  if (!choices && !onEdit) return null;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-end gap-1 text-xs text-zinc-500",
+        // A lone edit button only shows on hover.
+        !choices &&
+          "opacity-0 transition-opacity group-hover/message:opacity-100",
+      )}
+    >
+      {onEdit && (
+        <button
+          type="button"
+          aria-label="Edit message"
+          title="Edit and fork the conversation"
+          onClick={onEdit}
+          className={iconButton}
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </button>
+      )}
+      {choices && (
+        <div className="flex items-center tabular-nums">
+          <button
+            type="button"
+            aria-label="Previous branch"
+            disabled={!onSwitch || choices.current === 0}
+            onClick={() => onSwitch?.(choices.branchIds[choices.current - 1])}
+            className={iconButton}
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </button>
+          <span>
+            {choices.current + 1}/{choices.branchIds.length}
+          </span>
+          <button
+            type="button"
+            aria-label="Next branch"
+            disabled={
+              !onSwitch || choices.current === choices.branchIds.length - 1
+            }
+            onClick={() => onSwitch?.(choices.branchIds[choices.current + 1])}
+            className={iconButton}
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Replaces a user message while it is being edited.
+export const MessageEditor = ({
+  text,
+  onSave,
+  onCancel,
+}: {
+  text: string;
+  onSave: (text: string) => void;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState(text);
+  const isChanged = Boolean(draft.trim()) && draft.trim() !== text.trim();
+
+  return (
+    <form
+      className="flex w-full flex-col gap-2 pb-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (isChanged) onSave(draft.trim());
+      }}
+    >
+      <textarea
+        aria-label="Message"
+        autoFocus
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") onCancel();
+        }}
+        rows={Math.min(8, Math.max(2, draft.split("\n").length))}
+        className="w-full min-w-72 rounded-xl border border-zinc-300 bg-white px-3 py-2 text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!isChanged}>
+          Save & fork
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,58 @@
+import {
+  CONTEXT_STRATEGIES,
+  getContextStrategy,
+  MAX_KEEP_SCREENSHOTS,
+} from "@/lib/context/strategies";
+import { cn } from "@/lib/utils";
+
+// Picks a strategy and how many screenshots it sends as taken; null uses
+// the strategy's own number.
+export const ContextPicker = ({
+  strategyId,
+  onChange,
+  keepScreenshots,
+  onKeepScreenshotsChange,
+  disabled,
+  className,
+}: {
+  strategyId: string;
+  onChange: (strategyId: string) => void;
+  keepScreenshots: number | null;
+  onKeepScreenshotsChange: (keepScreenshots: number | null) => void;
+  disabled?: boolean;
+  className?: string;
+}) => (
+  <div className={cn("flex items-center gap-1", className)}>
+    <select
+      aria-label="Context strategy"
+      value={strategyId}
+      disabled={disabled}
+      onChange={(event) => onChange(event.target.value)}
+      className="h-8 min-w-0 flex-1 rounded-md border border-zinc-200 bg-white px-2 text-xs text-zinc-700 disabled:cursor-not-allowed disabled:opacity-50"
+    >
+      {CONTEXT_STRATEGIES.map((strategy) => (
+        <option key={strategy.id} value={strategy.id}>
+          {strategy.label}
+        </option>
+      ))}
+    </select>
+    <input
+      type="number"
+      aria-label="Screenshots sent as taken"
+      title="Screenshots sent as taken, counting back from the latest"
+      min={1}
+      max={MAX_KEEP_SCREENSHOTS}
+      value={keepScreenshots ?? getContextStrategy(strategyId).keepScreenshots}
+      disabled={disabled}
+      onChange={(event) => {
+        const value = event.target.valueAsNumber;
+        onKeepScreenshotsChange(
+          Number.isInteger(value)
+            ? Math.min(Math.max(value, 1), MAX_KEEP_SCREENSHOTS)
+            : null,
+        );
+      }}
+      className="h-8 w-12 rounded-md border border-zinc-200 bg-white px-1 text-xs text-zinc-700 tabular-nums disabled:cursor-not-allowed disabled:opacity-50"
+    />
+  </div>
+);
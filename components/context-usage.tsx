@@ -0,0 +1,76 @@
+import type { ContextAnnotation, ScreenshotFate } from "@/lib/context/window";
+import { formatTokens } from "@/lib/usage";
+import { cn } from "@/lib/utils";
+
+const fateTone: Record<ScreenshotFate, string> = {
+  sent: "bg-emerald-50 text-emerald-700",
+  downscaled: "bg-sky-50 text-sky-700",
+  dropped: "bg-zinc-100 text-zinc-500 line-through",
+  summarized: "bg-amber-50 text-amber-700",
+};
+
+// estimateInputTokens counts locally, before the request is sent; the
+// usage line shows what the provider billed.
+const ESTIMATE_NOTE =
+  "Estimated before sending: about 4 characters per token, plus each screenshot's pixels / 750";
+
+// What each request behind a message sent to the model, and which
+// screenshots it kept.
+export const ContextUsage = ({
+  requests,
+}: {
+  requests: ContextAnnotation[];
+}) => {
+  if (requests.length === 0) return null;
+  const latest = requests[requests.length - 1];
+
+  return (
+    <details className="text-xs text-zinc-500">
+      <summary className="cursor-pointer select-none" title={ESTIMATE_NOTE}>
+        {`Context · ~${formatTokens(latest.estimatedInputTokens)} tokens (estimated) in the last request`}
+      </summary>
+      <ol className="mt-1 space-y-1 tabular-nums">
+        {requests.map((request, index) => (
+          <li key={index} className="flex flex-wrap items-center gap-1">
+            <span className="text-zinc-400">#{index + 1}</span>
+            <span className="mr-1" title={ESTIMATE_NOTE}>
+              ~{formatTokens(request.estimatedInputTokens)} tokens est.
+            </span>
+            {request.screenshots.map((screenshot) => (
+              <span
+                key={screenshot.toolCallId}
+                title={`Screenshot ${screenshot.index} ${screenshot.fate}`}
+                className={cn("rounded px-1", fateTone[screenshot.fate])}
+              >
+                {screenshot.index}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+const fateLabel: Record<ScreenshotFate, string> = {
+  sent: "sent with the last request",
+  downscaled: "downscaled in the last request",
+  dropped: "dropped from the last request",
+  summarized: "summarized in the last request",
+};
+
+// Caption under a screenshot in the chat.
+export const ScreenshotFateLabel = ({
+  index,
+  fate,
+}: {
+  index: number;
+  fate: ScreenshotFate;
+}) => (
+  <div className="text-xs text-zinc-500">
+    <span className={cn("rounded px-1 tabular-nums", fateTone[fate])}>
+      {index}
+    </span>{" "}
+    Screenshot {index}, {fateLabel[fate]}
+  </div>
+);
@@ -1,5 +1,12 @@
-import { ArrowUp } from "lucide-react";
+import { useRef, useState } from "react";
+import { ArrowUp, Paperclip, X } from "lucide-react";
 import { Input as ShadcnInput } from "./ui/input";
+import { cn } from "@/lib/utils";
+
+export type UploadedFile = {
+  name: string;
+  path: string;
+};
 
 interface InputProps {
   input: string;
@@ -8,6 +15,10 @@ interface InputProps {
   isLoading: boolean;
   status: string;
   stop: () => void;
+  uploads: UploadedFile[];
+  isUploading: boolean;
+  onUpload: (files: File[]) => void;
+  onRemoveUpload: (path: string) => void;
 }
 
 export const Input = ({
@@ -17,51 +28,127 @@ export const Input = ({
   isLoading,
   status,
   stop,
+  uploads,
+  isUploading,
+  onUpload,
+  onRemoveUpload,
 }: InputProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const uploadDisabled = isInitializing || isUploading;
+
   return (
-    <div className="relative w-full">
-      <ShadcnInput
-        className="bg-secondary py-6 w-full rounded-xl pr-12"
-        value={input}
-        autoFocus
-        placeholder={"Tell me what to do..."}
-        onChange={handleInputChange}
-        disabled={isLoading || isInitializing}
-      />
-      {status === "streaming" || status === "submitted" ? (
+    <div
+      className={cn(
+        "relative w-full rounded-xl transition-colors",
+        isDragging && "ring-2 ring-zinc-400 ring-offset-2",
+      )}
+      onDragOver={(event) => {
+        if (uploadDisabled) return;
+        event.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(event) => {
+        event.preventDefault();
+        setIsDragging(false);
+        if (uploadDisabled) return;
+        const files = Array.from(event.dataTransfer.files);
+        if (files.length) onUpload(files);
+      }}
+    >
+      {(uploads.length > 0 || isUploading || isDragging) && (
+        <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+          {uploads.map((upload) => (
+            <span
+              key={upload.path}
+              className="flex items-center gap-1 rounded-full border border-zinc-200 bg-white px-2 py-1 text-zinc-700"
+              title={upload.path}
+            >
+              {upload.name}
+              <button
+                type="button"
+                className="cursor-pointer text-zinc-400 hover:text-zinc-700"
+                onClick={() => onRemoveUpload(upload.path)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {isUploading && <span className="text-zinc-500">Uploading...</span>}
+          {isDragging && (
+            <span className="text-zinc-500">Drop files to upload them</span>
+          )}
+        </div>
+      )}
+      <div className="relative w-full">
         <button
           type="button"
-          onClick={stop}
-          className="cursor-pointer absolute right-2 top-1/2 -translate-y-1/2 rounded-full p-2 bg-black hover:bg-zinc-800 disabled:bg-zinc-300 disabled:cursor-not-allowed transition-colors"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadDisabled}
+          className="cursor-pointer absolute left-2 top-1/2 -translate-y-1/2 rounded-full p-2 text-zinc-500 hover:text-zinc-900 disabled:cursor-not-allowed disabled:opacity-50"
         >
-          <div className="animate-spin h-4 w-4">
-            <svg className="h-4 w-4 text-white" viewBox="0 0 24 24">
-              <circle
-                className="opacity-25"
-                cx="12"
-                cy="12"
-                r="10"
-                stroke="currentColor"
-                strokeWidth="4"
-                fill="none"
-              />
-              <path
-                className="opacity-75"
-                fill="currentColor"
-                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-              />
-            </svg>
-          </div>
+          <Paperclip className="h-4 w-4" />
         </button>
-      ) : (
-        <button
-          type="submit"
-          disabled={isLoading || !input.trim() || isInitializing}
-          className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full p-2 bg-black hover:bg-zinc-800 disabled:bg-zinc-300 disabled:cursor-not-allowed transition-colors"
-        >
-          <ArrowUp className="h-4 w-4 text-white" />
-        </button>
-      )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            const files = Array.from(event.target.files ?? []);
+            if (files.length) onUpload(files);
+            event.target.value = "";
+          }}
+        />
+        <ShadcnInput
+          className="bg-secondary py-6 w-full rounded-xl pl-11 pr-12"
+          value={input}
+          autoFocus
+          placeholder={"Tell me what to do..."}
+          onChange={handleInputChange}
+          disabled={isLoading || isInitializing}
+        />
+        {status === "streaming" || status === "submitted" ? (
+          <button
+            type="button"
+            onClick={stop}
+            className="cursor-pointer absolute right-2 top-1/2 -translate-y-1/2 rounded-full p-2 bg-black hover:bg-zinc-800 disabled:bg-zinc-300 disabled:cursor-not-allowed transition-colors"
+          >
+            <div className="animate-spin h-4 w-4">
+              <svg className="h-4 w-4 text-white" viewBox="0 0 24 24">
+                <circle
+                  className="opacity-25"
+                  cx="12"
+                  cy="12"
+                  r="10"
+                  stroke="currentColor"
+                  strokeWidth="4"
+                  fill="none"
+                />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+            </div>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={
+              isLoading ||
+              (!input.trim() && uploads.length === 0) ||
+              isInitializing ||
+              isUploading
+            }
+            className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full p-2 bg-black hover:bg-zinc-800 disabled:bg-zinc-300 disabled:cursor-not-allowed transition-colors"
+          >
+            <ArrowUp className="h-4 w-4 text-white" />
+          </button>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,424 @@
+// @vitest-environment jsdom
+import type { Message } from "ai";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ABORTED } from "@/lib/utils";
+import { PreviewMessage } from "./message";
+
+// Markdown rendering is irrelevant to tool cards and heavy to load in jsdom.
+vi.mock("streamdown", () => ({
+  Streamdown: ({ children }: { children: string }) => <p>{children}</p>,
+}));
+
+afterEach(cleanup);
+
+type Invocation = {
+  toolName: string;
+  args: Record<string, unknown>;
+  state?: "call" | "result";
+  result?: unknown;
+  annotations?: Message["annotations"];
+};
+
+const renderInvocation = (
+  { toolName, args, state = "call", result, annotations }: Invocation,
+  status: "ready" | "streaming" = "ready",
+) => {
+  const message: Message = {
+    id: "m1",
+    role: "assistant",
+    content: "",
+    annotations,
+    parts: [
+      {
+        type: "tool-invocation",
+        toolInvocation:
+          state === "result"
+            ? { state, toolCallId: "t1", toolName, args, result }
+            : { state, toolCallId: "t1", toolName, args },
+      },
+    ],
+  };
+  return render(
+    <PreviewMessage
+      message={message}
+      isLoading={status !== "ready"}
+      status={status}
+      isLatestMessage
+    />,
+  );
+};
+
+describe("PreviewMessage computer actions", () => {
+  const cases: [Record<string, unknown>, string, string?][] = [
+    [{ action: "screenshot" }, "Taking screenshot"],
+    [
+      { action: "left_click", coordinate: [10, 20] },
+      "Left clicking",
+      "at (10, 20)",
+    ],
+    [
+      { action: "right_click", coordinate: [1, 2], text: "ctrl" },
+      "Right clicking",
+      "at (1, 2) holding ctrl",
+    ],
+    [
+      { action: "middle_click", coordinate: [3, 4] },
+      "Middle clicking",
+      "at (3, 4)",
+    ],
+    [
+      { action: "double_click", coordinate: [5, 6] },
+      "Double clicking",
+      "at (5, 6)",
+    ],
+    [
+      { action: "triple_click", coordinate: [7, 8] },
+      "Triple clicking",
+      "at (7, 8)",
+    ],
+    [
+      { action: "left_mouse_down", coordinate: [9, 9] },
+      "Pressing mouse button",
+      "at (9, 9)",
+    ],
+    [{ action: "left_mouse_up" }, "Releasing mouse button"],
+    [
+      {
+        action: "left_click_drag",
+        start_coordinate: [1, 1],
+        coordinate: [50, 60],
+      },
+      "Dragging",
+      "from (1, 1) to (50, 60)",
+    ],
+    [
+      { action: "mouse_move", coordinate: [30, 40] },
+      "Moving mouse",
+      "to (30, 40)",
+    ],
+    [{ action: "cursor_position" }, "Reading cursor position"],
+    [{ action: "type", text: "hello" }, "Typing", '"hello"'],
+    [{ action: "key", text: "Return" }, "Pressing key", '"Return"'],
+    [
+      { action: "hold_key", text: "shift", duration: 2 },
+      "Holding key",
+      '"shift" for 2 seconds',
+    ],
+    [{ action: "wait", duration: 3 }, "Waiting", "3 seconds"],
+    [
+      {
+        action: "scroll",
+        scroll_direction: "down",
+        scroll_amount: 5,
+        text: "shift",
+      },
+      "Scrolling",
+      "down by 5 holding shift",
+    ],
+  ];
+
+  it.each(cases)("renders %o", (args, label, detail) => {
+    renderInvocation({ toolName: "computer", args });
+    expect(screen.getByText(label)).toBeTruthy();
+    if (detail) expect(screen.getByText(detail)).toBeTruthy();
+  });
+
+  it("falls back to the raw action name for unknown actions", () => {
+    renderInvocation({ toolName: "computer", args: { action: "teleport" } });
+    expect(screen.getByText("teleport")).toBeTruthy();
+  });
+
+  it("shows a placeholder while a screenshot is pending", () => {
+    const { container } = renderInvocation(
+      { toolName: "computer", args: { action: "screenshot" } },
+      "streaming",
+    );
+    expect(container.querySelector(".animate-pulse")).not.toBeNull();
+    expect(container.querySelector(".animate-spin")).not.toBeNull();
+  });
+
+  it("renders screenshot results as images", () => {
+    renderInvocation({
+      toolName: "computer",
+      args: { action: "screenshot" },
+      state: "result",
+      result: { type: "image", data: "abc" },
+    });
+    expect(screen.getByRole("img").getAttribute("src")).toBe(
+      "data:image/png;base64,abc",
+    );
+  });
+
+  it("draws the actions that led to a screenshot on it", () => {
+    const { container } = render(
+      <PreviewMessage
+        message={{
+          id: "m1",
+          role: "assistant",
+          content: "",
+          parts: [
+            {
+              type: "tool-invocation",
+              toolInvocation: {
+                state: "result",
+                toolCallId: "shot",
+                toolName: "computer",
+                args: { action: "screenshot" },
+                result: { type: "image", data: "abc" },
+              },
+            },
+          ],
+        }}
+        isLoading={false}
+        status="ready"
+        isLatestMessage
+        markers={{
+          shot: [
+            { eventId: "c1", kind: "click", point: [10, 20] },
+            {
+              eventId: "s1",
+              kind: "scroll",
+              point: [30, 40],
+              direction: "down",
+            },
+          ],
+        }}
+        highlightedEventId="s1"
+      />,
+    );
+
+    const click = container.querySelector('[data-marker="click"]');
+    const scroll = container.querySelector('[data-marker="scroll"]');
+    expect(click?.querySelector("circle")?.getAttribute("cx")).toBe("10");
+    expect(click?.getAttribute("opacity")).toBe("0.35");
+    expect(scroll?.getAttribute("opacity")).toBe("1");
+    expect(scroll?.getAttribute("transform")).toBe("rotate(180 30 40)");
+  });
+
+  it("marks aborted and successful results differently", () => {
+    const aborted = renderInvocation({
+      toolName: "computer",
+      args: { action: "left_click" },
+      state: "result",
+      result: ABORTED,
+    });
+    expect(aborted.container.querySelector(".text-amber-600")).not.toBeNull();
+    cleanup();
+
+    const done = renderInvocation({
+      toolName: "computer",
+      args: { action: "left_click" },
+      state: "result",
+      result: { type: "text", text: "Left clicked" },
+    });
+    expect(done.container.querySelector(".text-green-600")).not.toBeNull();
+  });
+
+  it("marks calls that never finished as stopped", () => {
+    const { container } = renderInvocation({
+      toolName: "computer",
+      args: { action: "left_click" },
+    });
+    expect(container.querySelector(".text-red-500")).not.toBeNull();
+  });
+});
+
+describe("PreviewMessage bash cards", () => {
+  it("shows the command being run", () => {
+    renderInvocation({ toolName: "bash", args: { command: "ls -la" } });
+    expect(screen.getByText("Running command")).toBeTruthy();
+    expect(screen.getByText("ls -la")).toBeTruthy();
+  });
+
+  it("truncates long commands", () => {
+    const command = `echo ${"x".repeat(60)}`;
+    renderInvocation({ toolName: "bash", args: { command } });
+    expect(screen.getByText(`${command.slice(0, 40)}...`)).toBeTruthy();
+  });
+
+  it("shows shell restarts", () => {
+    renderInvocation({ toolName: "bash", args: { restart: true } });
+    expect(screen.getByText("Restarting shell")).toBeTruthy();
+  });
+
+  it("renders output and exit code of a successful command", () => {
+    const { container } = renderInvocation({
+      toolName: "bash",
+      args: { command: "ls" },
+      state: "result",
+      result: { type: "bash", stdout: "file.txt", stderr: "", exitCode: 0 },
+    });
+    expect(screen.getByText("exit 0")).toBeTruthy();
+    expect(screen.getByText("file.txt")).toBeTruthy();
+    expect(container.querySelector(".text-green-600")).not.toBeNull();
+  });
+
+  it("highlights failing commands and their stderr", () => {
+    const { container } = renderInvocation({
+      toolName: "bash",
+      args: { command: "cat missing" },
+      state: "result",
+      result: {
+        type: "bash",
+        stdout: "",
+        stderr: "No such file",
+        exitCode: 1,
+      },
+    });
+    expect(screen.getByText("exit 1").className).toContain("text-red-600");
+    expect(screen.getByText("No such file")).toBeTruthy();
+    expect(container.querySelector("svg.text-red-600")).not.toBeNull();
+  });
+
+  it("labels timed out commands", () => {
+    renderInvocation({
+      toolName: "bash",
+      args: { command: "sleep 999" },
+      state: "result",
+      result: {
+        type: "bash",
+        stdout: "",
+        stderr: "Command timed out",
+        exitCode: -1,
+        timedOut: true,
+      },
+    });
+    expect(screen.getByText("timed out")).toBeTruthy();
+  });
+
+  it("shows why the policy blocked a command", () => {
+    const { container } = renderInvocation({
+      toolName: "bash",
+      args: { command: "cat /etc/shadow" },
+      state: "result",
+      result: {
+        type: "policy-violation",
+        rule: "blocked-path",
+        reason: "Command touches blocked path /etc/shadow",
+      },
+    });
+    expect(
+      screen.getByText(
+        "Blocked by policy: Command touches blocked path /etc/shadow",
+      ),
+    ).toBeTruthy();
+    expect(container.querySelector("svg.text-red-600")).not.toBeNull();
+  });
+
+  it("marks aborted commands", () => {
+    const { container } = renderInvocation({
+      toolName: "bash",
+      args: { command: "ls" },
+      state: "result",
+      result: ABORTED,
+    });
+    expect(container.querySelector(".text-amber-600")).not.toBeNull();
+  });
+});
+
+describe("PreviewMessage approvals", () => {
+  const request = {
+    type: "approval-request",
+    toolCallId: "t1",
+    ruleId: "bash-rm",
+    reason: "Deletes files",
+  };
+
+  it("offers approve, edit and reject while a call is held", () => {
+    const { container } = renderInvocation(
+      {
+        toolName: "bash",
+        args: { command: "rm -rf build" },
+        annotations: [request],
+      },
+      "streaming",
+    );
+    expect(screen.getByText("Awaiting approval: Deletes files")).toBeTruthy();
+    for (const name of ["Approve", "Edit", "Reject"]) {
+      expect(screen.getByRole("button", { name })).toBeTruthy();
+    }
+    expect(container.querySelector(".animate-spin")).toBeNull();
+  });
+
+  it("opens the editable argument for editing", () => {
+    renderInvocation(
+      {
+        toolName: "bash",
+        args: { command: "rm -rf build" },
+        annotations: [request],
+      },
+      "streaming",
+    );
+    fireEvent.click(screen.getByRole("button", { name: "Edit" }));
+    expect(
+      (screen.getByLabelText("Edit command") as HTMLTextAreaElement).value,
+    ).toBe("rm -rf build");
+  });
+
+  it("shows how a held call was decided", () => {
+    const { container } = renderInvocation({
+      toolName: "bash",
+      args: { command: "rm -rf build" },
+      state: "result",
+      result: { type: "rejected", text: "The user rejected this bash call." },
+      annotations: [
+        request,
+        { type: "approval-result", toolCallId: "t1", approved: false },
+      ],
+    });
+    expect(screen.getByText("Rejected")).toBeTruthy();
+    expect(screen.queryByRole("button", { name: "Approve" })).toBeNull();
+    expect(container.querySelector(".text-amber-600")).not.toBeNull();
+  });
+
+  it("shows the edited argument of approved calls", () => {
+    renderInvocation({
+      toolName: "bash",
+      args: { command: "rm -rf /" },
+      state: "result",
+      result: { type: "bash", stdout: "", stderr: "", exitCode: 0 },
+      annotations: [
+        request,
+        {
+          type: "approval-result",
+          toolCallId: "t1",
+          approved: true,
+          args: { command: "rm -rf ./tmp" },
+        },
+      ],
+    });
+    expect(screen.getByText("rm -rf ./tmp")).toBeTruthy();
+  });
+});
+
+describe("PreviewMessage usage", () => {
+  const step = (costUsd: number, cacheReadTokens = 0) => ({
+    type: "usage",
+    modelId: "claude-sonnet-4",
+    inputTokens: 1500,
+    outputTokens: 40,
+    cacheReadTokens,
+    cacheWriteTokens: 0,
+    costUsd,
+    sessionCostUsd: null,
+    budgetUsd: null,
+  });
+
+  it("lists tokens and cost per step", () => {
+    renderInvocation({
+      toolName: "bash",
+      args: { command: "ls" },
+      annotations: [step(0.0051), step(0.0349, 12000)],
+    });
+    expect(screen.getByText(/2 steps · \$0\.04/)).toBeTruthy();
+    expect(screen.getAllByText("1.5k in")).toHaveLength(2);
+    expect(screen.getByText("12.0k cache read")).toBeTruthy();
+    expect(screen.getByText("$0.0051")).toBeTruthy();
+  });
+
+  it("shows nothing before any step finished", () => {
+    renderInvocation({ toolName: "bash", args: { command: "ls" } });
+    expect(screen.queryByText(/steps? ·/)).toBeNull();
+  });
+});
@@ -2,35 +2,120 @@
 
 import type { Message } from "ai";
 import { AnimatePresence, motion } from "motion/react";
-import { memo } from "react";
+import { memo, useState } from "react";
 import equal from "fast-deep-equal";
 import { Streamdown } from "streamdown";
 
-import { ABORTED, cn } from "@/lib/utils";
+import { cn } from "@/lib/utils";
+import { parseToolResult, type ToolResult } from "@/lib/agent-events";
+import { getApprovalState } from "@/lib/approvals/types";
+import { getStepUsages } from "@/lib/usage";
+import type { ActionMarker } from "@/lib/action-markers";
+import {
+  getContextAnnotations,
+  type ContextScreenshot,
+} from "@/lib/context/window";
+import { ToolApproval } from "@/components/tool-approval";
+import { StepUsage } from "@/components/step-usage";
+import { AnnotatedScreenshot } from "@/components/annotated-screenshot";
+import { BranchControls, MessageEditor } from "@/components/branch-controls";
+import {
+  ContextUsage,
+  ScreenshotFateLabel,
+} from "@/components/context-usage";
 import {
   Camera,
   CheckCircle,
   CircleSlash,
   Clock,
+  Crosshair,
+  FilePen,
+  FilePlus,
+  FileSearch,
+  FileText,
+  Grab,
+  Hand,
   Keyboard,
   KeyRound,
   Loader2,
   MousePointer,
   MousePointerClick,
+  Move,
   ScrollText,
+  ShieldAlert,
   StopCircle,
+  Undo2,
+  XCircle,
 } from "lucide-react";
 
+const editorCommandLabels = {
+  view: { label: "Viewing", Icon: FileSearch },
+  create: { label: "Creating file", Icon: FilePlus },
+  str_replace: { label: "Editing file", Icon: FilePen },
+  insert: { label: "Inserting into", Icon: FilePen },
+  undo_edit: { label: "Undoing edit", Icon: Undo2 },
+};
+
+const formatPoint = (preposition: string, point?: [number, number]) =>
+  point ? `${preposition} (${point[0]}, ${point[1]})` : "";
+
+// Aborted and rejected calls never (fully) ran.
+const isHalted = (result?: ToolResult) =>
+  result?.type === "aborted" || result?.type === "rejected";
+
+// Click and scroll actions carry held modifier keys in `text`.
+const withModifier = (detail: string, keys?: string) =>
+  keys ? `${detail} holding ${keys}`.trim() : detail;
+
 const PurePreviewMessage = ({
   message,
   isLatestMessage,
   status,
+  markers,
+  highlightedEventId = null,
+  contextScreenshots,
+  branchChoices = null,
+  onEdit,
+  onSwitchBranch,
 }: {
   message: Message;
   isLoading: boolean;
   status: "error" | "submitted" | "streaming" | "ready";
   isLatestMessage: boolean;
+  // Actions to draw on each screenshot, keyed by the screenshot's call id.
+  markers?: Record<string, ActionMarker[]>;
+  highlightedEventId?: string | null;
+  // How the latest request treated each screenshot, keyed by call id.
+  contextScreenshots?: Record<string, ContextScreenshot>;
+  // Branches that differ at this user message, when there are several.
+  branchChoices?: { branchIds: string[]; current: number } | null;
+  // Unset while a run is going or the session is read-only.
+  onEdit?: (messageId: string, text: string) => void;
+  onSwitchBranch?: (branchId: string) => void;
 }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const userText =
+    message.parts
+      ?.flatMap((part) => (part.type === "text" ? [part.text] : []))
+      .join("\n") || message.content;
+
+  if (isEditing && onEdit) {
+    return (
+      <div className="w-full mx-auto px-4 flex justify-end">
+        <div className="w-full max-w-2xl">
+          <MessageEditor
+            text={userText}
+            onSave={(text) => {
+              setIsEditing(false);
+              onEdit(message.id, text);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <AnimatePresence key={message.id}>
       <motion.div
@@ -78,11 +163,40 @@ const PurePreviewMessage = ({
                 case "tool-invocation":
                   const { toolName, toolCallId, state, args } =
                     part.toolInvocation;
+                  const approval = getApprovalState(
+                    message.annotations,
+                    toolCallId,
+                  );
+                  const isAwaitingApproval =
+                    Boolean(approval && !approval.result) &&
+                    state === "call" &&
+                    isLatestMessage &&
+                    status !== "ready";
+                  const invocationResult =
+                    state === "result"
+                      ? parseToolResult(part.toolInvocation.result)
+                      : undefined;
+                  const policyNotice =
+                    invocationResult?.type === "policy-violation" ? (
+                      <div className="text-xs text-red-600">
+                        Blocked by policy: {invocationResult.reason}
+                      </div>
+                    ) : null;
+                  const approvalPanel = approval ? (
+                    <ToolApproval
+                      toolCallId={toolCallId}
+                      toolName={toolName}
+                      args={args}
+                      approval={approval}
+                      isPending={isAwaitingApproval}
+                    />
+                  ) : null;
 
                   if (toolName === "computer") {
                     const {
                       action,
                       coordinate,
+                      start_coordinate,
                       text,
                       duration,
                       scroll_amount,
@@ -99,32 +213,73 @@ const PurePreviewMessage = ({
                         break;
                       case "left_click":
                         actionLabel = "Left clicking";
-                        actionDetail = coordinate
-                          ? `at (${coordinate[0]}, ${coordinate[1]})`
-                          : "";
+                        actionDetail = withModifier(
+                          formatPoint("at", coordinate),
+                          text,
+                        );
                         ActionIcon = MousePointer;
                         break;
                       case "right_click":
                         actionLabel = "Right clicking";
-                        actionDetail = coordinate
-                          ? `at (${coordinate[0]}, ${coordinate[1]})`
-                          : "";
+                        actionDetail = withModifier(
+                          formatPoint("at", coordinate),
+                          text,
+                        );
+                        ActionIcon = MousePointerClick;
+                        break;
+                      case "middle_click":
+                        actionLabel = "Middle clicking";
+                        actionDetail = withModifier(
+                          formatPoint("at", coordinate),
+                          text,
+                        );
                         ActionIcon = MousePointerClick;
                         break;
                       case "double_click":
                         actionLabel = "Double clicking";
-                        actionDetail = coordinate
-                          ? `at (${coordinate[0]}, ${coordinate[1]})`
-                          : "";
+                        actionDetail = withModifier(
+                          formatPoint("at", coordinate),
+                          text,
+                        );
+                        ActionIcon = MousePointerClick;
+                        break;
+                      case "triple_click":
+                        actionLabel = "Triple clicking";
+                        actionDetail = withModifier(
+                          formatPoint("at", coordinate),
+                          text,
+                        );
                         ActionIcon = MousePointerClick;
                         break;
+                      case "left_mouse_down":
+                        actionLabel = "Pressing mouse button";
+                        actionDetail = formatPoint("at", coordinate);
+                        ActionIcon = Grab;
+                        break;
+                      case "left_mouse_up":
+                        actionLabel = "Releasing mouse button";
+                        actionDetail = formatPoint("at", coordinate);
+                        ActionIcon = Hand;
+                        break;
+                      case "left_click_drag":
+                        actionLabel = "Dragging";
+                        actionDetail = [
+                          formatPoint("from", start_coordinate),
+                          formatPoint("to", coordinate),
+                        ]
+                          .filter(Boolean)
+                          .join(" ");
+                        ActionIcon = Move;
+                        break;
                       case "mouse_move":
                         actionLabel = "Moving mouse";
-                        actionDetail = coordinate
-                          ? `to (${coordinate[0]}, ${coordinate[1]})`
-                          : "";
+                        actionDetail = formatPoint("to", coordinate);
                         ActionIcon = MousePointer;
                         break;
+                      case "cursor_position":
+                        actionLabel = "Reading cursor position";
+                        ActionIcon = Crosshair;
+                        break;
                       case "type":
                         actionLabel = "Typing";
                         actionDetail = text ? `"${text}"` : "";
@@ -135,6 +290,13 @@ const PurePreviewMessage = ({
                         actionDetail = text ? `"${text}"` : "";
                         ActionIcon = KeyRound;
                         break;
+                      case "hold_key":
+                        actionLabel = "Holding key";
+                        actionDetail = text
+                          ? `"${text}"${duration ? ` for ${duration} seconds` : ""}`
+                          : "";
+                        ActionIcon = KeyRound;
+                        break;
                       case "wait":
                         actionLabel = "Waiting";
                         actionDetail = duration ? `${duration} seconds` : "";
@@ -142,10 +304,12 @@ const PurePreviewMessage = ({
                         break;
                       case "scroll":
                         actionLabel = "Scrolling";
-                        actionDetail =
+                        actionDetail = withModifier(
                           scroll_direction && scroll_amount
                             ? `${scroll_direction} by ${scroll_amount}`
-                            : "";
+                            : "",
+                          text,
+                        );
                         ActionIcon = ScrollText;
                         break;
                       default:
@@ -189,13 +353,17 @@ const PurePreviewMessage = ({
                           </div>
                           <div className="w-5 h-5 flex items-center justify-center">
                             {state === "call" ? (
-                              isLatestMessage && status !== "ready" ? (
+                              isAwaitingApproval ? (
+                                <ShieldAlert className="h-4 w-4 text-amber-600" />
+                              ) : isLatestMessage && status !== "ready" ? (
                                 <Loader2 className="animate-spin h-4 w-4 text-zinc-500" />
                               ) : (
                                 <StopCircle className="h-4 w-4 text-red-500" />
                               )
                             ) : state === "result" ? (
-                              part.toolInvocation.result === ABORTED ? (
+                              policyNotice ? (
+                                <XCircle size={14} className="text-red-600" />
+                              ) : isHalted(invocationResult) ? (
                                 <CircleSlash
                                 size={14}
                                 className="text-amber-600"
@@ -211,52 +379,209 @@ const PurePreviewMessage = ({
                         {state === "result" ? (
                           hasImageResult ? (
                             <div className="p-2">
-                              {/* eslint-disable-next-line @next/next/no-img-element */}
-                              <img
+                              <AnnotatedScreenshot
                                 src={`data:image/png;base64,${result.data}`}
                                 alt="Generated Image"
                                 className="w-full aspect-[1024/768] rounded-sm"
+                                markers={markers?.[toolCallId]}
+                                highlightedEventId={highlightedEventId}
                               />
+                              {contextScreenshots?.[toolCallId] && (
+                                <ScreenshotFateLabel
+                                  index={contextScreenshots[toolCallId].index}
+                                  fate={contextScreenshots[toolCallId].fate}
+                                />
+                              )}
                             </div>
                           ) : null
                         ) : action === "screenshot" ? (
                           <div className="w-full aspect-[1024/768] rounded-sm bg-zinc-200 dark:bg-zinc-800 animate-pulse"></div>
                         ) : null}
+                        {policyNotice}
+                        {approvalPanel}
                       </motion.div>
                     );
                   }
                   if (toolName === "bash") {
-                    const { command } = args;
+                    const { command, restart } = args;
+                    const bashResult =
+                      state === "result"
+                        ? parseToolResult(part.toolInvocation.result)
+                        : undefined;
+                    const output =
+                      bashResult?.type === "bash" ? bashResult : undefined;
+                    const failed = output ? output.exitCode !== 0 : false;
 
                     return (
                       <motion.div
                         initial={{ y: 5, opacity: 0 }}
                         animate={{ y: 0, opacity: 1 }}
                         key={`message-${message.id}-part-${i}`}
-                        className="flex items-center gap-2 p-2 mb-3 text-sm bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-200 dark:border-zinc-800"
+                        className="flex flex-col gap-2 p-2 mb-3 text-sm bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-200 dark:border-zinc-800"
                       >
-                        <div className="flex items-center justify-center w-8 h-8 bg-zinc-50 dark:bg-zinc-800 rounded-full">
-                          <ScrollText className="w-4 h-4" />
-                        </div>
-                        <div className="flex-1">
-                          <div className="font-medium flex items-baseline gap-2">
-                            Running command
-                            <span className="text-xs text-zinc-500 dark:text-zinc-400 font-normal">
-                              {command.slice(0, 40)}...
+                        <div className="flex items-center gap-2">
+                          <div className="flex items-center justify-center w-8 h-8 bg-zinc-50 dark:bg-zinc-800 rounded-full">
+                            <ScrollText className="w-4 h-4" />
+                          </div>
+                          <div className="flex-1">
+                            <div className="font-medium flex items-baseline gap-2">
+                              {restart ? "Restarting shell" : "Running command"}
+                              {!restart && command && (
+                                <span className="text-xs text-zinc-500 dark:text-zinc-400 font-normal">
+                                  {command.length > 40
+                                    ? `${command.slice(0, 40)}...`
+                                    : command}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          {output && (
+                            <span
+                              className={cn(
+                                "text-xs font-mono",
+                                failed ? "text-red-600" : "text-zinc-500",
+                              )}
+                            >
+                              {output.timedOut
+                                ? "timed out"
+                                : `exit ${output.exitCode}`}
                             </span>
+                          )}
+                          <div className="w-5 h-5 flex items-center justify-center">
+                            {state === "call" ? (
+                              isAwaitingApproval ? (
+                                <ShieldAlert className="h-4 w-4 text-amber-600" />
+                              ) : isLatestMessage && status !== "ready" ? (
+                                <Loader2 className="animate-spin h-4 w-4 text-zinc-500" />
+                              ) : (
+                                <StopCircle className="h-4 w-4 text-red-500" />
+                              )
+                            ) : state === "result" ? (
+                              policyNotice ? (
+                                <XCircle size={14} className="text-red-600" />
+                              ) : isHalted(bashResult) ? (
+                                <CircleSlash
+                                  size={14}
+                                  className="text-amber-600"
+                                />
+                              ) : failed ? (
+                                <XCircle size={14} className="text-red-600" />
+                              ) : (
+                                <CheckCircle
+                                  size={14}
+                                  className="text-green-600"
+                                />
+                              )
+                            ) : null}
                           </div>
                         </div>
-                        <div className="w-5 h-5 flex items-center justify-center">
-                          {state === "call" ? (
-                            isLatestMessage && status !== "ready" ? (
-                              <Loader2 className="animate-spin h-4 w-4 text-zinc-500" />
-                            ) : (
-                              <StopCircle className="h-4 w-4 text-red-500" />
-                            )
-                          ) : state === "result" ? (
-                            <CheckCircle size={14} className="text-green-600" />
-                          ) : null}
+                        {output && (output.stdout || output.stderr) ? (
+                          <pre className="max-h-48 overflow-auto rounded-sm bg-zinc-950 p-2 text-xs text-zinc-100 whitespace-pre-wrap break-all">
+                            {output.stdout}
+                            {output.stderr && (
+                              <span className="text-red-400">
+                                {output.stdout ? "\n" : ""}
+                                {output.stderr}
+                              </span>
+                            )}
+                          </pre>
+                        ) : null}
+                        {policyNotice}
+                        {approvalPanel}
+                      </motion.div>
+                    );
+                  }
+                  if (toolName === "str_replace_editor") {
+                    const { command, path } = args;
+                    const editorResult =
+                      state === "result"
+                        ? parseToolResult(part.toolInvocation.result)
+                        : undefined;
+                    const output =
+                      editorResult?.type === "editor" ? editorResult : undefined;
+                    const { label, Icon } =
+                      editorCommandLabels[
+                        command as keyof typeof editorCommandLabels
+                      ] ?? { label: command, Icon: FileText };
+
+                    return (
+                      <motion.div
+                        initial={{ y: 5, opacity: 0 }}
+                        animate={{ y: 0, opacity: 1 }}
+                        key={`message-${message.id}-part-${i}`}
+                        className="flex flex-col gap-2 p-2 mb-3 text-sm bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-200 dark:border-zinc-800"
+                      >
+                        <div className="flex items-center gap-2">
+                          <div className="flex items-center justify-center w-8 h-8 bg-zinc-50 dark:bg-zinc-800 rounded-full">
+                            <Icon className="w-4 h-4" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium flex items-baseline gap-2">
+                              {label}
+                              <span className="text-xs text-zinc-500 dark:text-zinc-400 font-normal font-mono truncate">
+                                {path}
+                              </span>
+                            </div>
+                          </div>
+                          <div className="w-5 h-5 flex items-center justify-center">
+                            {state === "call" ? (
+                              isAwaitingApproval ? (
+                                <ShieldAlert className="h-4 w-4 text-amber-600" />
+                              ) : isLatestMessage && status !== "ready" ? (
+                                <Loader2 className="animate-spin h-4 w-4 text-zinc-500" />
+                              ) : (
+                                <StopCircle className="h-4 w-4 text-red-500" />
+                              )
+                            ) : state === "result" ? (
+                              policyNotice ? (
+                                <XCircle size={14} className="text-red-600" />
+                              ) : isHalted(editorResult) ? (
+                                <CircleSlash
+                                  size={14}
+                                  className="text-amber-600"
+                                />
+                              ) : output?.isError ? (
+                                <XCircle size={14} className="text-red-600" />
+                              ) : (
+                                <CheckCircle
+                                  size={14}
+                                  className="text-green-600"
+                                />
+                              )
+                            ) : null}
+                          </div>
                         </div>
+                        {output?.isError ? (
+                          <div className="text-xs text-red-600">
+                            {output.output}
+                          </div>
+                        ) : output?.diff?.length ? (
+                          <pre className="max-h-64 overflow-auto rounded-sm bg-zinc-950 py-2 text-xs text-zinc-100">
+                            {output.diff.map((line, lineIndex) => (
+                              <div
+                                key={lineIndex}
+                                className={cn("px-2 whitespace-pre", {
+                                  "bg-emerald-950 text-emerald-300":
+                                    line.type === "add",
+                                  "bg-red-950 text-red-300":
+                                    line.type === "remove",
+                                })}
+                              >
+                                <span className="inline-block w-10 select-none text-right text-zinc-500">
+                                  {line.line}
+                                </span>{" "}
+                                {line.type === "add"
+                                  ? "+"
+                                  : line.type === "remove"
+                                    ? "-"
+                                    : " "}{" "}
+                                {line.text}
+                              </div>
+                            ))}
+                          </pre>
+                        ) : null}
+                        {policyNotice}
+                        {approvalPanel}
                       </motion.div>
                     );
                   }
@@ -273,6 +598,21 @@ const PurePreviewMessage = ({
                   return null;
               }
             })}
+            {message.role === "assistant" && (
+              <>
+                <StepUsage steps={getStepUsages(message.annotations)} />
+                <ContextUsage
+                  requests={getContextAnnotations(message.annotations)}
+                />
+              </>
+            )}
+            {message.role === "user" && (
+              <BranchControls
+                choices={branchChoices}
+                onEdit={onEdit && (() => setIsEditing(true))}
+                onSwitch={onSwitchBranch}
+              />
+            )}
           </div>
         </div>
       </motion.div>
@@ -280,6 +620,21 @@ const PurePreviewMessage = ({
   );
 };
 
+const showsMarker = (
+  { message, markers }: Parameters<typeof PurePreviewMessage>[0],
+  eventId?: string | null,
+) =>
+  Boolean(eventId) &&
+  Boolean(
+    message.parts?.some(
+      (part) =>
+        part.type === "tool-invocation" &&
+        markers?.[part.toolInvocation.toolCallId]?.some(
+          (marker) => marker.eventId === eventId,
+        ),
+    ),
+  );
+
 export const PreviewMessage = memo(
   PurePreviewMessage,
   (prevProps, nextProps) => {
@@ -288,6 +643,22 @@ export const PreviewMessage = memo(
       return false;
     // if (prevProps.message.content !== nextProps.message.content) return false;
     if (!equal(prevProps.message.parts, nextProps.message.parts)) return false;
+    if (!equal(prevProps.markers, nextProps.markers)) return false;
+    if (!equal(prevProps.contextScreenshots, nextProps.contextScreenshots))
+      return false;
+    if (!equal(prevProps.branchChoices, nextProps.branchChoices)) return false;
+    if (
+      prevProps.onEdit !== nextProps.onEdit ||
+      prevProps.onSwitchBranch !== nextProps.onSwitchBranch
+    )
+      return false;
+    // Hovering an event only re-renders the messages whose markers change.
+    if (
+      prevProps.highlightedEventId !== nextProps.highlightedEventId &&
+      (showsMarker(prevProps, prevProps.highlightedEventId) ||
+        showsMarker(nextProps, nextProps.highlightedEventId))
+    )
+      return false;
 
     return true;
   },
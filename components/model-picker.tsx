@@ -0,0 +1,31 @@
+import { MODELS } from "@/lib/models";
+import { cn } from "@/lib/utils";
+
+export const ModelPicker = ({
+  modelId,
+  onChange,
+  disabled,
+  className,
+}: {
+  modelId: string;
+  onChange: (modelId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}) => (
+  <select
+    aria-label="Model"
+    value={modelId}
+    disabled={disabled}
+    onChange={(event) => onChange(event.target.value)}
+    className={cn(
+      "h-8 rounded-md border border-zinc-200 bg-white px-2 text-xs text-zinc-700 disabled:cursor-not-allowed disabled:opacity-50",
+      className,
+    )}
+  >
+    {MODELS.map((model) => (
+      <option key={model.id} value={model.id}>
+        {model.label}
+      </option>
+    ))}
+  </select>
+);
@@ -1,34 +1,58 @@
-import { ArrowUpRight } from "lucide-react";
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ArrowUpRight, LibraryBig } from "lucide-react";
 import { Button } from "./ui/button";
+import {
+  TemplateEditor,
+  TemplateLibrary,
+  TemplateParametersForm,
+} from "./template-library";
+import {
+  getTemplateParameters,
+  type TaskTemplate,
+  type TemplateInput,
+} from "@/lib/templates/types";
 
+// Shown until the team has saved templates of its own.
 const suggestions = [
   {
     text: "Get the latest Vercel blog post",
     prompt: "Go to vercel.com/blog and get the latest post",
   },
-  // {
-  //   text: "search google for cute dogs",
-  //   prompt: "Launch browser and search Google for labradoodle puppies. Show me images.",
-  // },
   {
     text: "Create a new text file",
     prompt: "Open a text editor and create a new file called notes.txt and write 'we are so back!'",
   },
-  // {
-  //   text: "Check system memory usage",
-  //   prompt: "Run the top command to show system resource usage",
-  // },
   {
     text: "Get the latest rauchg tweet",
     prompt: "Go to twitter.com/rauchg and get the latest tweet",
   },
-  // {
-  //   text: "What do you see",
-  //   prompt:
-  //     "Capture a screenshot of the current screen and tell me what you see",
-  // },
 ];
 
+type Panel =
+  | { type: "fill"; template: TaskTemplate }
+  | { type: "edit"; template?: TaskTemplate }
+  | { type: "library" }
+  | null;
+
+const request = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, init);
+  if (!response.ok) throw new Error(await response.text());
+  return response;
+};
+
+const sendJson = (url: string, method: string, body: unknown) =>
+  request(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+const byName = (a: TaskTemplate, b: TaskTemplate) =>
+  a.name.localeCompare(b.name);
+
 export const PromptSuggestions = ({
   submitPrompt,
   disabled,
@@ -36,24 +60,162 @@ export const PromptSuggestions = ({
   submitPrompt: (prompt: string) => void;
   disabled: boolean;
 }) => {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [panel, setPanel] = useState<Panel>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await request("/api/templates");
+      const body = (await response.json()) as { templates: TaskTemplate[] };
+      setTemplates(body.templates);
+    } catch (error) {
+      console.error("Failed to load templates:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const runTemplate = (template: TaskTemplate) => {
+    if (getTemplateParameters(template.prompt).length > 0) {
+      setPanel({ type: "fill", template });
+    } else {
+      submitPrompt(template.prompt);
+    }
+  };
+
+  const saveTemplate = async (
+    input: TemplateInput,
+    template?: TaskTemplate,
+  ) => {
+    try {
+      const response = template
+        ? await sendJson(`/api/templates/${template.id}`, "PUT", input)
+        : await sendJson("/api/templates", "POST", input);
+      const saved = (await response.json()) as TaskTemplate;
+      setTemplates((prev) =>
+        [...prev.filter(({ id }) => id !== saved.id), saved].sort(byName),
+      );
+      setPanel({ type: "library" });
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      toast.error("Failed to save template");
+    }
+  };
+
+  const deleteTemplate = async (template: TaskTemplate) => {
+    try {
+      await request(`/api/templates/${template.id}`, { method: "DELETE" });
+      setTemplates((prev) => prev.filter(({ id }) => id !== template.id));
+    } catch (error) {
+      console.error("Failed to delete template:", error);
+      toast.error("Failed to delete template");
+    }
+  };
+
+  const importTemplates = async (file: File) => {
+    try {
+      const response = await request("/api/templates/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      const body = (await response.json()) as { templates: TaskTemplate[] };
+      toast.success(`Imported ${body.templates.length} templates`);
+      await loadTemplates();
+    } catch (error) {
+      console.error("Failed to import templates:", error);
+      toast.error("Failed to import templates", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  if (panel?.type === "fill") {
+    return (
+      <div className="px-4">
+        <TemplateParametersForm
+          template={panel.template}
+          disabled={disabled}
+          onSubmit={(prompt) => {
+            setPanel(null);
+            submitPrompt(prompt);
+          }}
+          onCancel={() => setPanel(null)}
+        />
+      </div>
+    );
+  }
+
+  if (panel?.type === "edit") {
+    return (
+      <div className="px-4">
+        <TemplateEditor
+          template={panel.template}
+          onSave={(input) => saveTemplate(input, panel.template)}
+          onCancel={() => setPanel({ type: "library" })}
+        />
+      </div>
+    );
+  }
+
+  if (panel?.type === "library") {
+    return (
+      <div className="px-4">
+        <TemplateLibrary
+          templates={templates}
+          onNew={() => setPanel({ type: "edit" })}
+          onEdit={(template) => setPanel({ type: "edit", template })}
+          onDelete={deleteTemplate}
+          onImport={importTemplates}
+          onClose={() => setPanel(null)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-wrap items-center gap-3 px-4">
-      {suggestions.map((suggestion, index) => (
-        <Button
-          key={index}
-          variant="pill"
-          size="pill"
-          onClick={() => submitPrompt(suggestion.prompt)}
-          disabled={disabled}
-        >
-          <span>
-            <span className="text-black text-sm">
-              {suggestion.text.toLowerCase()}
-            </span>
-          </span>
-          <ArrowUpRight className="ml-1 h-2 w-2 sm:h-3 sm:w-3 text-zinc-500 group-hover:opacity-70" />
-        </Button>
-      ))}
+      {templates.length > 0
+        ? templates.map((template) => (
+            <Button
+              key={template.id}
+              variant="pill"
+              size="pill"
+              title={template.prompt}
+              onClick={() => runTemplate(template)}
+              disabled={disabled}
+            >
+              <span className="text-black text-sm">{template.name}</span>
+              <ArrowUpRight className="ml-1 h-2 w-2 sm:h-3 sm:w-3 text-zinc-500 group-hover:opacity-70" />
+            </Button>
+          ))
+        : suggestions.map((suggestion, index) => (
+            <Button
+              key={index}
+              variant="pill"
+              size="pill"
+              onClick={() => submitPrompt(suggestion.prompt)}
+              disabled={disabled}
+            >
+              <span>
+                <span className="text-black text-sm">
+                  {suggestion.text.toLowerCase()}
+                </span>
+              </span>
+              <ArrowUpRight className="ml-1 h-2 w-2 sm:h-3 sm:w-3 text-zinc-500 group-hover:opacity-70" />
+            </Button>
+          ))}
+      <Button
+        size="sm"
+        variant="ghost"
+        className="text-zinc-500"
+        onClick={() => setPanel({ type: "library" })}
+      >
+        <LibraryBig className="h-4 w-4" />
+        Templates
+      </Button>
     </div>
   );
 };
@@ -0,0 +1,188 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ToolEvent } from "@/lib/agent-events";
+import {
+  findChapterAt,
+  formatOffset,
+  getChapters,
+} from "@/lib/recordings/chapters";
+import { describeStep } from "@/lib/replay";
+import type { SessionRecording } from "@/lib/sessions/types";
+import { cn } from "@/lib/utils";
+
+const videoUrl = (sessionId: string, recordingId: string) =>
+  `/api/sessions/${encodeURIComponent(sessionId)}/recordings/${encodeURIComponent(recordingId)}`;
+
+const formatRecordingTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Plays a run's screen recording with the tool calls as chapter markers.
+export const RecordingPlayer = ({
+  sessionId,
+  recordings,
+  events,
+  onClose,
+  className,
+}: {
+  sessionId: string;
+  recordings: SessionRecording[];
+  events: ToolEvent[];
+  onClose: () => void;
+  className?: string;
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState<number | null>(null);
+
+  // Newest run first, and shown by default.
+  const sorted = useMemo(
+    () => [...recordings].sort((a, b) => b.startedAt - a.startedAt),
+    [recordings],
+  );
+  const recording =
+    sorted.find((candidate) => candidate.id === selectedId) ?? sorted[0];
+  const chapters = useMemo(
+    () => (recording ? getChapters(recording, events) : []),
+    [recording, events],
+  );
+  const current = findChapterAt(chapters, currentTime);
+  // Videos finished with +faststart report their length; the wall clock
+  // span is the fallback.
+  const duration =
+    videoDuration ??
+    (recording ? (recording.endedAt - recording.startedAt) / 1000 : 0);
+
+  const seek = (offset: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = offset;
+    setCurrentTime(offset);
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex h-full flex-col bg-zinc-950 text-zinc-100",
+        className,
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 border-b border-zinc-800 px-4 py-2">
+        <div className="text-sm font-semibold">Recording</div>
+        <div className="flex items-center gap-2">
+          {sorted.length > 1 && (
+            <select
+              aria-label="Recorded run"
+              value={recording?.id}
+              onChange={(event) => {
+                setSelectedId(event.target.value);
+                setCurrentTime(0);
+                setVideoDuration(null);
+              }}
+              className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-xs"
+            >
+              {sorted.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {formatRecordingTime(candidate.startedAt)}
+                </option>
+              ))}
+            </select>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close recording"
+            className="text-zinc-400 hover:bg-white/10 hover:text-white"
+            onClick={onClose}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!recording ? (
+        <div className="flex flex-1 items-center justify-center px-6 text-center text-sm text-zinc-400">
+          No recordings yet. Turn on Record and start a run to capture the
+          desktop.
+        </div>
+      ) : (
+        <>
+          <div className="flex min-h-0 flex-1 items-center justify-center bg-black">
+            <video
+              ref={videoRef}
+              key={recording.id}
+              src={videoUrl(sessionId, recording.id)}
+              controls
+              preload="metadata"
+              className="max-h-full max-w-full"
+              onLoadedMetadata={(event) => {
+                const { duration } = event.currentTarget;
+                setVideoDuration(Number.isFinite(duration) ? duration : null);
+              }}
+              onTimeUpdate={(event) =>
+                setCurrentTime(event.currentTarget.currentTime)
+              }
+            />
+          </div>
+
+          <div className="space-y-2 border-t border-zinc-800 px-4 py-3">
+            <div className="relative h-3 rounded-full bg-zinc-800">
+              <div
+                className="absolute inset-y-0 left-0 rounded-full bg-zinc-600"
+                style={{
+                  width: `${duration ? Math.min(100, (currentTime / duration) * 100) : 0}%`,
+                }}
+              />
+              {chapters.map((chapter) => (
+                <button
+                  key={chapter.event.id}
+                  type="button"
+                  title={`${formatOffset(chapter.offset)} ${describeStep(chapter.event)}`}
+                  aria-label={`Jump to ${describeStep(chapter.event)}`}
+                  onClick={() => seek(chapter.offset)}
+                  className={cn(
+                    "absolute top-1/2 h-3 w-1 -translate-x-1/2 -translate-y-1/2 rounded-sm",
+                    chapter === current ? "bg-white" : "bg-sky-400",
+                  )}
+                  style={{
+                    left: `${duration ? Math.min(100, (chapter.offset / duration) * 100) : 0}%`,
+                  }}
+                />
+              ))}
+            </div>
+            {chapters.length > 0 && (
+              <ol className="max-h-28 space-y-0.5 overflow-y-auto text-xs">
+                {chapters.map((chapter) => (
+                  <li key={chapter.event.id}>
+                    <button
+                      type="button"
+                      onClick={() => seek(chapter.offset)}
+                      className={cn(
+                        "flex w-full gap-3 rounded px-1 text-left hover:bg-white/10",
+                        chapter === current ? "text-white" : "text-zinc-400",
+                      )}
+                    >
+                      <span className="w-10 tabular-nums">
+                        {formatOffset(chapter.offset)}
+                      </span>
+                      <span className="truncate font-mono">
+                        {describeStep(chapter.event)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { Video, VideoOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Whether runs record the desktop to video; see lib/recordings/recorder.ts.
+export const RecordingToggle = ({
+  enabled,
+  onChange,
+  disabled,
+  className,
+}: {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}) => (
+  <button
+    type="button"
+    aria-pressed={enabled}
+    disabled={disabled}
+    onClick={() => onChange(!enabled)}
+    title={
+      enabled ? "Runs record the desktop to video" : "Runs are not recorded"
+    }
+    className={cn(
+      "flex h-8 items-center gap-1 rounded-md border px-2 text-xs disabled:cursor-not-allowed disabled:opacity-50",
+      enabled
+        ? "border-rose-200 bg-rose-50 text-rose-700"
+        : "border-zinc-200 bg-white text-zinc-500",
+      className,
+    )}
+  >
+    {enabled ? (
+      <Video className="h-3.5 w-3.5" />
+    ) : (
+      <VideoOff className="h-3.5 w-3.5" />
+    )}
+    Record
+  </button>
+);
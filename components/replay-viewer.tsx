@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Pause, Play, SkipBack, SkipForward, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ToolEventStatus } from "@/lib/agent-events";
+import { describeStep, type ReplayStep } from "@/lib/replay";
+import { cn } from "@/lib/utils";
+
+const STEP_INTERVAL_MS = 1_200;
+// Desktops run at 1024x768 until the first screenshot reports its size.
+const DEFAULT_SIZE = { width: 1024, height: 768 };
+
+const statusTone: Record<ToolEventStatus, string> = {
+  "awaiting-approval": "text-sky-300",
+  running: "text-amber-300",
+  success: "text-emerald-300",
+  error: "text-rose-300",
+  aborted: "text-zinc-400",
+};
+
+// Marks where a click, drag or move landed, in screenshot pixels.
+const Marker = ({
+  point,
+  size,
+  className,
+}: {
+  point: [number, number];
+  size: { width: number; height: number };
+  className?: string;
+}) => (
+  <span
+    className={cn(
+      "pointer-events-none absolute h-5 w-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2",
+      className,
+    )}
+    style={{
+      left: `${(point[0] / size.width) * 100}%`,
+      top: `${(point[1] / size.height) * 100}%`,
+    }}
+  />
+);
+
+export const ReplayViewer = ({
+  steps,
+  onClose,
+  className,
+}: {
+  steps: ReplayStep[];
+  // Omitted when there is no live view to go back to.
+  onClose?: () => void;
+  className?: string;
+}) => {
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [imageSize, setImageSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+
+  const lastIndex = steps.length - 1;
+  const current = Math.min(index, Math.max(lastIndex, 0));
+  const step = steps[current];
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (current >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setIndex(current + 1), STEP_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, current, lastIndex]);
+
+  const seek = (next: number) => {
+    setIsPlaying(false);
+    setIndex(Math.min(Math.max(next, 0), lastIndex));
+  };
+
+  const togglePlay = () => {
+    // Playing from the last step starts over.
+    if (!isPlaying && current >= lastIndex) setIndex(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const payload = step?.event.payload;
+  const computer = payload?.toolName === "computer" ? payload : undefined;
+  const size = imageSize ?? DEFAULT_SIZE;
+
+  return (
+    <div
+      className={cn(
+        "flex h-full flex-col bg-zinc-950 text-zinc-100",
+        className,
+      )}
+    >
+      <div className="flex items-center justify-between border-b border-zinc-800 px-4 py-2">
+        <div className="text-sm font-semibold">Replay</div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close replay"
+            className="text-zinc-400 hover:bg-white/10 hover:text-white"
+            onClick={onClose}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {!step ? (
+        <div className="flex flex-1 items-center justify-center text-sm text-zinc-400">
+          Nothing to replay yet.
+        </div>
+      ) : (
+        <>
+          <div
+            className="relative flex min-h-0 flex-1 items-center justify-center p-4"
+            style={{ containerType: "size" }}
+          >
+            {step.screenshot ? (
+              // Sized to fit the panel at the screenshot's aspect ratio, so the
+              // markers line up with what they point at.
+              <div
+                className="relative"
+                style={{
+                  aspectRatio: `${size.width} / ${size.height}`,
+                  width: `min(100cqw, 100cqh * ${size.width / size.height})`,
+                }}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={`data:image/png;base64,${step.screenshot}`}
+                  alt={`Screenshot for step ${current + 1}`}
+                  className="h-full w-full rounded-sm"
+                  onLoad={(event) =>
+                    setImageSize({
+                      width: event.currentTarget.naturalWidth,
+                      height: event.currentTarget.naturalHeight,
+                    })
+                  }
+                />
+                {computer?.start_coordinate && (
+                  <Marker
+                    point={computer.start_coordinate}
+                    size={size}
+                    className="border-sky-400"
+                  />
+                )}
+                {computer?.coordinate && (
+                  <Marker
+                    point={computer.coordinate}
+                    size={size}
+                    className="border-rose-500 bg-rose-500/30"
+                  />
+                )}
+              </div>
+            ) : (
+              <div className="text-sm text-zinc-400">
+                No screenshot was taken during this run.
+              </div>
+            )}
+            <div className="absolute bottom-6 left-1/2 max-w-[90%] -translate-x-1/2 truncate rounded-md bg-black/75 px-3 py-1.5 font-mono text-xs">
+              <span className={statusTone[step.event.status]}>●</span>{" "}
+              {describeStep(step.event)}
+            </div>
+          </div>
+
+          {step.text && (
+            <div className="max-h-24 overflow-y-auto border-t border-zinc-800 px-4 py-2 text-sm text-zinc-300">
+              {step.text}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 border-t border-zinc-800 px-4 py-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Previous step"
+              className="text-zinc-300 hover:bg-white/10 hover:text-white"
+              disabled={current === 0}
+              onClick={() => seek(current - 1)}
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={isPlaying ? "Pause" : "Play"}
+              className="text-zinc-300 hover:bg-white/10 hover:text-white"
+              onClick={togglePlay}
+            >
+              {isPlaying ? (
+                <Pause className="h-4 w-4" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Next step"
+              className="text-zinc-300 hover:bg-white/10 hover:text-white"
+              disabled={current >= lastIndex}
+              onClick={() => seek(current + 1)}
+            >
+              <SkipForward className="h-4 w-4" />
+            </Button>
+            <input
+              type="range"
+              aria-label="Replay position"
+              min={0}
+              max={lastIndex}
+              value={current}
+              onChange={(event) => seek(Number(event.target.value))}
+              className="flex-1 accent-zinc-100"
+            />
+            <div className="w-16 text-right text-xs tabular-nums text-zinc-400">
+              {current + 1} / {steps.length}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { Download, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { SessionSummary } from "@/lib/sessions/types";
+import type { DesktopStatus } from "@/lib/use-desktop";
+import { sessionUrl } from "@/lib/use-session-persistence";
+import { formatUsd } from "@/lib/usage";
+import { cn, formatTimestamp } from "@/lib/utils";
+
+const DesktopBadge = ({
+  session,
+  desktopStatus,
+}: {
+  session: SessionSummary;
+  desktopStatus: Record<string, DesktopStatus>;
+}) => {
+  if (session.readOnly) {
+    return (
+      <span className="rounded-full bg-sky-100 px-1.5 py-0.5 text-[10px] font-medium uppercase text-sky-700">
+        imported
+      </span>
+    );
+  }
+  const status = session.sandboxId
+    ? desktopStatus[session.sandboxId]
+    : undefined;
+  if (!status) return null;
+  return (
+    <span
+      className={cn(
+        "rounded-full px-1.5 py-0.5 text-[10px] font-medium uppercase",
+        status === "live"
+          ? "bg-emerald-100 text-emerald-700"
+          : "bg-zinc-200 text-zinc-600",
+      )}
+    >
+      {status}
+    </span>
+  );
+};
+
+// Every session with its desktop's status, spend, trace export and delete.
+export const SessionList = ({
+  sessions,
+  activeSessionId,
+  desktopStatus,
+  onSelect,
+  onDelete,
+  className,
+}: {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  desktopStatus: Record<string, DesktopStatus>;
+  onSelect: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+  className?: string;
+}) => (
+  <div className={cn("flex flex-col gap-2 overflow-y-auto", className)}>
+    {sessions.map((session) => {
+      const isActive = session.id === activeSessionId;
+      return (
+        <div
+          key={session.id}
+          className={cn(
+            "flex items-center justify-between rounded-md border px-3 py-2 text-sm transition",
+            isActive
+              ? "border-zinc-900 bg-zinc-900 text-white"
+              : "border-zinc-200 bg-white hover:border-zinc-400",
+          )}
+        >
+          <button
+            type="button"
+            className="flex-1 text-left"
+            onClick={() => onSelect(session.id)}
+          >
+            <div className="flex items-center gap-2">
+              <div className="font-medium line-clamp-1">{session.title}</div>
+              <DesktopBadge session={session} desktopStatus={desktopStatus} />
+            </div>
+            <div
+              className={cn(
+                "text-xs",
+                isActive ? "text-zinc-200" : "text-zinc-500",
+              )}
+            >
+              Updated {formatTimestamp(session.updatedAt)}
+              {session.costUsd > 0 && ` · ${formatUsd(session.costUsd)}`}
+            </div>
+          </button>
+          <Button
+            asChild
+            variant="ghost"
+            size="icon"
+            className={cn(
+              "ml-2",
+              isActive ? "text-white hover:bg-white/10" : "text-zinc-500",
+            )}
+          >
+            <a
+              href={`${sessionUrl(session.id)}/trace`}
+              download
+              title="Export trace bundle"
+            >
+              <Download className="h-4 w-4" />
+            </a>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn(
+              isActive ? "text-white hover:bg-white/10" : "text-zinc-500",
+            )}
+            onClick={() => onDelete(session.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+    })}
+  </div>
+);
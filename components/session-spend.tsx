@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Wallet } from "lucide-react";
+import { formatUsd, isOverBudget } from "@/lib/usage";
+import { cn } from "@/lib/utils";
+
+// Session spend so far, plus an editable budget; clearing the field removes
+// the limit.
+export const SessionSpend = ({
+  costUsd,
+  budgetUsd,
+  onBudgetChange,
+  disabled,
+  className,
+}: {
+  costUsd: number;
+  budgetUsd: number | null;
+  onBudgetChange: (budgetUsd: number | null) => void;
+  disabled?: boolean;
+  className?: string;
+}) => {
+  const [draft, setDraft] = useState(budgetUsd?.toString() ?? "");
+
+  useEffect(() => {
+    setDraft(budgetUsd?.toString() ?? "");
+  }, [budgetUsd]);
+
+  const commit = () => {
+    const value = draft.trim() === "" ? null : Number(draft);
+    if (value === null || (Number.isFinite(value) && value > 0)) {
+      if (value !== budgetUsd) onBudgetChange(value);
+    } else {
+      setDraft(budgetUsd?.toString() ?? "");
+    }
+  };
+
+  return (
+    <label
+      title="Estimated spend for this session and its budget in USD"
+      className={cn(
+        "flex h-8 items-center gap-1 rounded-md border px-2 text-xs",
+        isOverBudget(costUsd, budgetUsd)
+          ? "border-rose-200 bg-rose-50 text-rose-700"
+          : "border-zinc-200 bg-white text-zinc-600",
+        className,
+      )}
+    >
+      <Wallet className="h-3.5 w-3.5" />
+      <span className="tabular-nums">{formatUsd(costUsd)}</span>
+      <span className="text-zinc-400">/</span>
+      <input
+        aria-label="Session budget in USD"
+        type="number"
+        min="0"
+        step="0.5"
+        inputMode="decimal"
+        placeholder="no limit"
+        value={draft}
+        disabled={disabled}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") event.currentTarget.blur();
+        }}
+        className="w-14 bg-transparent tabular-nums outline-none placeholder:text-zinc-400 disabled:cursor-not-allowed"
+      />
+    </label>
+  );
+};
@@ -0,0 +1,33 @@
+import { formatTokens, formatUsd, type UsageAnnotation } from "@/lib/usage";
+
+// Token counts and estimated cost of each model step behind a message.
+export const StepUsage = ({ steps }: { steps: UsageAnnotation[] }) => {
+  if (steps.length === 0) return null;
+  const total = steps.reduce((sum, step) => sum + step.costUsd, 0);
+
+  return (
+    <details className="text-xs text-zinc-500">
+      <summary className="cursor-pointer select-none">
+        {`${steps.length} ${steps.length === 1 ? "step" : "steps"} · ${formatUsd(total)}`}
+      </summary>
+      <ol className="mt-1 space-y-0.5 tabular-nums">
+        {steps.map((step, index) => (
+          <li key={index} className="flex flex-wrap gap-x-2">
+            <span className="text-zinc-400">#{index + 1}</span>
+            <span>{formatTokens(step.inputTokens)} in</span>
+            <span>{formatTokens(step.outputTokens)} out</span>
+            {step.cacheReadTokens > 0 && (
+              <span>{formatTokens(step.cacheReadTokens)} cache read</span>
+            )}
+            {step.cacheWriteTokens > 0 && (
+              <span>{formatTokens(step.cacheWriteTokens)} cache write</span>
+            )}
+            <span className="ml-auto text-zinc-700">
+              {formatUsd(step.costUsd)}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
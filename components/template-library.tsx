@@ -0,0 +1,222 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Download, FileUp, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  fillTemplate,
+  getTemplateParameters,
+  type TaskTemplate,
+  type TemplateInput,
+} from "@/lib/templates/types";
+
+const fieldClass =
+  "w-full rounded-md border border-zinc-300 bg-white px-2 py-1.5 text-sm";
+
+// Asks for each `{placeholder}` before the filled-in prompt is sent.
+export const TemplateParametersForm = ({
+  template,
+  onSubmit,
+  onCancel,
+  disabled,
+}: {
+  template: TaskTemplate;
+  onSubmit: (prompt: string) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}) => {
+  const parameters = getTemplateParameters(template.prompt);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const isComplete = parameters.every((name) => values[name]?.trim());
+
+  return (
+    <form
+      className="flex flex-col gap-2 rounded-lg border border-zinc-200 bg-white p-3 text-sm"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (isComplete) onSubmit(fillTemplate(template.prompt, values));
+      }}
+    >
+      <div className="font-medium">{template.name}</div>
+      {parameters.map((name, index) => (
+        <label key={name} className="flex flex-col gap-1 text-xs text-zinc-600">
+          {name}
+          <input
+            autoFocus={index === 0}
+            value={values[name] ?? ""}
+            onChange={(event) =>
+              setValues((prev) => ({ ...prev, [name]: event.target.value }))
+            }
+            className={fieldClass}
+          />
+        </label>
+      ))}
+      <p className="whitespace-pre-wrap text-xs text-zinc-500">
+        {fillTemplate(template.prompt, values)}
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={disabled || !isComplete}>
+          Run
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// Creates a template, or edits the one passed in.
+export const TemplateEditor = ({
+  template,
+  onSave,
+  onCancel,
+}: {
+  template?: TaskTemplate;
+  onSave: (input: TemplateInput) => void;
+  onCancel: () => void;
+}) => {
+  const [name, setName] = useState(template?.name ?? "");
+  const [prompt, setPrompt] = useState(template?.prompt ?? "");
+  const parameters = getTemplateParameters(prompt);
+
+  return (
+    <form
+      className="flex flex-col gap-2 rounded-lg border border-zinc-200 bg-white p-3 text-sm"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (name.trim() && prompt.trim()) onSave({ name: name.trim(), prompt });
+      }}
+    >
+      <input
+        aria-label="Template name"
+        placeholder="Name"
+        autoFocus
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        className={fieldClass}
+      />
+      <textarea
+        aria-label="Template prompt"
+        placeholder="Log into staging and export the report for {date}"
+        rows={4}
+        value={prompt}
+        onChange={(event) => setPrompt(event.target.value)}
+        className={fieldClass}
+      />
+      <p className="text-xs text-zinc-500">
+        {parameters.length > 0
+          ? `Asks for: ${parameters.join(", ")}`
+          : "Use {name} for values to fill in before each run."}
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!name.trim() || !prompt.trim()}
+        >
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// The whole library, with import and export.
+export const TemplateLibrary = ({
+  templates,
+  onNew,
+  onEdit,
+  onDelete,
+  onImport,
+  onClose,
+}: {
+  templates: TaskTemplate[];
+  onNew: () => void;
+  onEdit: (template: TaskTemplate) => void;
+  onDelete: (template: TaskTemplate) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-zinc-200 bg-white p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">Task templates</span>
+        <div className="flex gap-1">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) onImport(file);
+            }}
+          />
+          <Button size="sm" variant="secondary" onClick={onNew}>
+            <Plus className="h-4 w-4" />
+            New
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            title="Import templates from an export"
+            onClick={() => inputRef.current?.click()}
+          >
+            <FileUp className="h-4 w-4" />
+            Import
+          </Button>
+          <Button size="sm" variant="secondary" asChild>
+            <a href="/api/templates/export" download>
+              <Download className="h-4 w-4" />
+              Export
+            </a>
+          </Button>
+        </div>
+      </div>
+      {templates.length === 0 ? (
+        <p className="text-xs text-zinc-500">No templates yet.</p>
+      ) : (
+        <ul className="divide-y divide-zinc-100">
+          {templates.map((template) => (
+            <li key={template.id} className="flex items-center gap-2 py-1.5">
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{template.name}</div>
+                <div className="truncate text-xs text-zinc-500">
+                  {template.prompt}
+                </div>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                aria-label={`Edit ${template.name}`}
+                onClick={() => onEdit(template)}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                aria-label={`Delete ${template.name}`}
+                onClick={() => onDelete(template)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end">
+        <Button size="sm" variant="secondary" onClick={onClose}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+};
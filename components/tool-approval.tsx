@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { APPROVAL_EDIT_FIELDS } from "@/lib/approvals/policy";
+import type { ApprovalDecision, ApprovalState } from "@/lib/approvals/types";
+
+const sendDecision = async (toolCallId: string, decision: ApprovalDecision) => {
+  const response = await fetch("/api/approvals", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ toolCallId, ...decision }),
+  });
+  if (!response.ok) throw new Error(await response.text());
+};
+
+// Approve / Edit / Reject controls for a held call, or how it was decided.
+export const ToolApproval = ({
+  toolCallId,
+  toolName,
+  args,
+  approval,
+  isPending,
+}: {
+  toolCallId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  approval: ApprovalState;
+  // False once the request holding the call has ended without a decision.
+  isPending: boolean;
+}) => {
+  const field = APPROVAL_EDIT_FIELDS[toolName];
+  const original = field && typeof args[field] === "string" ? args[field] : "";
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  if (approval.result) {
+    const edited = field ? approval.result.args?.[field] : undefined;
+    return approval.result.approved ? (
+      <div className="flex items-center gap-1.5 text-xs text-emerald-700">
+        <ShieldCheck className="h-3.5 w-3.5" />
+        {typeof edited === "string" ? (
+          <span>
+            Approved with edits:{" "}
+            <span className="font-mono break-all">{edited}</span>
+          </span>
+        ) : (
+          "Approved"
+        )}
+      </div>
+    ) : (
+      <div className="flex items-center gap-1.5 text-xs text-red-600">
+        <ShieldX className="h-3.5 w-3.5" />
+        Rejected
+      </div>
+    );
+  }
+
+  if (!isPending) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-zinc-500">
+        <ShieldAlert className="h-3.5 w-3.5" />
+        Needed approval ({approval.request.reason.toLowerCase()})
+      </div>
+    );
+  }
+
+  const decide = async (decision: ApprovalDecision) => {
+    try {
+      setIsSending(true);
+      await sendDecision(toolCallId, decision);
+    } catch (error) {
+      console.error("Failed to send approval decision:", error);
+      toast.error("Failed to send approval decision");
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border border-amber-300 bg-amber-50 p-2 text-xs dark:border-amber-800 dark:bg-amber-950">
+      <div className="flex items-center gap-1.5 font-medium text-amber-800 dark:text-amber-300">
+        <ShieldAlert className="h-3.5 w-3.5" />
+        Awaiting approval: {approval.request.reason}
+      </div>
+      {draft !== null && (
+        <textarea
+          aria-label={`Edit ${field}`}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          rows={Math.min(6, draft.split("\n").length)}
+          className="w-full rounded-sm border border-zinc-300 bg-white p-1.5 font-mono text-xs dark:border-zinc-700 dark:bg-zinc-900"
+        />
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          disabled={isSending}
+          onClick={() =>
+            decide(
+              draft !== null && draft !== original
+                ? { approved: true, edit: draft }
+                : { approved: true },
+            )
+          }
+        >
+          Approve
+        </Button>
+        {field && draft === null && (
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={isSending}
+            onClick={() => setDraft(original)}
+          >
+            Edit
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="destructive"
+          disabled={isSending}
+          onClick={() => decide({ approved: false })}
+        >
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import { useRef } from "react";
+import { FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Picks a trace bundle exported from a session; see lib/trace/bundle.ts.
+export const TraceImportButton = ({
+  onImport,
+  disabled,
+}: {
+  onImport: (file: File) => void;
+  disabled?: boolean;
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) onImport(file);
+        }}
+      />
+      <Button
+        size="sm"
+        variant="secondary"
+        title="Import a trace bundle as a read-only session"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+      >
+        <FileUp className="h-4 w-4" />
+        Import
+      </Button>
+    </>
+  );
+};
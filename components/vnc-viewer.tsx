@@ -6,12 +6,14 @@ import { Button } from "@/components/ui/button";
 type VncViewerProps = {
   streamUrl: string | null;
   isInitializing: boolean;
+  isExpired: boolean;
   onRefresh: () => void;
 };
 
 const VncViewerComponent = ({
   streamUrl,
   isInitializing,
+  isExpired,
   onRefresh,
 }: VncViewerProps) => {
   return (
@@ -36,6 +38,13 @@ const VncViewerComponent = ({
             {isInitializing ? "Creating desktop..." : "New desktop"}
           </Button>
         </>
+      ) : isExpired && !isInitializing ? (
+        <div className="flex flex-col items-center justify-center gap-3 h-full text-white">
+          <div>This session&apos;s desktop has expired.</div>
+          <Button variant="secondary" onClick={onRefresh}>
+            Start new desktop
+          </Button>
+        </div>
       ) : (
         <div className="flex items-center justify-center h-full text-white">
           {isInitializing ? "Initializing desktop..." : "Loading stream..."}
@@ -50,5 +59,6 @@ export const VncViewer = memo(
   (prev, next) =>
     prev.streamUrl === next.streamUrl &&
     prev.isInitializing === next.isInitializing &&
+    prev.isExpired === next.isExpired &&
     prev.onRefresh === next.onRefresh,
 );
@@ -0,0 +1,9 @@
+#!/bin/sh
+set -e
+
+Xvfb "$DISPLAY" -screen 0 "$RESOLUTION" -nolisten tcp &
+sleep 1
+startxfce4 >/dev/null 2>&1 &
+x11vnc -display "$DISPLAY" -forever -shared -nopw -quiet -rfbport 5900 &
+
+exec websockify --web /usr/share/novnc 6080 localhost:5900
@@ -0,0 +1,7 @@
+// Next.js calls this once per server; the tracing SDK only runs on Node.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { registerTracing } = await import("./lib/telemetry/register");
+    registerTracing();
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { getScreenshotMarkers, toActionMarker } from "./action-markers";
+import {
+  parseToolPayload,
+  type ToolEvent,
+  type ToolEventStatus,
+} from "./agent-events";
+
+const event = (
+  id: string,
+  args: Record<string, unknown>,
+  status: ToolEventStatus = "success",
+): ToolEvent => ({
+  id,
+  toolName: "computer",
+  timestamp: 0,
+  status,
+  payload: parseToolPayload("computer", args),
+  result:
+    args.action === "screenshot" ? { type: "image", data: id } : undefined,
+});
+
+describe("toActionMarker", () => {
+  it("marks clicks, drags and scrolls", () => {
+    expect(
+      toActionMarker(
+        event("c", { action: "double_click", coordinate: [1, 2] }),
+      ),
+    ).toEqual({ eventId: "c", kind: "click", point: [1, 2] });
+    expect(
+      toActionMarker(
+        event("d", {
+          action: "left_click_drag",
+          start_coordinate: [1, 2],
+          coordinate: [3, 4],
+        }),
+      ),
+    ).toEqual({ eventId: "d", kind: "drag", from: [1, 2], point: [3, 4] });
+    expect(
+      toActionMarker(
+        event("s", {
+          action: "scroll",
+          coordinate: [5, 6],
+          scroll_direction: "up",
+        }),
+      ),
+    ).toEqual({ eventId: "s", kind: "scroll", point: [5, 6], direction: "up" });
+  });
+
+  it("drags from the cursor when the action has no start", () => {
+    const drag = event("d", { action: "left_click_drag", coordinate: [3, 4] });
+
+    expect(toActionMarker(drag, [1, 2])).toEqual({
+      eventId: "d",
+      kind: "drag",
+      from: [1, 2],
+      point: [3, 4],
+    });
+    expect(toActionMarker(drag)).toBeNull();
+  });
+
+  it("skips actions without a point on screen", () => {
+    expect(toActionMarker(event("k", { action: "key", text: "a" }))).toBeNull();
+    expect(toActionMarker(event("c", { action: "left_click" }))).toBeNull();
+  });
+});
+
+describe("getScreenshotMarkers", () => {
+  it("draws actions on the next successful screenshot", () => {
+    const markers = getScreenshotMarkers([
+      event("shot1", { action: "screenshot" }),
+      event("c1", { action: "left_click", coordinate: [1, 1] }),
+      event("c2", { action: "left_click", coordinate: [2, 2] }, "error"),
+      event("c3", { action: "right_click", coordinate: [3, 3] }),
+      event("shot2", { action: "screenshot" }),
+      event("c4", { action: "left_click", coordinate: [4, 4] }),
+    ]);
+
+    expect(Object.keys(markers)).toEqual(["shot2"]);
+    expect(markers.shot2.map((marker) => marker.eventId)).toEqual(["c1", "c3"]);
+  });
+
+  it("starts cursor drags where the last action left the cursor", () => {
+    const markers = getScreenshotMarkers([
+      event("m1", { action: "mouse_move", coordinate: [5, 5] }),
+      event("shot1", { action: "screenshot" }),
+      event("d1", { action: "left_click_drag", coordinate: [9, 9] }),
+      event("d2", { action: "left_click_drag", coordinate: [7, 7] }),
+      event("shot2", { action: "screenshot" }),
+    ]);
+
+    expect(markers.shot2).toEqual([
+      { eventId: "d1", kind: "drag", from: [5, 5], point: [9, 9] },
+      { eventId: "d2", kind: "drag", from: [9, 9], point: [7, 7] },
+    ]);
+  });
+
+  it("leaves out cursor drags when the cursor is unknown", () => {
+    expect(
+      getScreenshotMarkers([
+        event("d1", { action: "left_click_drag", coordinate: [9, 9] }),
+        event("shot1", { action: "screenshot" }),
+      ]),
+    ).toEqual({});
+  });
+});
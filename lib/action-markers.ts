@@ -0,0 +1,80 @@
+import type { ComputerAction, ToolEvent } from "@/lib/agent-events";
+
+// Where an action landed on the screen, in screenshot pixels.
+export type ActionMarker =
+  | { eventId: string; kind: "click"; point: [number, number] }
+  | {
+      eventId: string;
+      kind: "drag";
+      from: [number, number];
+      point: [number, number];
+    }
+  | {
+      eventId: string;
+      kind: "scroll";
+      point: [number, number];
+      direction: "up" | "down" | "left" | "right";
+    };
+
+const CLICK_ACTIONS = new Set<ComputerAction>([
+  "left_click",
+  "right_click",
+  "middle_click",
+  "double_click",
+  "triple_click",
+]);
+
+// The 20241022 tool's drag sends no start_coordinate and starts wherever the
+// cursor was, so `cursor` is the last point an earlier action moved it to.
+// Without one the drag isn't drawn.
+export const toActionMarker = (
+  event: ToolEvent,
+  cursor: [number, number] | null = null,
+): ActionMarker | null => {
+  const { payload } = event;
+  if (payload.toolName !== "computer" || !payload.coordinate) return null;
+  const point = payload.coordinate;
+
+  if (CLICK_ACTIONS.has(payload.action)) {
+    return { eventId: event.id, kind: "click", point };
+  }
+  if (payload.action === "left_click_drag") {
+    const from = payload.start_coordinate ?? cursor;
+    return from ? { eventId: event.id, kind: "drag", from, point } : null;
+  }
+  if (payload.action === "scroll" && payload.scroll_direction) {
+    return {
+      eventId: event.id,
+      kind: "scroll",
+      point,
+      direction: payload.scroll_direction,
+    };
+  }
+  return null;
+};
+
+// Actions are drawn on the first screenshot taken after them, keyed by that
+// screenshot's event id. Actions no screenshot has caught up with yet are left
+// out.
+export const getScreenshotMarkers = (events: ToolEvent[]) => {
+  const markers: Record<string, ActionMarker[]> = {};
+  let pending: ActionMarker[] = [];
+  // Every computer action with a coordinate leaves the cursor there.
+  let cursor: [number, number] | null = null;
+
+  events.forEach((event) => {
+    if (event.result?.type === "image") {
+      if (pending.length > 0) markers[event.id] = pending;
+      pending = [];
+      return;
+    }
+    if (event.status !== "success") return;
+    const marker = toActionMarker(event, cursor);
+    if (marker) pending.push(marker);
+    if (event.payload.toolName === "computer" && event.payload.coordinate) {
+      cursor = event.payload.coordinate;
+    }
+  });
+
+  return markers;
+};
@@ -0,0 +1,447 @@
+import { describe, expect, it } from "vitest";
+import {
+  deriveStatusFromResult,
+  eventReducer,
+  initialEventState,
+  parseToolPayload,
+  parseToolResult,
+  type EventState,
+  type ToolEvent,
+} from "./agent-events";
+import { ABORTED } from "./utils";
+
+const callEvent = (
+  id: string,
+  overrides: Partial<ToolEvent> = {},
+): ToolEvent => ({
+  id,
+  toolName: "computer",
+  timestamp: 1_000,
+  status: "running",
+  payload: { toolName: "computer", action: "screenshot" },
+  ...overrides,
+});
+
+const registerCall = (state: EventState, event: ToolEvent) =>
+  eventReducer(state, { type: "register-call", event });
+
+describe("eventReducer", () => {
+  it("registers calls in order", () => {
+    const state = registerCall(
+      registerCall(initialEventState, callEvent("a")),
+      callEvent("b"),
+    );
+    expect(state.order).toEqual(["a", "b"]);
+    expect(state.byId.a.status).toBe("running");
+  });
+
+  it("ignores duplicate call registration", () => {
+    const first = registerCall(initialEventState, callEvent("a"));
+    const second = registerCall(
+      first,
+      callEvent("a", { timestamp: 2_000, status: "success" }),
+    );
+    expect(second).toBe(first);
+    expect(second.order).toEqual(["a"]);
+    expect(second.byId.a.timestamp).toBe(1_000);
+  });
+
+  it("completes a registered call with its result", () => {
+    const state = eventReducer(
+      registerCall(initialEventState, callEvent("a")),
+      {
+        type: "register-result",
+        id: "a",
+        status: "success",
+        durationMs: 250,
+        result: { type: "text", text: "done" },
+      },
+    );
+    expect(state.byId.a).toMatchObject({
+      status: "success",
+      durationMs: 250,
+      result: { type: "text", text: "done" },
+      payload: { toolName: "computer", action: "screenshot" },
+    });
+  });
+
+  it("keeps the previous result when a result arrives without one", () => {
+    const withResult = eventReducer(
+      registerCall(initialEventState, callEvent("a")),
+      {
+        type: "register-result",
+        id: "a",
+        status: "success",
+        durationMs: 10,
+        result: { type: "text", text: "first" },
+      },
+    );
+    const state = eventReducer(withResult, {
+      type: "register-result",
+      id: "a",
+      status: "error",
+      durationMs: 20,
+    });
+    expect(state.byId.a.result).toEqual({ type: "text", text: "first" });
+    expect(state.byId.a.status).toBe("error");
+  });
+
+  it("creates a placeholder event for a result that arrives before its call", () => {
+    const state = eventReducer(initialEventState, {
+      type: "register-result",
+      id: "late",
+      status: "success",
+      durationMs: 5,
+      result: { type: "text", text: "ok" },
+    });
+    expect(state.order).toEqual(["late"]);
+    expect(state.byId.late).toMatchObject({
+      toolName: "unknown",
+      status: "success",
+      payload: { toolName: "unknown", raw: {} },
+    });
+
+    // The late call does not overwrite the already completed event.
+    const afterCall = registerCall(state, callEvent("late"));
+    expect(afterCall).toBe(state);
+  });
+
+  it("records why the policy blocked a call", () => {
+    const state = eventReducer(
+      registerCall(initialEventState, callEvent("a")),
+      {
+        type: "register-result",
+        id: "a",
+        status: "error",
+        durationMs: 1,
+        result: {
+          type: "policy-violation",
+          rule: "rate-limited",
+          reason: "Too many calls",
+        },
+      },
+    );
+    expect(state.byId.a).toMatchObject({
+      status: "error",
+      policyReason: "Too many calls",
+    });
+  });
+
+  it("prefers the server's timings over the client's", () => {
+    const timed = eventReducer(
+      registerCall(initialEventState, callEvent("a", { timestamp: 5_000 })),
+      { type: "register-timing", id: "a", startedAt: 4_200, durationMs: 80 },
+    );
+    const state = eventReducer(timed, {
+      type: "register-result",
+      id: "a",
+      status: "success",
+      durationMs: 900,
+      result: { type: "text", text: "done" },
+    });
+    expect(state.byId.a).toMatchObject({
+      timestamp: 4_200,
+      durationMs: 80,
+      status: "success",
+      serverTimed: true,
+    });
+  });
+
+  it("marks calls the server reports as thrown as failed", () => {
+    const state = eventReducer(
+      registerCall(initialEventState, callEvent("a")),
+      {
+        type: "register-timing",
+        id: "a",
+        startedAt: 1_000,
+        durationMs: 3,
+        error: "Duration required for wait action",
+      },
+    );
+    expect(state.byId.a).toMatchObject({
+      status: "error",
+      error: "Duration required for wait action",
+    });
+  });
+
+  it("records aborted results", () => {
+    const state = eventReducer(
+      registerCall(initialEventState, callEvent("a")),
+      {
+        type: "register-result",
+        id: "a",
+        status: "aborted",
+        durationMs: 0,
+        result: { type: "aborted", text: ABORTED },
+      },
+    );
+    expect(state.byId.a.status).toBe("aborted");
+  });
+
+  it("moves held calls between approval and running", () => {
+    const held = registerCall(
+      initialEventState,
+      callEvent("a", { status: "awaiting-approval" }),
+    );
+    const running = eventReducer(held, {
+      type: "set-status",
+      id: "a",
+      status: "running",
+    });
+    expect(running.byId.a.status).toBe("running");
+    expect(
+      eventReducer(running, { type: "set-status", id: "a", status: "running" }),
+    ).toBe(running);
+    expect(
+      eventReducer(running, {
+        type: "set-status",
+        id: "missing",
+        status: "running",
+      }),
+    ).toBe(running);
+  });
+
+  it("hydrates stored events and resets", () => {
+    const events = [callEvent("a"), callEvent("b", { status: "success" })];
+    const hydrated = eventReducer(initialEventState, {
+      type: "hydrate",
+      events,
+    });
+    expect(hydrated.order).toEqual(["a", "b"]);
+    expect(hydrated.byId.b.status).toBe("success");
+    expect(eventReducer(hydrated, { type: "reset" })).toEqual(
+      initialEventState,
+    );
+  });
+});
+
+describe("parseToolPayload", () => {
+  it("parses computer actions", () => {
+    expect(
+      parseToolPayload("computer", {
+        action: "left_click_drag",
+        start_coordinate: [1, 2],
+        coordinate: [3, 4],
+      }),
+    ).toMatchObject({
+      toolName: "computer",
+      action: "left_click_drag",
+      start_coordinate: [1, 2],
+      coordinate: [3, 4],
+    });
+  });
+
+  it("drops malformed computer fields", () => {
+    expect(
+      parseToolPayload("computer", {
+        action: "teleport",
+        coordinate: [1, "2"],
+        start_coordinate: [1, 2, 3],
+        text: 42,
+        duration: Number.NaN,
+        scroll_amount: "3",
+        scroll_direction: "sideways",
+      }),
+    ).toEqual({
+      toolName: "computer",
+      action: "unknown",
+      coordinate: undefined,
+      start_coordinate: undefined,
+      text: undefined,
+      duration: undefined,
+      scroll_amount: undefined,
+      scroll_direction: undefined,
+    });
+  });
+
+  it("tolerates args that are not objects", () => {
+    expect(parseToolPayload("computer", null)).toMatchObject({
+      toolName: "computer",
+      action: "unknown",
+    });
+    expect(parseToolPayload("bash", "ls")).toEqual({
+      toolName: "bash",
+      command: "",
+      restart: undefined,
+    });
+    expect(parseToolPayload("str_replace_editor", [])).toMatchObject({
+      toolName: "str_replace_editor",
+      command: "unknown",
+      path: "",
+    });
+  });
+
+  it("parses bash commands and restarts", () => {
+    expect(parseToolPayload("bash", { command: "ls -la" })).toEqual({
+      toolName: "bash",
+      command: "ls -la",
+      restart: undefined,
+    });
+    expect(parseToolPayload("bash", { restart: true })).toEqual({
+      toolName: "bash",
+      command: "",
+      restart: true,
+    });
+    expect(parseToolPayload("bash", { command: "ls", restart: "yes" })).toEqual(
+      { toolName: "bash", command: "ls", restart: undefined },
+    );
+  });
+
+  it("parses editor commands", () => {
+    expect(
+      parseToolPayload("str_replace_editor", {
+        command: "view",
+        path: "/home/user/a.txt",
+        view_range: [1, 10],
+      }),
+    ).toMatchObject({
+      toolName: "str_replace_editor",
+      command: "view",
+      path: "/home/user/a.txt",
+      view_range: [1, 10],
+    });
+  });
+
+  it("keeps the raw args of unknown tools", () => {
+    expect(parseToolPayload("browser", { url: "https://example.com" })).toEqual(
+      {
+        toolName: "unknown",
+        raw: { url: "https://example.com" },
+      },
+    );
+    expect(parseToolPayload("browser", "not an object")).toEqual({
+      toolName: "unknown",
+      raw: {},
+    });
+  });
+});
+
+describe("parseToolResult", () => {
+  it("returns undefined for missing results", () => {
+    expect(parseToolResult(undefined)).toBeUndefined();
+    expect(parseToolResult(null)).toBeUndefined();
+  });
+
+  it("recognises aborted results in both shapes", () => {
+    expect(parseToolResult(ABORTED)).toEqual({
+      type: "aborted",
+      text: ABORTED,
+    });
+    expect(parseToolResult({ type: "text", text: ABORTED })).toEqual({
+      type: "aborted",
+      text: ABORTED,
+    });
+  });
+
+  it("parses policy violations as errors", () => {
+    const result = parseToolResult({
+      type: "policy-violation",
+      rule: "blocked-path",
+      reason: "Command touches blocked path /root",
+    });
+    expect(result).toMatchObject({ type: "policy-violation" });
+    expect(deriveStatusFromResult(result)).toBe("error");
+  });
+
+  it("parses rejected calls", () => {
+    const result = parseToolResult({ type: "rejected", text: "No thanks" });
+    expect(result).toEqual({ type: "rejected", text: "No thanks" });
+    expect(deriveStatusFromResult(result)).toBe("aborted");
+  });
+
+  it("parses text and image results", () => {
+    expect(parseToolResult("Clicked")).toEqual({
+      type: "text",
+      text: "Clicked",
+    });
+    expect(parseToolResult({ type: "image", data: "abc" })).toEqual({
+      type: "image",
+      data: "abc",
+    });
+  });
+
+  it("parses bash results", () => {
+    expect(
+      parseToolResult({
+        type: "bash",
+        stdout: "out",
+        stderr: "",
+        exitCode: 0,
+      }),
+    ).toEqual({
+      type: "bash",
+      stdout: "out",
+      stderr: "",
+      exitCode: 0,
+      timedOut: undefined,
+    });
+  });
+
+  it("parses editor results and filters malformed diff lines", () => {
+    expect(
+      parseToolResult({
+        type: "editor",
+        output: "ok",
+        diff: [
+          { type: "add", line: 1, text: "new" },
+          { type: "moved", line: 2, text: "bad" },
+          null,
+        ],
+      }),
+    ).toEqual({
+      type: "editor",
+      output: "ok",
+      isError: undefined,
+      diff: [{ type: "add", line: 1, text: "new" }],
+    });
+  });
+
+  it("falls back to unknown for malformed results", () => {
+    const malformed = [
+      { type: "image", data: 42 },
+      { type: "bash", stdout: "out" },
+      { type: "editor" },
+      [1, 2, 3],
+      7,
+    ];
+    for (const result of malformed) {
+      expect(parseToolResult(result)).toEqual({ type: "unknown", raw: result });
+    }
+  });
+});
+
+describe("deriveStatusFromResult", () => {
+  it("treats missing and plain results as success", () => {
+    expect(deriveStatusFromResult(undefined)).toBe("success");
+    expect(deriveStatusFromResult({ type: "text", text: "ok" })).toBe(
+      "success",
+    );
+    expect(deriveStatusFromResult({ type: "unknown", raw: 1 })).toBe("success");
+  });
+
+  it("marks aborted results", () => {
+    expect(deriveStatusFromResult(parseToolResult(ABORTED))).toBe("aborted");
+  });
+
+  it("marks failing bash commands and editor errors", () => {
+    expect(
+      deriveStatusFromResult({
+        type: "bash",
+        stdout: "",
+        stderr: "boom",
+        exitCode: 1,
+      }),
+    ).toBe("error");
+    expect(
+      deriveStatusFromResult({
+        type: "bash",
+        stdout: "",
+        stderr: "",
+        exitCode: 0,
+      }),
+    ).toBe("success");
+    expect(
+      deriveStatusFromResult({ type: "editor", output: "nope", isError: true }),
+    ).toBe("error");
+  });
+});
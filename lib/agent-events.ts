@@ -1,24 +1,39 @@
 import { ABORTED } from "@/lib/utils";
 
-export type ToolName = "computer" | "bash" | "unknown";
-export type ToolEventStatus = "running" | "success" | "error" | "aborted";
-
-export type ComputerAction =
-  | "screenshot"
-  | "left_click"
-  | "right_click"
-  | "double_click"
-  | "mouse_move"
-  | "type"
-  | "key"
-  | "wait"
-  | "scroll"
-  | "unknown";
+export type ToolName = "computer" | "bash" | "str_replace_editor" | "unknown";
+export type ToolEventStatus =
+  | "awaiting-approval"
+  | "running"
+  | "success"
+  | "error"
+  | "aborted";
+
+export const COMPUTER_ACTIONS = [
+  "screenshot",
+  "left_click",
+  "right_click",
+  "middle_click",
+  "double_click",
+  "triple_click",
+  "left_mouse_down",
+  "left_mouse_up",
+  "left_click_drag",
+  "mouse_move",
+  "cursor_position",
+  "type",
+  "key",
+  "hold_key",
+  "wait",
+  "scroll",
+] as const;
+
+export type ComputerAction = (typeof COMPUTER_ACTIONS)[number] | "unknown";
 
 export type ComputerPayload = {
   toolName: "computer";
   action: ComputerAction;
   coordinate?: [number, number];
+  start_coordinate?: [number, number];
   text?: string;
   duration?: number;
   scroll_amount?: number;
@@ -28,6 +43,35 @@ export type ComputerPayload = {
 export type BashPayload = {
   toolName: "bash";
   command: string;
+  restart?: boolean;
+};
+
+export const EDITOR_COMMANDS = [
+  "view",
+  "create",
+  "str_replace",
+  "insert",
+  "undo_edit",
+] as const;
+
+export type EditorCommand = (typeof EDITOR_COMMANDS)[number] | "unknown";
+
+export type EditorPayload = {
+  toolName: "str_replace_editor";
+  command: EditorCommand;
+  path: string;
+  file_text?: string;
+  old_str?: string;
+  new_str?: string;
+  insert_line?: number;
+  view_range?: [number, number];
+};
+
+// `line` is 1-based: the new file's line for context/add, the old file's for remove.
+export type DiffLine = {
+  type: "context" | "add" | "remove";
+  line: number;
+  text: string;
 };
 
 export type UnknownPayload = {
@@ -35,12 +79,28 @@ export type UnknownPayload = {
   raw: Record<string, unknown>;
 };
 
-export type ToolPayload = ComputerPayload | BashPayload | UnknownPayload;
+export type ToolPayload =
+  | ComputerPayload
+  | BashPayload
+  | EditorPayload
+  | UnknownPayload;
 
 export type ToolResult =
   | { type: "text"; text: string }
   | { type: "image"; data: string }
+  | {
+      type: "bash";
+      stdout: string;
+      stderr: string;
+      exitCode: number;
+      timedOut?: boolean;
+    }
+  | { type: "editor"; output: string; isError?: boolean; diff?: DiffLine[] }
   | { type: "aborted"; text: string }
+  // The reviewer rejected the call, so it never ran.
+  | { type: "rejected"; text: string }
+  // The guardrail policy blocked the call before it ran.
+  | { type: "policy-violation"; rule: string; reason: string }
   | { type: "unknown"; raw: unknown };
 
 export type ToolEvent = {
@@ -51,6 +111,13 @@ export type ToolEvent = {
   durationMs?: number;
   payload: ToolPayload;
   result?: ToolResult;
+  // Why the guardrail policy blocked the call, for "error" events.
+  policyReason?: string;
+  // Set once the server reported when the tool ran; `timestamp` and
+  // `durationMs` are then its timings rather than what the client observed.
+  serverTimed?: boolean;
+  // What the tool threw, as reported by the server.
+  error?: string;
 };
 
 export type EventState = {
@@ -67,6 +134,15 @@ export type EventAction =
       durationMs: number;
       result?: ToolResult;
     }
+  | { type: "set-status"; id: string; status: ToolEventStatus }
+  | {
+      type: "register-timing";
+      id: string;
+      startedAt: number;
+      durationMs: number;
+      error?: string;
+    }
+  | { type: "hydrate"; events: ToolEvent[] }
   | { type: "reset" };
 
 export const initialEventState: EventState = {
@@ -74,6 +150,9 @@ export const initialEventState: EventState = {
   order: [],
 };
 
+const policyReasonOf = (result?: ToolResult) =>
+  result?.type === "policy-violation" ? result.reason : undefined;
+
 export function eventReducer(state: EventState, action: EventAction): EventState {
   switch (action.type) {
     case "register-call": {
@@ -96,6 +175,7 @@ export function eventReducer(state: EventState, action: EventAction): EventState
           durationMs: action.durationMs,
           payload: { toolName: "unknown", raw: {} },
           result: action.result,
+          policyReason: policyReasonOf(action.result),
         };
         return {
           byId: { ...state.byId, [action.id]: event },
@@ -109,12 +189,57 @@ export function eventReducer(state: EventState, action: EventAction): EventState
           [action.id]: {
             ...existing,
             status: action.status,
-            durationMs: action.durationMs,
+            durationMs: existing.serverTimed
+              ? existing.durationMs
+              : action.durationMs,
             result: action.result ?? existing.result,
+            policyReason: policyReasonOf(action.result ?? existing.result),
           },
         },
       };
     }
+    case "set-status": {
+      const existing = state.byId[action.id];
+      if (!existing || existing.status === action.status) {
+        return state;
+      }
+      return {
+        ...state,
+        byId: {
+          ...state.byId,
+          [action.id]: { ...existing, status: action.status },
+        },
+      };
+    }
+    case "register-timing": {
+      const existing = state.byId[action.id];
+      if (!existing) {
+        return state;
+      }
+      return {
+        ...state,
+        byId: {
+          ...state.byId,
+          [action.id]: {
+            ...existing,
+            timestamp: action.startedAt,
+            durationMs: action.durationMs,
+            serverTimed: true,
+            ...(action.error !== undefined && {
+              status: "error" as const,
+              error: action.error,
+            }),
+          },
+        },
+      };
+    }
+    case "hydrate":
+      return {
+        byId: Object.fromEntries(
+          action.events.map((event) => [event.id, event]),
+        ),
+        order: action.events.map((event) => event.id),
+      };
     case "reset":
       return initialEventState;
     default:
@@ -127,7 +252,10 @@ export function getEventType(event: ToolEvent): string {
     return `computer:${event.payload.action}`;
   }
   if (event.payload.toolName === "bash") {
-    return "bash:command";
+    return event.payload.restart ? "bash:restart" : "bash:command";
+  }
+  if (event.payload.toolName === "str_replace_editor") {
+    return `editor:${event.payload.command}`;
   }
   return "unknown";
 }
@@ -145,12 +273,49 @@ const asCoordinate = (value: unknown): [number, number] | undefined => {
   return [x, y];
 };
 
+const isComputerAction = (
+  value: string | undefined,
+): value is (typeof COMPUTER_ACTIONS)[number] =>
+  (COMPUTER_ACTIONS as readonly (string | undefined)[]).includes(value);
+
+const isScrollDirection = (
+  value: unknown,
+): value is NonNullable<ComputerPayload["scroll_direction"]> =>
+  value === "up" || value === "down" || value === "left" || value === "right";
+
+const isEditorCommand = (
+  value: string | undefined,
+): value is (typeof EDITOR_COMMANDS)[number] =>
+  (EDITOR_COMMANDS as readonly (string | undefined)[]).includes(value);
+
+const asDiffLines = (value: unknown): DiffLine[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter(
+    (line): line is DiffLine =>
+      Boolean(line) &&
+      typeof line === "object" &&
+      ["context", "add", "remove"].includes(line.type) &&
+      typeof line.line === "number" &&
+      typeof line.text === "string",
+  );
+};
+
 const asRecord = (value: unknown): Record<string, unknown> | undefined => {
   if (!value || typeof value !== "object") return undefined;
   if (Array.isArray(value)) return undefined;
   return value as Record<string, unknown>;
 };
 
+export function normalizeToolName(toolName: string): ToolName {
+  if (
+    toolName === "computer" ||
+    toolName === "bash" ||
+    toolName === "str_replace_editor"
+  )
+    return toolName;
+  return "unknown";
+}
+
 export function parseToolPayload(
   toolName: string,
   args: unknown,
@@ -161,6 +326,7 @@ export function parseToolPayload(
     return {
       toolName: "bash",
       command: command ?? "",
+      restart: record?.restart === true ? true : undefined,
     };
   }
 
@@ -169,17 +335,30 @@ export function parseToolPayload(
     const action = asString(record.action);
     return {
       toolName: "computer",
-      action: (action as ComputerAction) ?? "unknown",
+      action: isComputerAction(action) ? action : "unknown",
       coordinate: asCoordinate(record.coordinate),
+      start_coordinate: asCoordinate(record.start_coordinate),
       text: asString(record.text),
       duration: asNumber(record.duration),
       scroll_amount: asNumber(record.scroll_amount),
-      scroll_direction: asString(record.scroll_direction) as
-        | "up"
-        | "down"
-        | "left"
-        | "right"
-        | undefined,
+      scroll_direction: isScrollDirection(record.scroll_direction)
+        ? record.scroll_direction
+        : undefined,
+    };
+  }
+
+  if (toolName === "str_replace_editor") {
+    const record = asRecord(args) ?? {};
+    const command = asString(record.command);
+    return {
+      toolName: "str_replace_editor",
+      command: isEditorCommand(command) ? command : "unknown",
+      path: asString(record.path) ?? "",
+      file_text: asString(record.file_text),
+      old_str: asString(record.old_str),
+      new_str: asString(record.new_str),
+      insert_line: asNumber(record.insert_line),
+      view_range: asCoordinate(record.view_range),
     };
   }
 
@@ -201,6 +380,42 @@ export function parseToolResult(result: unknown): ToolResult | undefined {
   if (record?.type === "image" && typeof record.data === "string") {
     return { type: "image", data: record.data };
   }
+  if (
+    record?.type === "bash" &&
+    typeof record.stdout === "string" &&
+    typeof record.stderr === "string" &&
+    typeof record.exitCode === "number"
+  ) {
+    return {
+      type: "bash",
+      stdout: record.stdout,
+      stderr: record.stderr,
+      exitCode: record.exitCode,
+      timedOut: record.timedOut === true ? true : undefined,
+    };
+  }
+  if (record?.type === "editor" && typeof record.output === "string") {
+    return {
+      type: "editor",
+      output: record.output,
+      isError: record.isError === true ? true : undefined,
+      diff: asDiffLines(record.diff),
+    };
+  }
+  if (
+    record?.type === "policy-violation" &&
+    typeof record.rule === "string" &&
+    typeof record.reason === "string"
+  ) {
+    return {
+      type: "policy-violation",
+      rule: record.rule,
+      reason: record.reason,
+    };
+  }
+  if (record?.type === "rejected" && typeof record.text === "string") {
+    return { type: "rejected", text: record.text };
+  }
   if (record?.type === "text" && typeof record.text === "string") {
     if (record.text === ABORTED) {
       return { type: "aborted", text: record.text };
@@ -212,6 +427,9 @@ export function parseToolResult(result: unknown): ToolResult | undefined {
 
 export function deriveStatusFromResult(result: ToolResult | undefined): ToolEventStatus {
   if (!result) return "success";
-  if (result.type === "aborted") return "aborted";
+  if (result.type === "aborted" || result.type === "rejected") return "aborted";
+  if (result.type === "policy-violation") return "error";
+  if (result.type === "bash" && result.exitCode !== 0) return "error";
+  if (result.type === "editor" && result.isError) return "error";
   return "success";
 }
@@ -0,0 +1,24 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import type { LanguageModelV1 } from "ai";
+import { createMockModel, isMockModelEnabled } from "@/lib/mock/model";
+import type { ModelConfig, ModelProvider } from "@/lib/models";
+
+// Shared by the chat route and headless runs, so both drive the agent alike.
+export const SYSTEM_PROMPT =
+  "You are a helpful assistant with access to a computer. " +
+  "Use the computer tool to help the user with their requests. " +
+  "Use the bash tool to execute commands on the computer. You can create files and folders using the bash tool. Always prefer the bash tool where it is viable for the task. " +
+  "Use the str_replace_editor tool to view, create and edit text files instead of echo/sed or a GUI editor. " +
+  "Be sure to advise the user when waiting is necessary. " +
+  "If the browser opens with a setup wizard, YOU MUST IGNORE IT and move straight to the next step (e.g. input the url in the search bar). " +
+  "If the user rejects a tool call, do not retry it; ask them how to proceed instead.";
+
+const providers: Record<ModelProvider, typeof anthropic> = {
+  anthropic,
+};
+
+// MOCK_MODEL replays a scripted fixture so the loop runs offline.
+export const getLanguageModel = (model: ModelConfig): LanguageModelV1 =>
+  isMockModelEnabled()
+    ? createMockModel()
+    : providers[model.provider](model.providerModelId);
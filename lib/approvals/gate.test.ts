@@ -0,0 +1,172 @@
+import type { DataStreamWriter, UIMessage } from "ai";
+import { describe, expect, it, vi } from "vitest";
+import { createApprovalGate } from "./gate";
+import { resolveApproval } from "./registry";
+import { parseApprovalDecision, withApprovedArgs } from "./types";
+
+const setup = (context = "") => {
+  const annotations: unknown[] = [];
+  const dataStream = {
+    writeMessageAnnotation: vi.fn((annotation: unknown) => {
+      annotations.push(annotation);
+    }),
+  } as unknown as DataStreamWriter;
+  const gate = createApprovalGate({ dataStream, context: () => context });
+  return { gate, annotations };
+};
+
+// Lets the gate register the pending call before a decision arrives.
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createApprovalGate", () => {
+  it("passes calls that match no rule straight through", async () => {
+    const { gate, annotations } = setup();
+    const args = { command: "ls" };
+    await expect(
+      gate({ toolName: "bash", toolCallId: "c1", args }),
+    ).resolves.toEqual({ approved: true, args });
+    expect(annotations).toEqual([]);
+  });
+
+  it("holds risky calls until they are approved", async () => {
+    const { gate, annotations } = setup();
+    const args = { command: "rm -rf build" };
+    const outcome = gate({ toolName: "bash", toolCallId: "c2", args });
+    await tick();
+
+    expect(annotations).toEqual([
+      {
+        type: "approval-request",
+        toolCallId: "c2",
+        ruleId: "bash-rm",
+        reason: "Deletes files",
+      },
+    ]);
+    expect(resolveApproval("c2", { approved: true })).toBe(true);
+    await expect(outcome).resolves.toEqual({ approved: true, args });
+    expect(annotations.at(-1)).toEqual({
+      type: "approval-result",
+      toolCallId: "c2",
+      approved: true,
+    });
+    expect(resolveApproval("c2", { approved: true })).toBe(false);
+  });
+
+  it("runs edited calls with the edited argument", async () => {
+    const { gate, annotations } = setup();
+    const outcome = gate({
+      toolName: "bash",
+      toolCallId: "c3",
+      args: { command: "rm -rf /" },
+    });
+    await tick();
+    resolveApproval("c3", { approved: true, edit: "rm -rf ./tmp" });
+
+    await expect(outcome).resolves.toEqual({
+      approved: true,
+      args: { command: "rm -rf ./tmp" },
+    });
+    expect(annotations.at(-1)).toEqual({
+      type: "approval-result",
+      toolCallId: "c3",
+      approved: true,
+      args: { command: "rm -rf ./tmp" },
+    });
+  });
+
+  it("turns rejections into a message for the model", async () => {
+    const { gate, annotations } = setup();
+    const outcome = gate({
+      toolName: "bash",
+      toolCallId: "c4",
+      args: { command: "sudo reboot" },
+    });
+    await tick();
+    resolveApproval("c4", { approved: false, message: "not now" });
+
+    await expect(outcome).resolves.toEqual({
+      approved: false,
+      text: "The user rejected this bash call: not now",
+    });
+    expect(annotations.at(-1)).toMatchObject({ approved: false });
+  });
+
+  it("gives up when the request is aborted", async () => {
+    const { gate } = setup("Typing the password now");
+    const controller = new AbortController();
+    const outcome = gate(
+      {
+        toolName: "computer",
+        toolCallId: "c5",
+        args: { action: "type", text: "secret" },
+      },
+      controller.signal,
+    );
+    await tick();
+    controller.abort();
+
+    await expect(outcome).resolves.toMatchObject({ approved: false });
+    expect(resolveApproval("c5", { approved: true })).toBe(false);
+  });
+});
+
+describe("parseApprovalDecision", () => {
+  it("accepts approvals, edits and rejections", () => {
+    expect(parseApprovalDecision({ approved: true })).toEqual({
+      approved: true,
+    });
+    expect(parseApprovalDecision({ approved: true, edit: "ls" })).toEqual({
+      approved: true,
+      edit: "ls",
+    });
+    expect(parseApprovalDecision({ approved: false, message: "no" })).toEqual({
+      approved: false,
+      message: "no",
+    });
+  });
+
+  it("rejects malformed bodies", () => {
+    expect(parseApprovalDecision(null)).toBeNull();
+    expect(parseApprovalDecision({ approved: "yes" })).toBeNull();
+  });
+});
+
+describe("withApprovedArgs", () => {
+  it("replaces the arguments of edited calls", () => {
+    const messages: UIMessage[] = [
+      {
+        id: "a1",
+        role: "assistant",
+        content: "",
+        annotations: [
+          { type: "approval-request", toolCallId: "t1", ruleId: "bash-rm" },
+          {
+            type: "approval-result",
+            toolCallId: "t1",
+            approved: true,
+            args: { command: "rm -rf ./tmp" },
+          },
+        ],
+        parts: [
+          {
+            type: "tool-invocation",
+            toolInvocation: {
+              state: "result",
+              toolCallId: "t1",
+              toolName: "bash",
+              args: { command: "rm -rf /" },
+              result: "",
+            },
+          },
+        ],
+      },
+    ];
+
+    const [message] = withApprovedArgs(messages);
+    const part = message.parts[0];
+    expect(part.type === "tool-invocation" && part.toolInvocation.args).toEqual(
+      { command: "rm -rf ./tmp" },
+    );
+    expect(messages[0].parts[0]).not.toBe(part);
+  });
+});
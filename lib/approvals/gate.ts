@@ -0,0 +1,106 @@
+import {
+  wrapLanguageModel,
+  type DataStreamWriter,
+  type JSONValue,
+  type LanguageModelV1,
+} from "ai";
+import type { EventPublisher } from "@/lib/events/bus";
+import { APPROVAL_EDIT_FIELDS, findApprovalRule } from "./policy";
+import { waitForApproval } from "./registry";
+import type {
+  ApprovalDecision,
+  ApprovalGate,
+  ApprovalRequestAnnotation,
+  ApprovalResultAnnotation,
+} from "./types";
+
+// Tees the model's text so rules can read what it said before a tool call.
+// Text deltas pass through here before the SDK executes the following call.
+export const recordStepText = (model: LanguageModelV1) => {
+  let text = "";
+  return {
+    model: wrapLanguageModel({
+      model,
+      middleware: {
+        wrapStream: async ({ doStream }) => {
+          const { stream, ...rest } = await doStream();
+          return {
+            ...rest,
+            stream: stream.pipeThrough(
+              new TransformStream({
+                transform(chunk, controller) {
+                  if (chunk.type === "text-delta") text += chunk.textDelta;
+                  controller.enqueue(chunk);
+                },
+              }),
+            ),
+          };
+        },
+      },
+    }),
+    text: () => text,
+  };
+};
+
+const rejectionText = (toolName: string, decision: ApprovalDecision | null) => {
+  if (!decision) {
+    return `The ${toolName} call was not approved in time and did not run.`;
+  }
+  const note = !decision.approved && decision.message;
+  return `The user rejected this ${toolName} call${note ? `: ${note}` : "."}`;
+};
+
+const applyEdit = (
+  toolName: string,
+  args: Record<string, unknown>,
+  edit: string | undefined,
+) => {
+  const field = APPROVAL_EDIT_FIELDS[toolName];
+  if (edit === undefined || !field || args[field] === edit) return undefined;
+  return { ...args, [field]: edit };
+};
+
+// Holds policy matches until /api/approvals resolves them; the request and
+// its outcome are streamed to the dashboard as message annotations.
+export const createApprovalGate = ({
+  dataStream,
+  context,
+  publish,
+}: {
+  dataStream: DataStreamWriter;
+  context: () => string;
+  // Tells live observers while a call waits for review.
+  publish?: EventPublisher;
+}): ApprovalGate => {
+  const annotate = (
+    annotation: ApprovalRequestAnnotation | ApprovalResultAnnotation,
+  ) => dataStream.writeMessageAnnotation(annotation as JSONValue);
+
+  return async ({ toolName, toolCallId, args }, abortSignal) => {
+    const rule = findApprovalRule({ toolName, args, context: context() });
+    if (!rule) return { approved: true, args };
+
+    annotate({
+      type: "approval-request",
+      toolCallId,
+      ruleId: rule.id,
+      reason: rule.reason,
+    });
+    publish?.({ type: "status", id: toolCallId, status: "awaiting-approval" });
+    const decision = await waitForApproval(toolCallId, abortSignal);
+    if (!decision?.approved) {
+      annotate({ type: "approval-result", toolCallId, approved: false });
+      return { approved: false, text: rejectionText(toolName, decision) };
+    }
+
+    publish?.({ type: "status", id: toolCallId, status: "running" });
+    const edited = applyEdit(toolName, args, decision.edit);
+    annotate({
+      type: "approval-result",
+      toolCallId,
+      approved: true,
+      ...(edited && { args: edited }),
+    });
+    return { approved: true, args: edited ?? args };
+  };
+};
@@ -0,0 +1,60 @@
+// Tool calls matching one of these rules are held until a human approves them.
+export type ApprovalCall = {
+  toolName: string;
+  args: Record<string, unknown>;
+  // What the model said before making the call, e.g. "Now I'll type the password".
+  context: string;
+};
+
+export type ApprovalRule = {
+  id: string;
+  reason: string;
+  matches: (call: ApprovalCall) => boolean;
+};
+
+const commandOf = ({ toolName, args }: ApprovalCall) =>
+  toolName === "bash" && typeof args.command === "string" ? args.command : "";
+
+// Matches `name` as a command word: at the start or after a separator.
+const runsCommand = (name: string) =>
+  new RegExp(`(^|[;&|(\`]|\\$\\()\\s*${name}(\\s|$)`, "m");
+
+const RM = runsCommand("rm");
+const SUDO = runsCommand("sudo");
+const PIPE_TO_SHELL = /\b(curl|wget)\b[^|;&]*\|\s*(sudo\s+)?(ba|z|da)?sh\b/;
+const PASSWORD = /\b(password|passphrase|passcode|passwd)\b/i;
+
+export const APPROVAL_RULES: ApprovalRule[] = [
+  {
+    id: "bash-rm",
+    reason: "Deletes files",
+    matches: (call) => RM.test(commandOf(call)),
+  },
+  {
+    id: "bash-sudo",
+    reason: "Runs a command as root",
+    matches: (call) => SUDO.test(commandOf(call)),
+  },
+  {
+    id: "bash-pipe-to-shell",
+    reason: "Pipes a download into a shell",
+    matches: (call) => PIPE_TO_SHELL.test(commandOf(call)),
+  },
+  {
+    id: "computer-password",
+    reason: "Types into what looks like a password field",
+    matches: ({ toolName, args, context }) =>
+      toolName === "computer" &&
+      args.action === "type" &&
+      PASSWORD.test(context),
+  },
+];
+
+export const findApprovalRule = (call: ApprovalCall) =>
+  APPROVAL_RULES.find((rule) => rule.matches(call));
+
+// The argument a reviewer may rewrite before approving a call.
+export const APPROVAL_EDIT_FIELDS: Partial<Record<string, string>> = {
+  bash: "command",
+  computer: "text",
+};
@@ -0,0 +1,44 @@
+import type { ApprovalDecision } from "./types";
+
+// Undecided calls give up before the chat route's maxDuration ends the stream.
+export const APPROVAL_TIMEOUT_MS = Number(
+  process.env.APPROVAL_TIMEOUT_MS ?? 240_000,
+);
+
+// Kept on globalThis so the chat route and the approvals route share one map.
+const registry = globalThis as typeof globalThis & {
+  __pendingApprovals?: Map<string, (decision: ApprovalDecision | null) => void>;
+};
+const pending = (registry.__pendingApprovals ??= new Map());
+
+// Resolves with the reviewer's decision, or null if the request was aborted
+// or nobody decided in time.
+export const waitForApproval = (
+  toolCallId: string,
+  abortSignal?: AbortSignal,
+  timeoutMs = APPROVAL_TIMEOUT_MS,
+) =>
+  new Promise<ApprovalDecision | null>((resolve) => {
+    const settle = (decision: ApprovalDecision | null) => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", onAbort);
+      pending.delete(toolCallId);
+      resolve(decision);
+    };
+    const onAbort = () => settle(null);
+    const timer = setTimeout(onAbort, timeoutMs);
+
+    if (abortSignal?.aborted) return settle(null);
+    abortSignal?.addEventListener("abort", onAbort);
+    pending.set(toolCallId, settle);
+  });
+
+export const resolveApproval = (
+  toolCallId: string,
+  decision: ApprovalDecision,
+) => {
+  const settle = pending.get(toolCallId);
+  if (!settle) return false;
+  settle(decision);
+  return true;
+};
@@ -0,0 +1,93 @@
+import type { Message, UIMessage } from "ai";
+
+export type ApprovalDecision =
+  { approved: true; edit?: string } | { approved: false; message?: string };
+
+// Written into the assistant message's annotations by the chat route.
+export type ApprovalRequestAnnotation = {
+  type: "approval-request";
+  toolCallId: string;
+  ruleId: string;
+  reason: string;
+};
+
+export type ApprovalResultAnnotation = {
+  type: "approval-result";
+  toolCallId: string;
+  approved: boolean;
+  // The arguments the call ran with, when the reviewer edited them.
+  args?: Record<string, unknown>;
+};
+
+export type ApprovalState = {
+  request: ApprovalRequestAnnotation;
+  result?: ApprovalResultAnnotation;
+};
+
+export type ApprovalOutcome =
+  | { approved: true; args: Record<string, unknown> }
+  | { approved: false; text: string };
+
+// Decides whether a tool call may run; tools without a gate run every call.
+export type ApprovalGate = (
+  call: { toolName: string; toolCallId: string; args: Record<string, unknown> },
+  abortSignal?: AbortSignal,
+) => Promise<ApprovalOutcome>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const parseApprovalDecision = (
+  value: unknown,
+): ApprovalDecision | null => {
+  if (!isRecord(value) || typeof value.approved !== "boolean") return null;
+  if (value.approved) {
+    return typeof value.edit === "string"
+      ? { approved: true, edit: value.edit }
+      : { approved: true };
+  }
+  return typeof value.message === "string" && value.message
+    ? { approved: false, message: value.message }
+    : { approved: false };
+};
+
+export const getApprovalState = (
+  annotations: Message["annotations"],
+  toolCallId: string,
+): ApprovalState | undefined => {
+  let request: ApprovalRequestAnnotation | undefined;
+  let result: ApprovalResultAnnotation | undefined;
+  for (const annotation of annotations ?? []) {
+    if (!isRecord(annotation) || annotation.toolCallId !== toolCallId) continue;
+    if (annotation.type === "approval-request") {
+      request = annotation as ApprovalRequestAnnotation;
+    } else if (annotation.type === "approval-result") {
+      result = annotation as ApprovalResultAnnotation;
+    }
+  }
+  return request ? { request, result } : undefined;
+};
+
+// Edited calls are sent back to the model with the arguments they ran with.
+export const withApprovedArgs = (messages: UIMessage[]): UIMessage[] =>
+  messages.map((message) => {
+    if (!message.annotations?.length) return message;
+    return {
+      ...message,
+      parts: message.parts.map((part) => {
+        if (part.type !== "tool-invocation") return part;
+        const approval = getApprovalState(
+          message.annotations,
+          part.toolInvocation.toolCallId,
+        );
+        if (!approval?.result?.args) return part;
+        return {
+          ...part,
+          toolInvocation: {
+            ...part.toolInvocation,
+            args: approval.result.args,
+          },
+        };
+      }),
+    };
+  });
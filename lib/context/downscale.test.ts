@@ -0,0 +1,24 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { downscaleScreenshot } from "./downscale";
+
+describe("downscaleScreenshot", () => {
+  it("halves the screenshot's size", async () => {
+    const png = await sharp({
+      create: { width: 64, height: 48, channels: 3, background: "#fff" },
+    })
+      .png()
+      .toBuffer();
+
+    const small = await downscaleScreenshot(png.toString("base64"));
+
+    const { width, height, format } = await sharp(
+      Buffer.from(small, "base64"),
+    ).metadata();
+    expect({ width, height, format }).toEqual({
+      width: 32,
+      height: 24,
+      format: "png",
+    });
+  });
+});
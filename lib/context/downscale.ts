@@ -0,0 +1,15 @@
+import sharp from "sharp";
+
+// Older screenshots only need to show roughly what was on screen.
+const SCALE = 0.5;
+
+export const downscaleScreenshot = async (png: string) => {
+  const image = sharp(Buffer.from(png, "base64"));
+  const { width } = await image.metadata();
+  if (!width) throw new Error("Screenshot has no width");
+  const resized = await image
+    .resize({ width: Math.max(1, Math.round(width * SCALE)) })
+    .png()
+    .toBuffer();
+  return resized.toString("base64");
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import {
+  getContextStrategy,
+  isValidKeepScreenshots,
+  MAX_KEEP_SCREENSHOTS,
+  withKeepScreenshots,
+} from "./strategies";
+
+describe("withKeepScreenshots", () => {
+  it("overrides only the number of screenshots sent as taken", () => {
+    const strategy = getContextStrategy("downscale-older");
+
+    expect(withKeepScreenshots(strategy, 5)).toEqual({
+      ...strategy,
+      keepScreenshots: 5,
+    });
+    expect(withKeepScreenshots(strategy, null)).toBe(strategy);
+    expect(withKeepScreenshots(strategy)).toBe(strategy);
+  });
+
+  it("accepts whole numbers from 1 up to the limit", () => {
+    expect(isValidKeepScreenshots(1)).toBe(true);
+    expect(isValidKeepScreenshots(MAX_KEEP_SCREENSHOTS)).toBe(true);
+    expect(isValidKeepScreenshots(0)).toBe(false);
+    expect(isValidKeepScreenshots(2.5)).toBe(false);
+    expect(isValidKeepScreenshots(MAX_KEEP_SCREENSHOTS + 1)).toBe(false);
+    expect(isValidKeepScreenshots("3")).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+// How much of a conversation is sent with each request. Screenshots dominate
+// the input, so the strategies differ mostly in what happens to old ones.
+export type ContextStrategy = {
+  id: string;
+  label: string;
+  // Screenshots sent as taken, counted back from the latest.
+  keepScreenshots: number;
+  // What becomes of the screenshots before those.
+  olderScreenshots: "drop" | "downscale";
+  // Turns (a user message and everything after it) sent verbatim, counted
+  // back from the latest; earlier ones are summarized into text. null keeps
+  // every turn.
+  keepTurns: number | null;
+};
+
+export const CONTEXT_STRATEGIES: ContextStrategy[] = [
+  {
+    id: "recent-screenshots",
+    label: "Recent screenshots",
+    keepScreenshots: 3,
+    olderScreenshots: "drop",
+    keepTurns: null,
+  },
+  {
+    id: "downscale-older",
+    label: "Downscale older screenshots",
+    keepScreenshots: 2,
+    olderScreenshots: "downscale",
+    keepTurns: null,
+  },
+  {
+    id: "summarize-early-turns",
+    label: "Summarize early turns",
+    keepScreenshots: 3,
+    olderScreenshots: "drop",
+    keepTurns: 2,
+  },
+];
+
+export const DEFAULT_CONTEXT_STRATEGY_ID = CONTEXT_STRATEGIES[0].id;
+
+export const findContextStrategy = (id: string) =>
+  CONTEXT_STRATEGIES.find((strategy) => strategy.id === id);
+
+// Falls back to the default strategy for missing or unknown ids.
+export const getContextStrategy = (id?: string | null): ContextStrategy =>
+  (id ? findContextStrategy(id) : undefined) ?? CONTEXT_STRATEGIES[0];
+
+// The picker can override how many screenshots a strategy sends as taken.
+export const MAX_KEEP_SCREENSHOTS = 20;
+
+export const isValidKeepScreenshots = (value: unknown): value is number =>
+  Number.isInteger(value) &&
+  (value as number) >= 1 &&
+  (value as number) <= MAX_KEEP_SCREENSHOTS;
+
+export const withKeepScreenshots = (
+  strategy: ContextStrategy,
+  keepScreenshots?: number | null,
+): ContextStrategy =>
+  keepScreenshots == null ? strategy : { ...strategy, keepScreenshots };
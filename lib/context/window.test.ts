@@ -0,0 +1,217 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it, vi } from "vitest";
+import { getContextStrategy, type ContextStrategy } from "./strategies";
+import {
+  applyContextStrategy,
+  estimateInputTokens,
+  summarizeMessages,
+} from "./window";
+
+const toolPart = (
+  toolCallId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  result: unknown,
+): UIMessage["parts"][number] => ({
+  type: "tool-invocation",
+  toolInvocation: { state: "result", toolCallId, toolName, args, result },
+});
+
+const screenshot = (toolCallId: string) =>
+  toolPart(
+    toolCallId,
+    "computer",
+    { action: "screenshot" },
+    { type: "image", data: `png-${toolCallId}` },
+  );
+
+const user = (id: string, text: string): UIMessage => ({
+  id,
+  role: "user",
+  content: text,
+  parts: [{ type: "text", text }],
+});
+
+const assistant = (id: string, parts: UIMessage["parts"]): UIMessage => ({
+  id,
+  role: "assistant",
+  content: "",
+  parts,
+});
+
+const conversation = (): UIMessage[] => [
+  user("u1", "Open the browser"),
+  assistant("a1", [
+    { type: "text", text: "Opening it." },
+    screenshot("s1"),
+    toolPart(
+      "click",
+      "computer",
+      { action: "left_click", coordinate: [1, 2] },
+      { type: "text", text: "Left clicked at 1, 2" },
+    ),
+    screenshot("s2"),
+  ]),
+  user("u2", "Now list the files"),
+  assistant("a2", [
+    toolPart("ls", "bash", { command: "ls" }, "file.txt"),
+    screenshot("s3"),
+    screenshot("s4"),
+  ]),
+];
+
+const strategy = (overrides: Partial<ContextStrategy>): ContextStrategy => ({
+  id: "test",
+  label: "Test",
+  keepScreenshots: 2,
+  olderScreenshots: "drop",
+  keepTurns: null,
+  ...overrides,
+});
+
+const resultOf = (message: UIMessage, toolCallId: string) => {
+  const part = message.parts.find(
+    (candidate) =>
+      candidate.type === "tool-invocation" &&
+      candidate.toolInvocation.toolCallId === toolCallId,
+  );
+  if (
+    part?.type !== "tool-invocation" ||
+    part.toolInvocation.state !== "result"
+  )
+    throw new Error("Expected a tool result part");
+  return part.toolInvocation.result;
+};
+
+const noDownscale = () => Promise.reject(new Error("unused"));
+
+describe("applyContextStrategy", () => {
+  it("keeps the latest screenshots and drops the rest", async () => {
+    const { messages, screenshots } = await applyContextStrategy(
+      conversation(),
+      strategy({ keepScreenshots: 2 }),
+      noDownscale,
+    );
+
+    expect(screenshots.map(({ index, fate }) => [index, fate])).toEqual([
+      [1, "dropped"],
+      [2, "dropped"],
+      [3, "sent"],
+      [4, "sent"],
+    ]);
+    expect(resultOf(messages[1], "s1")).toEqual({
+      type: "text",
+      text: "Screenshot dropped to save input tokens",
+    });
+    expect(resultOf(messages[3], "s4")).toEqual({
+      type: "image",
+      data: "png-s4",
+    });
+    // Other tool results are left alone.
+    expect(resultOf(messages[1], "click")).toEqual({
+      type: "text",
+      text: "Left clicked at 1, 2",
+    });
+    expect(resultOf(messages[3], "ls")).toBe("file.txt");
+  });
+
+  it("downscales older screenshots and drops those it fails on", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const downscale = vi.fn(async (png: string) => {
+      if (png === "png-s1") throw new Error("corrupt");
+      return `small-${png}`;
+    });
+    const { messages, screenshots } = await applyContextStrategy(
+      conversation(),
+      strategy({ keepScreenshots: 2, olderScreenshots: "downscale" }),
+      downscale,
+    );
+
+    expect(resultOf(messages[1], "s2")).toEqual({
+      type: "image",
+      data: "small-png-s2",
+    });
+    expect(screenshots.map(({ fate }) => fate)).toEqual([
+      "dropped",
+      "downscaled",
+      "sent",
+      "sent",
+    ]);
+    expect(consoleError).toHaveBeenCalledWith(
+      "Failed to downscale s1",
+      expect.objectContaining({ message: "corrupt" }),
+    );
+    consoleError.mockRestore();
+  });
+
+  it("summarizes turns before the kept ones into the first kept message", async () => {
+    const { messages, screenshots } = await applyContextStrategy(
+      conversation(),
+      strategy({ keepTurns: 1 }),
+      noDownscale,
+    );
+
+    expect(messages.map((message) => message.id)).toEqual(["u2", "a2"]);
+    const [summary, original] = messages[0].parts;
+    expect(summary).toEqual({
+      type: "text",
+      text: expect.stringContaining("User: Open the browser"),
+    });
+    expect(original).toEqual({ type: "text", text: "Now list the files" });
+    expect(screenshots.slice(0, 2).map(({ fate }) => fate)).toEqual([
+      "summarized",
+      "summarized",
+    ]);
+  });
+
+  it("does not mutate the input messages", async () => {
+    const messages = conversation();
+    const snapshot = structuredClone(messages);
+
+    await applyContextStrategy(
+      messages,
+      getContextStrategy("summarize-early-turns"),
+      noDownscale,
+    );
+
+    expect(messages).toEqual(snapshot);
+  });
+});
+
+describe("summarizeMessages", () => {
+  it("lists what was said and done, one line each", () => {
+    expect(summarizeMessages(conversation().slice(0, 2))).toBe(
+      [
+        "User: Open the browser",
+        "Assistant: Opening it.",
+        "  - screenshot",
+        "  - left click at (1, 2)",
+        "  - screenshot",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("estimateInputTokens", () => {
+  it("counts text by length and screenshots by their size", () => {
+    // A PNG signature and IHDR header for a 1500x500 image.
+    const header = new Uint8Array(24);
+    header.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    new DataView(header.buffer).setUint32(16, 1500);
+    new DataView(header.buffer).setUint32(20, 500);
+    const png = btoa(String.fromCharCode(...header));
+
+    const messages = [
+      user("u1", "12345678"),
+      assistant("a1", [
+        toolPart("s1", "computer", {}, { type: "image", data: png }),
+      ]),
+    ];
+
+    // 2 tokens of text, 1 of empty args and 1000 for the image.
+    expect(estimateInputTokens(messages)).toBe(1_003);
+    expect(estimateInputTokens(messages, "abcd")).toBe(1_004);
+  });
+});
@@ -0,0 +1,209 @@
+import type { JSONValue, UIMessage } from "ai";
+import { parseToolPayload, parseToolResult } from "@/lib/agent-events";
+import { describeStep } from "@/lib/replay";
+import type { ContextStrategy } from "./strategies";
+
+export type ScreenshotFate = "sent" | "downscaled" | "dropped" | "summarized";
+
+export type ContextScreenshot = {
+  toolCallId: string;
+  // 1-based position among the conversation's screenshots.
+  index: number;
+  fate: ScreenshotFate;
+};
+
+// Streamed once per request, before the model sees it.
+export type ContextAnnotation = {
+  type: "context";
+  strategyId: string;
+  estimatedInputTokens: number;
+  screenshots: ContextScreenshot[];
+};
+
+type MessagePart = UIMessage["parts"][number];
+
+const DROPPED_TEXT = "Screenshot dropped to save input tokens";
+const SUMMARY_HEADING =
+  "Summary of the earlier conversation, shortened to save input tokens:";
+const CHARS_PER_TOKEN = 4;
+// Anthropic bills an image at roughly width * height / 750 tokens.
+const PIXELS_PER_TOKEN = 750;
+const DEFAULT_SCREEN = { width: 1024, height: 768 };
+
+const screenshotOf = (part: MessagePart) => {
+  if (part.type !== "tool-invocation") return null;
+  const { toolInvocation } = part;
+  if (toolInvocation.state !== "result") return null;
+  const result = parseToolResult(toolInvocation.result);
+  return result?.type === "image"
+    ? { toolCallId: toolInvocation.toolCallId, data: result.data }
+    : null;
+};
+
+const withResult = (part: MessagePart, result: unknown): MessagePart =>
+  part.type === "tool-invocation" && part.toolInvocation.state === "result"
+    ? { ...part, toolInvocation: { ...part.toolInvocation, result } }
+    : part;
+
+const truncate = (value: string, length = 200) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+const textOf = (message: UIMessage) =>
+  message.parts
+    .flatMap((part) => (part.type === "text" ? [part.text.trim()] : []))
+    .filter(Boolean)
+    .join(" ") || message.content.trim();
+
+// One line per message and per tool call; screenshots are left out.
+export const summarizeMessages = (messages: UIMessage[]) =>
+  messages
+    .flatMap((message) => {
+      if (message.role === "user") {
+        return [`User: ${truncate(textOf(message))}`];
+      }
+      return message.parts.flatMap((part) => {
+        if (part.type === "text" && part.text.trim()) {
+          return [`Assistant: ${truncate(part.text.trim())}`];
+        }
+        if (part.type === "tool-invocation") {
+          const { toolName, args } = part.toolInvocation;
+          return [
+            `  - ${describeStep({ payload: parseToolPayload(toolName, args) })}`,
+          ];
+        }
+        return [];
+      });
+    })
+    .join("\n");
+
+// Index of the first message sent verbatim: the start of the earliest kept
+// turn, where a turn starts at each user message.
+const firstKeptIndex = (messages: UIMessage[], keepTurns: number | null) => {
+  if (keepTurns === null) return 0;
+  const turnStarts = messages.flatMap((message, index) =>
+    message.role === "user" ? [index] : [],
+  );
+  if (turnStarts.length <= keepTurns) return 0;
+  return turnStarts[turnStarts.length - Math.max(keepTurns, 1)];
+};
+
+const withSummary = (message: UIMessage, summary: string): UIMessage => {
+  const text = `${SUMMARY_HEADING}\n${summary}`;
+  return {
+    ...message,
+    content: `${text}\n\n${message.content}`,
+    parts: [{ type: "text", text }, ...message.parts],
+  };
+};
+
+// Returns new message objects; the caller's messages are left untouched.
+export const applyContextStrategy = async (
+  messages: UIMessage[],
+  strategy: ContextStrategy,
+  // Shrinks a base64 PNG; screenshots it fails on are dropped instead.
+  downscale: (png: string) => Promise<string>,
+): Promise<{ messages: UIMessage[]; screenshots: ContextScreenshot[] }> => {
+  const cut = firstKeptIndex(messages, strategy.keepTurns);
+  const screenshots: ContextScreenshot[] = [];
+  messages.forEach((message, messageIndex) =>
+    message.parts.forEach((part) => {
+      const screenshot = screenshotOf(part);
+      if (!screenshot) return;
+      screenshots.push({
+        toolCallId: screenshot.toolCallId,
+        index: screenshots.length + 1,
+        fate: messageIndex < cut ? "summarized" : "sent",
+      });
+    }),
+  );
+
+  const kept = screenshots.filter(({ fate }) => fate === "sent");
+  kept
+    .slice(0, Math.max(0, kept.length - strategy.keepScreenshots))
+    .forEach((screenshot) => {
+      screenshot.fate =
+        strategy.olderScreenshots === "downscale" ? "downscaled" : "dropped";
+    });
+  const fates = new Map(
+    screenshots.map((screenshot) => [screenshot.toolCallId, screenshot]),
+  );
+
+  const shrink = async (part: MessagePart): Promise<MessagePart> => {
+    const screenshot = screenshotOf(part);
+    const entry = screenshot && fates.get(screenshot.toolCallId);
+    if (!screenshot || !entry || entry.fate === "sent") return part;
+    if (entry.fate === "downscaled") {
+      try {
+        const data = await downscale(screenshot.data);
+        return withResult(part, { type: "image", data });
+      } catch (error) {
+        console.error(`Failed to downscale ${entry.toolCallId}`, error);
+        entry.fate = "dropped";
+      }
+    }
+    return withResult(part, { type: "text", text: DROPPED_TEXT });
+  };
+
+  const sent = await Promise.all(
+    messages.slice(cut).map(async (message) => ({
+      ...message,
+      parts: await Promise.all(message.parts.map(shrink)),
+    })),
+  );
+  if (cut > 0) {
+    sent[0] = withSummary(sent[0], summarizeMessages(messages.slice(0, cut)));
+  }
+  return { messages: sent, screenshots };
+};
+
+const pngSize = (png: string) => {
+  try {
+    // The IHDR chunk holds the width and height at bytes 16-23.
+    const header = atob(png.slice(0, 32));
+    if (header.slice(1, 4) !== "PNG") return DEFAULT_SCREEN;
+    const read = (offset: number) =>
+      [0, 1, 2, 3].reduce(
+        (value, byte) => value * 256 + header.charCodeAt(offset + byte),
+        0,
+      );
+    return { width: read(16), height: read(20) };
+  } catch {
+    return DEFAULT_SCREEN;
+  }
+};
+
+const textTokens = (value: unknown) =>
+  Math.ceil(
+    (typeof value === "string" ? value : JSON.stringify(value ?? "")).length /
+      CHARS_PER_TOKEN,
+  );
+
+// A local estimate of the request's input tokens: about four characters per
+// token for text and Anthropic's pixel formula for images.
+export const estimateInputTokens = (messages: UIMessage[], system = "") =>
+  messages.reduce(
+    (total, message) =>
+      total +
+      message.parts.reduce((sum, part) => {
+        if (part.type === "text") return sum + textTokens(part.text);
+        if (part.type !== "tool-invocation") return sum;
+        const { toolInvocation } = part;
+        const args = textTokens(toolInvocation.args);
+        if (toolInvocation.state !== "result") return sum + args;
+        const screenshot = screenshotOf(part);
+        if (!screenshot) {
+          return sum + args + textTokens(toolInvocation.result);
+        }
+        const { width, height } = pngSize(screenshot.data);
+        return sum + args + Math.ceil((width * height) / PIXELS_PER_TOKEN);
+      }, 0),
+    textTokens(system),
+  );
+
+const isContextAnnotation = (value: unknown): value is ContextAnnotation =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as { type?: unknown }).type === "context";
+
+export const getContextAnnotations = (annotations?: JSONValue[]) =>
+  (annotations ?? []).filter(isContextAnnotation);
@@ -0,0 +1,117 @@
+import { CommandExitError, Sandbox } from "@e2b/desktop";
+import type { Desktop, DesktopProvider } from "./provider";
+import { shellQuote } from "@/lib/utils";
+
+// For input the E2B SDK has no helper for, drive xdotool on the sandbox display.
+const xdotool = async (sandbox: Sandbox, ...args: string[]) => {
+  await sandbox.commands.run(`xdotool ${args.map(shellQuote).join(" ")}`, {
+    envs: { DISPLAY: sandbox.display },
+  });
+};
+
+const SCROLL_BUTTONS = { left: "6", right: "7" };
+
+const wrapSandbox = (sandbox: Sandbox): Desktop => ({
+  id: sandbox.sandboxId,
+  screenshot: () => sandbox.screenshot(),
+  moveMouse: (x, y) => sandbox.moveMouse(x, y),
+  leftClick: () => sandbox.leftClick(),
+  rightClick: () => sandbox.rightClick(),
+  middleClick: () => sandbox.middleClick(),
+  doubleClick: () => sandbox.doubleClick(),
+  tripleClick: () => xdotool(sandbox, "click", "--repeat", "3", "1"),
+  mousePress: (button) => sandbox.mousePress(button),
+  mouseRelease: (button) => sandbox.mouseRelease(button),
+  getCursorPosition: () => sandbox.getCursorPosition(),
+  scroll: (direction, amount) =>
+    direction === "up" || direction === "down"
+      ? sandbox.scroll(direction, amount)
+      : xdotool(
+          sandbox,
+          "click",
+          "--repeat",
+          String(amount),
+          SCROLL_BUTTONS[direction],
+        ),
+  drag: (from, to) => sandbox.drag(from, to),
+  write: (text) => sandbox.write(text),
+  press: (key) => sandbox.press(key),
+  keyDown: (key) => xdotool(sandbox, "keydown", key),
+  keyUp: (key) => xdotool(sandbox, "keyup", key),
+  commands: {
+    run: async (command, options) => {
+      try {
+        const result = await sandbox.commands.run(command, options);
+        return {
+          stdout: result.stdout,
+          stderr: result.stderr,
+          exitCode: result.exitCode,
+        };
+      } catch (error) {
+        if (error instanceof CommandExitError) {
+          return {
+            stdout: error.stdout,
+            stderr: error.stderr,
+            exitCode: error.exitCode,
+          };
+        }
+        throw error;
+      }
+    },
+    spawn: async (command, { onStdout, onStderr, onExit, ...options }) => {
+      const handle = await sandbox.commands.run(command, {
+        ...options,
+        background: true,
+        timeoutMs: options.timeoutMs ?? 0,
+        onStdout,
+        onStderr,
+      });
+      handle.wait().then(
+        (result) => onExit(result.exitCode),
+        (error) =>
+          onExit(error instanceof CommandExitError ? error.exitCode : -1),
+      );
+      return {
+        sendStdin: (data) => sandbox.commands.sendStdin(handle.pid, data),
+        kill: async () => {
+          await handle.kill();
+        },
+      };
+    },
+  },
+  files: {
+    read: (path) => sandbox.files.read(path, { format: "bytes" }),
+    write: async (path, data) => {
+      await sandbox.files.write(
+        path,
+        typeof data === "string"
+          ? data
+          : (data.buffer.slice(
+              data.byteOffset,
+              data.byteOffset + data.byteLength,
+            ) as ArrayBuffer),
+      );
+    },
+  },
+  getStreamUrl: async () => sandbox.stream.getUrl(),
+  isRunning: () => sandbox.isRunning(),
+  keepAlive: (timeoutMs) => sandbox.setTimeout(timeoutMs),
+  kill: async () => {
+    await sandbox.kill();
+  },
+});
+
+export const createE2BProvider = (): DesktopProvider => ({
+  name: "e2b",
+  create: async ({ resolution, timeoutMs }) => {
+    const sandbox = await Sandbox.create({ resolution, timeoutMs });
+    await sandbox.stream.start();
+    return wrapSandbox(sandbox);
+  },
+  connect: async (id) => {
+    const sandbox = await Sandbox.connect(id);
+    const isRunning = await sandbox.isRunning();
+    if (!isRunning) return null;
+    return wrapSandbox(sandbox);
+  },
+});
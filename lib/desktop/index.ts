@@ -0,0 +1,26 @@
+import { createE2BProvider } from "./e2b";
+import { createLocalProvider } from "./local";
+import { createMockProvider } from "./mock";
+import type { DesktopProvider } from "./provider";
+
+export type { Desktop, DesktopProvider } from "./provider";
+
+const providers: Record<string, () => DesktopProvider> = {
+  e2b: createE2BProvider,
+  local: createLocalProvider,
+  mock: createMockProvider,
+};
+
+let provider: DesktopProvider | null = null;
+
+// Selected with DESKTOP_PROVIDER ("e2b" by default, "local", or "mock").
+export const getDesktopProvider = (): DesktopProvider => {
+  if (provider) return provider;
+  const name = process.env.DESKTOP_PROVIDER ?? "e2b";
+  const factory = providers[name];
+  if (!factory) {
+    throw new Error(`Unknown desktop provider: ${name}`);
+  }
+  provider = factory();
+  return provider;
+};
@@ -0,0 +1,274 @@
+import { execFile, spawn } from "node:child_process";
+import type {
+  Desktop,
+  DesktopCommandOptions,
+  DesktopCommandResult,
+  DesktopProcess,
+  DesktopProvider,
+  DesktopSpawnOptions,
+  MouseButton,
+  ScrollDirection,
+} from "./provider";
+
+// Runs the image built from docker/local-desktop: Xvfb on :0, x11vnc, and
+// noVNC (websockify) on port 6080 inside the container.
+const IMAGE = process.env.LOCAL_DESKTOP_IMAGE ?? "computer-use-desktop:latest";
+const HOST = process.env.LOCAL_DESKTOP_HOST ?? "localhost";
+const NOVNC_PORT = 6080;
+const LABEL = "computer-use.desktop";
+
+const BUTTONS: Record<MouseButton, number> = { left: 1, middle: 2, right: 3 };
+
+const SCROLL_BUTTONS: Record<ScrollDirection, number> = {
+  up: 4,
+  down: 5,
+  left: 6,
+  right: 7,
+};
+
+// E2B-style key names used by the computer tool, mapped to xdotool keysyms.
+const KEYSYMS: Record<string, string> = {
+  enter: "Return",
+  return: "Return",
+  esc: "Escape",
+  escape: "Escape",
+  tab: "Tab",
+  backspace: "BackSpace",
+  delete: "Delete",
+  space: "space",
+  up: "Up",
+  down: "Down",
+  left: "Left",
+  right: "Right",
+  home: "Home",
+  end: "End",
+  pageup: "Page_Up",
+  pagedown: "Page_Down",
+};
+
+const toKeysym = (key: string) =>
+  key
+    .split("+")
+    .map((part) => KEYSYMS[part.toLowerCase()] ?? part)
+    .join("+");
+
+type ExecResult = DesktopCommandResult & { stdoutBuffer: Buffer };
+
+const docker = (
+  args: string[],
+  {
+    timeoutMs,
+    input,
+  }: { timeoutMs?: number; input?: string | Uint8Array } = {},
+) =>
+  new Promise<ExecResult>((resolve, reject) => {
+    const child = execFile(
+      "docker",
+      args,
+      { encoding: "buffer", maxBuffer: 64 * 1024 * 1024, timeout: timeoutMs },
+      (error, stdout, stderr) => {
+        const exitCode =
+          error && typeof error.code === "number" ? error.code : error ? -1 : 0;
+        if (error && exitCode === -1 && !error.killed) {
+          reject(error);
+          return;
+        }
+        resolve({
+          stdoutBuffer: stdout,
+          stdout: stdout.toString("utf8"),
+          stderr: error?.killed
+            ? `${stderr.toString("utf8")}\nCommand timed out after ${timeoutMs}ms`
+            : stderr.toString("utf8"),
+          exitCode,
+        });
+      },
+    );
+    if (input !== undefined) child.stdin?.end(input);
+  });
+
+const dockerOrThrow = async (args: string[], input?: string | Uint8Array) => {
+  const result = await docker(args, { input });
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `docker ${args[0]} failed (${result.exitCode}): ${result.stderr.trim()}`,
+    );
+  }
+  return result;
+};
+
+const exec = (id: string, args: string[]) =>
+  dockerOrThrow(["exec", id, ...args]);
+
+const xdotool = async (id: string, ...args: string[]) => {
+  await exec(id, ["xdotool", ...args]);
+};
+
+const runCommand = (
+  id: string,
+  command: string,
+  options: DesktopCommandOptions = {},
+) => {
+  const flags: string[] = [];
+  if (options.cwd) flags.push("-w", options.cwd);
+  Object.entries(options.envs ?? {}).forEach(([key, value]) => {
+    flags.push("-e", `${key}=${value}`);
+  });
+  return docker(["exec", ...flags, id, "bash", "-lc", command], {
+    timeoutMs: options.timeoutMs ?? 60_000,
+  });
+};
+
+const spawnProcess = (
+  id: string,
+  command: string,
+  { onStdout, onStderr, onExit, ...options }: DesktopSpawnOptions,
+): Promise<DesktopProcess> => {
+  const flags: string[] = ["-i"];
+  if (options.cwd) flags.push("-w", options.cwd);
+  Object.entries(options.envs ?? {}).forEach(([key, value]) => {
+    flags.push("-e", `${key}=${value}`);
+  });
+  const child = spawn(
+    "docker",
+    ["exec", ...flags, id, "bash", "-lc", command],
+    {
+      timeout: options.timeoutMs,
+    },
+  );
+  child.stdout.setEncoding("utf8").on("data", onStdout);
+  child.stderr.setEncoding("utf8").on("data", onStderr);
+  child.on("close", (code) => onExit(code ?? -1));
+
+  return new Promise((resolve, reject) => {
+    child.once("error", reject);
+    child.once("spawn", () =>
+      resolve({
+        sendStdin: (data) =>
+          new Promise<void>((done, fail) => {
+            child.stdin.write(data, (error) => (error ? fail(error) : done()));
+          }),
+        kill: async () => {
+          // Closing stdin ends the shell inside the container as well.
+          child.stdin.end();
+          child.kill();
+        },
+      }),
+    );
+  });
+};
+
+const isContainerRunning = async (id: string) => {
+  const result = await docker(["inspect", "-f", "{{.State.Running}}", id]);
+  return result.exitCode === 0 && result.stdout.trim() === "true";
+};
+
+const waitForDisplay = async (id: string, attempts = 30) => {
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const result = await docker(["exec", id, "xdotool", "getdisplaygeometry"]);
+    if (result.exitCode === 0) return;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new Error(`Local desktop ${id} did not start an X display`);
+};
+
+const wrapContainer = (id: string): Desktop => ({
+  id,
+  screenshot: async () => {
+    const result = await exec(id, ["import", "-window", "root", "png:-"]);
+    return new Uint8Array(result.stdoutBuffer);
+  },
+  moveMouse: (x, y) => xdotool(id, "mousemove", String(x), String(y)),
+  leftClick: () => xdotool(id, "click", "1"),
+  rightClick: () => xdotool(id, "click", "3"),
+  middleClick: () => xdotool(id, "click", "2"),
+  doubleClick: () => xdotool(id, "click", "--repeat", "2", "1"),
+  tripleClick: () => xdotool(id, "click", "--repeat", "3", "1"),
+  mousePress: (button = "left") =>
+    xdotool(id, "mousedown", String(BUTTONS[button])),
+  mouseRelease: (button = "left") =>
+    xdotool(id, "mouseup", String(BUTTONS[button])),
+  getCursorPosition: async () => {
+    const result = await exec(id, ["xdotool", "getmouselocation", "--shell"]);
+    const x = Number(/X=(\d+)/.exec(result.stdout)?.[1] ?? 0);
+    const y = Number(/Y=(\d+)/.exec(result.stdout)?.[1] ?? 0);
+    return { x, y };
+  },
+  scroll: (direction, amount) =>
+    xdotool(
+      id,
+      "click",
+      "--repeat",
+      String(amount),
+      String(SCROLL_BUTTONS[direction]),
+    ),
+  drag: async ([x1, y1], [x2, y2]) => {
+    await xdotool(id, "mousemove", String(x1), String(y1), "mousedown", "1");
+    await xdotool(id, "mousemove", String(x2), String(y2), "mouseup", "1");
+  },
+  write: (text) => xdotool(id, "type", "--delay", "12", "--", text),
+  press: (key) => xdotool(id, "key", "--", toKeysym(key)),
+  keyDown: (key) => xdotool(id, "keydown", "--", key),
+  keyUp: (key) => xdotool(id, "keyup", "--", key),
+  commands: {
+    run: (command, options) => runCommand(id, command, options),
+    spawn: (command, options) => spawnProcess(id, command, options),
+  },
+  files: {
+    read: async (path) => {
+      const result = await exec(id, ["cat", "--", path]);
+      return new Uint8Array(result.stdoutBuffer);
+    },
+    write: async (path, data) => {
+      await dockerOrThrow(
+        [
+          "exec",
+          "-i",
+          id,
+          "sh",
+          "-c",
+          'mkdir -p "$(dirname "$1")" && cat > "$1"',
+          "sh",
+          path,
+        ],
+        data,
+      );
+    },
+  },
+  getStreamUrl: async () => {
+    const result = await dockerOrThrow(["port", id, String(NOVNC_PORT)]);
+    const port = result.stdout.trim().split("\n")[0]?.split(":").at(-1);
+    return `http://${HOST}:${port}/vnc.html?autoconnect=true&resize=scale`;
+  },
+  isRunning: () => isContainerRunning(id),
+  // Containers have no built-in expiry; the sandbox registry reaps idle ones.
+  keepAlive: async () => {},
+  kill: async () => {
+    await docker(["rm", "-f", id]);
+  },
+});
+
+export const createLocalProvider = (): DesktopProvider => ({
+  name: "local",
+  create: async ({ resolution }) => {
+    const [width, height] = resolution;
+    const result = await dockerOrThrow([
+      "run",
+      "-d",
+      "--rm",
+      "--label",
+      LABEL,
+      "-e",
+      `RESOLUTION=${width}x${height}x24`,
+      "-p",
+      `127.0.0.1::${NOVNC_PORT}`,
+      IMAGE,
+    ]);
+    const id = result.stdout.trim().slice(0, 12);
+    await waitForDisplay(id);
+    return wrapContainer(id);
+  },
+  connect: async (id) => {
+    const isRunning = await isContainerRunning(id);
+    return isRunning ? wrapContainer(id) : null;
+  },
+});
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { runEditorCommand } from "@/lib/e2b/editor";
+import { uploadFiles } from "@/lib/e2b/files";
+import { createMockProvider } from "./mock";
+
+const createDesktop = () =>
+  createMockProvider().create({ resolution: [64, 48], timeoutMs: 60_000 });
+
+describe("mock desktop", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("lets the editor create, view and undo files", async () => {
+    const desktop = await createDesktop();
+    const path = "/home/user/notes/todo.txt";
+
+    expect(
+      await runEditorCommand(desktop, {
+        command: "create",
+        path,
+        file_text: "first\nsecond",
+      }),
+    ).toMatchObject({ output: expect.stringContaining(path) });
+    expect(
+      await runEditorCommand(desktop, { command: "view", path }),
+    ).toMatchObject({ output: expect.stringContaining("second") });
+    await runEditorCommand(desktop, { command: "create", path, file_text: "" });
+    await runEditorCommand(desktop, { command: "undo_edit", path });
+    expect(new TextDecoder().decode(await desktop.files.read(path))).toBe(
+      "first\nsecond",
+    );
+    expect(
+      await runEditorCommand(desktop, {
+        command: "create",
+        path: "/home/user/notes",
+        file_text: "",
+      }),
+    ).toMatchObject({
+      isError: true,
+      output: "The path /home/user/notes is a directory.",
+    });
+  });
+
+  it("lists directories and reports missing paths", async () => {
+    const desktop = await createDesktop();
+    await desktop.files.write("/home/user/notes/todo.txt", "a");
+    await desktop.files.write("/home/user/notes/deep/more/x.txt", "b");
+    await desktop.files.write("/home/user/.hidden", "c");
+
+    const listing = await runEditorCommand(desktop, {
+      command: "view",
+      path: "/home/user",
+    });
+    expect(listing.isError).toBeFalsy();
+    expect(listing.output.split("\n").slice(1)).toEqual([
+      "/home/user",
+      "/home/user/notes",
+      "/home/user/notes/deep",
+      "/home/user/notes/todo.txt",
+      "",
+    ]);
+    expect(
+      await runEditorCommand(desktop, {
+        command: "view",
+        path: "/home/user/it's-missing.txt",
+      }),
+    ).toMatchObject({
+      isError: true,
+      output: "The path /home/user/it's-missing.txt does not exist.",
+    });
+  });
+
+  it("lists uploads so new ones get unique names", async () => {
+    const desktop = await createDesktop();
+    const file = () => new File(["hi"], "report.txt");
+
+    await uploadFiles(desktop, [file()]);
+    const [second] = await uploadFiles(desktop, [file()]);
+
+    expect(second.name).not.toBe("report.txt");
+  });
+});
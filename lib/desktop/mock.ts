@@ -0,0 +1,313 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { deflateSync } from "node:zlib";
+import type {
+  Desktop,
+  DesktopCommandResult,
+  DesktopProcess,
+  DesktopProvider,
+  DesktopSpawnOptions,
+} from "./provider";
+
+// An in-process stand-in for a real desktop, used to run the dashboard
+// offline. Input is recorded rather than performed; screenshots come from
+// MOCK_DESKTOP_SCREENSHOT_DIR (cycled in name order) or are drawn on the fly.
+const SCREENSHOT_DIR = process.env.MOCK_DESKTOP_SCREENSHOT_DIR;
+const MAX_LOG_ENTRIES = 500;
+
+export type MockDesktopLogEntry = {
+  timestamp: number;
+  method: string;
+  args: unknown[];
+};
+
+type MockDesktopState = {
+  id: string;
+  width: number;
+  height: number;
+  cursor: { x: number; y: number };
+  frame: number;
+  files: Map<string, Uint8Array>;
+  log: MockDesktopLogEntry[];
+  running: boolean;
+};
+
+// Kept on globalThis so route handlers and server actions share one set.
+const store = globalThis as typeof globalThis & {
+  __mockDesktops?: Map<string, MockDesktopState>;
+};
+const desktops = (store.__mockDesktops ??= new Map());
+
+export const getMockDesktopLog = (id: string) => desktops.get(id)?.log ?? [];
+
+const record = (state: MockDesktopState, method: string, args: unknown[]) => {
+  state.log.push({ timestamp: Date.now(), method, args });
+  if (state.log.length > MAX_LOG_ENTRIES) state.log.shift();
+  console.log(`[mock-desktop ${state.id}] ${method}`, ...args);
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// A flat background whose shade changes every frame, with a square marking
+// the cursor so clicks and drags are visible in the event log.
+const drawScreenshot = (state: MockDesktopState) => {
+  const { width, height, cursor } = state;
+  const shade = 40 + ((state.frame * 24) % 160);
+  const rowLength = width * 3 + 1;
+  const raw = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = y * rowLength + 1 + x * 3;
+      const isCursor =
+        Math.abs(x - cursor.x) <= 6 && Math.abs(y - cursor.y) <= 6;
+      raw[offset] = isCursor ? 255 : 30;
+      raw[offset + 1] = isCursor ? 64 : shade;
+      raw[offset + 2] = isCursor ? 64 : 120;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+};
+
+const cannedScreenshots = () => {
+  if (!SCREENSHOT_DIR) return [];
+  return readdirSync(SCREENSHOT_DIR)
+    .filter((name) => name.endsWith(".png"))
+    .sort()
+    .map((name) => path.join(SCREENSHOT_DIR, name));
+};
+
+const renderScreen = (state: MockDesktopState) => {
+  const canned = cannedScreenshots();
+  const image = canned.length
+    ? readFileSync(canned[state.frame % canned.length])
+    : drawScreenshot(state);
+  return new Uint8Array(image);
+};
+
+// The current screen, without advancing frames or logging; for the viewer.
+export const getMockScreen = (id: string) => {
+  const state = desktops.get(id);
+  return state ? renderScreen(state) : null;
+};
+
+// Answers the sentinel markers lib/e2b/shell.ts writes after each command,
+// so the persistent shell sees every command succeed with no output.
+const spawnMockShell = (
+  state: MockDesktopState,
+  command: string,
+  options: DesktopSpawnOptions,
+): DesktopProcess => {
+  record(state, "commands.spawn", [command]);
+  let exited = false;
+  return {
+    sendStdin: async (data) => {
+      if (exited) throw new Error("Process has exited");
+      record(state, "sendStdin", [data]);
+      for (const [, marker] of data.matchAll(/(__BASH_DONE_\w+__) %d/g)) {
+        setTimeout(() => {
+          options.onStdout(`\n${marker} 0\n`);
+          options.onStderr(`\n${marker}\n`);
+        }, 0);
+      }
+    },
+    kill: async () => {
+      if (exited) return;
+      exited = true;
+      options.onExit(-1);
+    },
+  };
+};
+
+// Directories that exist on a real desktop before anything is written.
+const BASE_DIRS = new Set(["/", "/home", "/home/user", "/tmp"]);
+// A word quoted by shellQuote in lib/utils.ts.
+const QUOTED = String.raw`'((?:[^']|'\\'')*)'`;
+const PATH_PROBE = new RegExp(String.raw`^if \[ -d ${QUOTED} \]`);
+const FIND_PROBE = new RegExp(String.raw`^find ${QUOTED} -maxdepth 2 `);
+const LIST_PROBE = /^ls -1 (\S+)$/;
+
+const unquote = (word: string) => word.replace(/'\\''/g, "'");
+
+const trimSlash = (dir: string) => dir.replace(/(.)\/+$/, "$1");
+
+// Paths of written files below `dir`, relative to it.
+const filesUnder = (state: MockDesktopState, dir: string) => {
+  const prefix = dir === "/" ? "/" : `${dir}/`;
+  return [...state.files.keys()]
+    .filter((file) => file.startsWith(prefix))
+    .map((file) => file.slice(prefix.length));
+};
+
+// Written files make up the filesystem the tools' probes see: the editor's
+// path check and directory listing, and the uploads listing. Any other
+// command succeeds with no output.
+const answerCommand = (state: MockDesktopState, command: string) => {
+  const probe = command.match(PATH_PROBE);
+  if (probe) {
+    const target = trimSlash(unquote(probe[1]));
+    if (BASE_DIRS.has(target) || filesUnder(state, target).length > 0) {
+      return "dir\n";
+    }
+    return state.files.has(target) ? "file\n" : "missing\n";
+  }
+
+  const find = command.match(FIND_PROBE);
+  if (find) {
+    const dir = trimSlash(unquote(find[1]));
+    const entries = new Set<string>();
+    filesUnder(state, dir).forEach((relative) => {
+      const parts = relative.split("/");
+      if (parts.some((part) => part.startsWith("."))) return;
+      for (let depth = 1; depth <= Math.min(parts.length, 2); depth++) {
+        entries.add(parts.slice(0, depth).join("/"));
+      }
+    });
+    const base = dir === "/" ? "" : dir;
+    return [dir, ...[...entries].sort().map((entry) => `${base}/${entry}`)]
+      .map((line) => `${line}\n`)
+      .join("");
+  }
+
+  const list = command.match(LIST_PROBE);
+  if (list) {
+    const names = filesUnder(state, trimSlash(list[1]))
+      .filter((relative) => !relative.includes("/"))
+      .sort();
+    return names.map((name) => `${name}\n`).join("");
+  }
+  return "";
+};
+
+const wrapMockDesktop = (state: MockDesktopState): Desktop => {
+  const recorded =
+    (method: string) =>
+    async (...args: unknown[]) => {
+      record(state, method, args);
+    };
+  const moveTo = (x: number, y: number) => {
+    state.cursor = { x, y };
+  };
+
+  return {
+    id: state.id,
+    screenshot: async () => {
+      record(state, "screenshot", []);
+      state.frame++;
+      return renderScreen(state);
+    },
+    moveMouse: async (x, y) => {
+      record(state, "moveMouse", [x, y]);
+      moveTo(x, y);
+    },
+    leftClick: recorded("leftClick"),
+    rightClick: recorded("rightClick"),
+    middleClick: recorded("middleClick"),
+    doubleClick: recorded("doubleClick"),
+    tripleClick: recorded("tripleClick"),
+    mousePress: recorded("mousePress"),
+    mouseRelease: recorded("mouseRelease"),
+    getCursorPosition: async () => {
+      record(state, "getCursorPosition", []);
+      return { ...state.cursor };
+    },
+    scroll: recorded("scroll"),
+    drag: async (from, to) => {
+      record(state, "drag", [from, to]);
+      moveTo(to[0], to[1]);
+    },
+    write: recorded("write"),
+    press: recorded("press"),
+    keyDown: recorded("keyDown"),
+    keyUp: recorded("keyUp"),
+    commands: {
+      run: async (command, options): Promise<DesktopCommandResult> => {
+        record(state, "commands.run", [command, options ?? {}]);
+        return {
+          stdout: answerCommand(state, command),
+          stderr: "",
+          exitCode: 0,
+        };
+      },
+      spawn: async (command, options) =>
+        spawnMockShell(state, command, options),
+    },
+    files: {
+      read: async (filePath) => {
+        record(state, "files.read", [filePath]);
+        const data = state.files.get(filePath);
+        if (!data) throw new Error(`No such file: ${filePath}`);
+        return data;
+      },
+      write: async (filePath, data) => {
+        record(state, "files.write", [filePath]);
+        state.files.set(
+          filePath,
+          typeof data === "string" ? new TextEncoder().encode(data) : data,
+        );
+      },
+    },
+    getStreamUrl: async () =>
+      `/api/mock-desktop?sandboxId=${encodeURIComponent(state.id)}`,
+    isRunning: async () => state.running,
+    keepAlive: async () => {},
+    kill: async () => {
+      record(state, "kill", []);
+      state.running = false;
+      desktops.delete(state.id);
+    },
+  };
+};
+
+export const createMockProvider = (): DesktopProvider => ({
+  name: "mock",
+  create: async ({ resolution }) => {
+    const [width, height] = resolution;
+    const state: MockDesktopState = {
+      id: `mock-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      width,
+      height,
+      cursor: { x: Math.round(width / 2), y: Math.round(height / 2) },
+      frame: 0,
+      files: new Map(),
+      log: [],
+      running: true,
+    };
+    desktops.set(state.id, state);
+    record(state, "create", [resolution]);
+    return wrapMockDesktop(state);
+  },
+  connect: async (id) => {
+    const state = desktops.get(id);
+    return state?.running ? wrapMockDesktop(state) : null;
+  },
+});
@@ -0,0 +1,81 @@
+export type MouseButton = "left" | "right" | "middle";
+
+export type ScrollDirection = "up" | "down" | "left" | "right";
+
+export type DesktopCommandOptions = {
+  timeoutMs?: number;
+  cwd?: string;
+  envs?: Record<string, string>;
+};
+
+export type DesktopCommandResult = {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+};
+
+export type DesktopSpawnOptions = DesktopCommandOptions & {
+  onStdout: (data: string) => void;
+  onStderr: (data: string) => void;
+  onExit: (exitCode: number) => void;
+};
+
+// A long-running process whose stdin stays open, e.g. a persistent shell.
+export type DesktopProcess = {
+  sendStdin: (data: string) => Promise<void>;
+  kill: () => Promise<void>;
+};
+
+export type Desktop = {
+  id: string;
+  screenshot: () => Promise<Uint8Array>;
+  moveMouse: (x: number, y: number) => Promise<void>;
+  leftClick: () => Promise<void>;
+  rightClick: () => Promise<void>;
+  middleClick: () => Promise<void>;
+  doubleClick: () => Promise<void>;
+  tripleClick: () => Promise<void>;
+  mousePress: (button?: MouseButton) => Promise<void>;
+  mouseRelease: (button?: MouseButton) => Promise<void>;
+  getCursorPosition: () => Promise<{ x: number; y: number }>;
+  scroll: (direction: ScrollDirection, amount: number) => Promise<void>;
+  drag: (from: [number, number], to: [number, number]) => Promise<void>;
+  write: (text: string) => Promise<void>;
+  press: (key: string) => Promise<void>;
+  // Keys use xdotool syntax, e.g. "shift" or "ctrl+alt".
+  keyDown: (key: string) => Promise<void>;
+  keyUp: (key: string) => Promise<void>;
+  commands: {
+    // Resolves for every exit code; only transport failures reject.
+    run: (
+      command: string,
+      options?: DesktopCommandOptions,
+    ) => Promise<DesktopCommandResult>;
+    spawn: (
+      command: string,
+      options: DesktopSpawnOptions,
+    ) => Promise<DesktopProcess>;
+  };
+  files: {
+    read: (path: string) => Promise<Uint8Array>;
+    // Creates missing parent directories.
+    write: (path: string, data: string | Uint8Array) => Promise<void>;
+  };
+  getStreamUrl: () => Promise<string>;
+  isRunning: () => Promise<boolean>;
+  // Pushes the provider's auto-shutdown back to `timeoutMs` from now.
+  keepAlive: (timeoutMs: number) => Promise<void>;
+  kill: () => Promise<void>;
+};
+
+export type DesktopCreateOptions = {
+  resolution: [number, number];
+  timeoutMs: number;
+};
+
+export type DesktopProvider = {
+  name: string;
+  create: (options: DesktopCreateOptions) => Promise<Desktop>;
+  // Returns null when the desktop no longer exists or has stopped.
+  connect: (id: string) => Promise<Desktop | null>;
+};
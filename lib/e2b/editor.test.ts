@@ -0,0 +1,228 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Desktop } from "@/lib/desktop";
+import { createMockProvider } from "@/lib/desktop/mock";
+import { runEditorCommand, type EditorArgs } from "./editor";
+
+const FILE = "/home/user/app.py";
+
+let desktop: Desktop;
+
+const run = (args: Omit<EditorArgs, "path"> & { path?: string }) =>
+  runEditorCommand(desktop, { path: FILE, ...args });
+
+const contents = async (path = FILE) =>
+  new TextDecoder().decode(await desktop.files.read(path));
+
+describe("runEditorCommand", () => {
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    desktop = await createMockProvider().create({
+      resolution: [64, 48],
+      timeoutMs: 60_000,
+    });
+    await desktop.files.write(FILE, "import os\n\ndef main():\n    pass");
+  });
+
+  describe("view", () => {
+    it("numbers the lines of a file", async () => {
+      expect(await run({ command: "view" })).toEqual({
+        type: "editor",
+        output:
+          "     1\timport os\n     2\t\n     3\tdef main():\n     4\t    pass",
+      });
+    });
+
+    it("shows a range of lines, to the end with -1", async () => {
+      expect((await run({ command: "view", view_range: [3, 4] })).output).toBe(
+        "     3\tdef main():\n     4\t    pass",
+      );
+      expect((await run({ command: "view", view_range: [4, -1] })).output).toBe(
+        "     4\t    pass",
+      );
+    });
+
+    it.each([
+      [[0, 2], "Invalid view_range [0,2]: the file has 4 lines."],
+      [[2, 9], "Invalid view_range [2,9]: the file has 4 lines."],
+      [[1], "view_range must contain exactly two integers."],
+    ])("rejects view_range %j", async (view_range, output) => {
+      expect(await run({ command: "view", view_range })).toEqual({
+        type: "editor",
+        output,
+        isError: true,
+      });
+    });
+
+    it("lists a directory but refuses a range on it", async () => {
+      expect((await run({ command: "view", path: "/home/user" })).output).toBe(
+        "Files and directories up to 2 levels deep in /home/user, excluding hidden items:\n/home/user\n/home/user/app.py\n",
+      );
+      expect(
+        await run({ command: "view", path: "/home/user", view_range: [1, 2] }),
+      ).toMatchObject({ isError: true });
+    });
+
+    it("rejects missing and relative paths", async () => {
+      expect(
+        await run({ command: "view", path: "/home/user/missing.py" }),
+      ).toMatchObject({
+        output: "The path /home/user/missing.py does not exist.",
+        isError: true,
+      });
+      expect(await run({ command: "view", path: "app.py" })).toMatchObject({
+        output: 'The path app.py is not absolute; it should start with "/".',
+        isError: true,
+      });
+    });
+  });
+
+  describe("create", () => {
+    it("writes a new file and shows it all as added", async () => {
+      const path = "/home/user/new.txt";
+      const result = await run({ command: "create", path, file_text: "a\nb" });
+
+      expect(result).toEqual({
+        type: "editor",
+        output: `File created successfully at: ${path}`,
+        diff: [
+          { type: "add", line: 1, text: "a" },
+          { type: "add", line: 2, text: "b" },
+        ],
+      });
+      expect(await contents(path)).toBe("a\nb");
+    });
+
+    it("requires file_text", async () => {
+      expect(await run({ command: "create" })).toMatchObject({
+        output: "file_text is required for the create command.",
+        isError: true,
+      });
+    });
+  });
+
+  describe("str_replace", () => {
+    it("replaces a unique string and shows the change", async () => {
+      const result = await run({
+        command: "str_replace",
+        old_str: "    pass",
+        new_str: "    print(os.getcwd())",
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.output).toContain(`The file ${FILE} has been edited.`);
+      expect(result.output).toContain("     4\t    print(os.getcwd())");
+      expect(result.diff).toContainEqual({
+        type: "remove",
+        line: 4,
+        text: "    pass",
+      });
+      expect(await contents()).toBe(
+        "import os\n\ndef main():\n    print(os.getcwd())",
+      );
+    });
+
+    it("treats replacement patterns in new_str literally", async () => {
+      await run({ command: "str_replace", old_str: "pass", new_str: "$&$&" });
+      expect(await contents()).toContain("    $&$&");
+    });
+
+    it("leaves the file alone when old_str does not match", async () => {
+      expect(
+        await run({ command: "str_replace", old_str: "missing", new_str: "" }),
+      ).toMatchObject({
+        output: `No replacement was performed, old_str did not appear verbatim in ${FILE}.`,
+        isError: true,
+      });
+      expect(await contents()).toBe("import os\n\ndef main():\n    pass");
+    });
+
+    it("names the lines when old_str matches more than once", async () => {
+      await desktop.files.write(FILE, "x = 1\ny = 2\nx = 1");
+
+      expect(
+        await run({ command: "str_replace", old_str: "x = 1", new_str: "" }),
+      ).toMatchObject({
+        output:
+          "No replacement was performed. Multiple occurrences of old_str in lines 1, 3. Please ensure it is unique.",
+        isError: true,
+      });
+      expect(await contents()).toBe("x = 1\ny = 2\nx = 1");
+    });
+
+    it("needs an existing file", async () => {
+      expect(
+        await run({
+          command: "str_replace",
+          path: "/home/user/missing.py",
+          old_str: "a",
+        }),
+      ).toMatchObject({
+        output: "The path /home/user/missing.py is not an existing file.",
+        isError: true,
+      });
+    });
+  });
+
+  describe("insert", () => {
+    it("inserts after the given line, including the first and last", async () => {
+      await run({
+        command: "insert",
+        insert_line: 0,
+        new_str: "#!/usr/bin/env python",
+      });
+      await run({ command: "insert", insert_line: 5, new_str: "main()" });
+
+      expect(await contents()).toBe(
+        "#!/usr/bin/env python\nimport os\n\ndef main():\n    pass\nmain()",
+      );
+    });
+
+    it("rejects a line past the end of the file", async () => {
+      expect(
+        await run({ command: "insert", insert_line: 5, new_str: "x" }),
+      ).toMatchObject({
+        output: "Invalid insert_line 5: it should be within [0, 4].",
+        isError: true,
+      });
+      expect(await contents()).toBe("import os\n\ndef main():\n    pass");
+    });
+  });
+
+  describe("undo_edit", () => {
+    it("undoes edits one at a time, newest first", async () => {
+      const original = await contents();
+      await run({ command: "str_replace", old_str: "pass", new_str: "return" });
+      await run({ command: "insert", insert_line: 4, new_str: "main()" });
+      await run({ command: "create", file_text: "rewritten" });
+
+      expect(await run({ command: "undo_edit" })).toMatchObject({
+        output: `Last edit to ${FILE} undone successfully.`,
+      });
+      expect(await contents()).toBe(
+        "import os\n\ndef main():\n    return\nmain()",
+      );
+      await run({ command: "undo_edit" });
+      expect(await contents()).toBe("import os\n\ndef main():\n    return");
+      await run({ command: "undo_edit" });
+      expect(await contents()).toBe(original);
+
+      expect(await run({ command: "undo_edit" })).toMatchObject({
+        output: `No edit history found for ${FILE}.`,
+        isError: true,
+      });
+    });
+
+    it("keeps history per desktop", async () => {
+      await run({ command: "str_replace", old_str: "pass", new_str: "return" });
+      desktop = await createMockProvider().create({
+        resolution: [64, 48],
+        timeoutMs: 60_000,
+      });
+      await desktop.files.write(FILE, "other");
+
+      expect(await run({ command: "undo_edit" })).toMatchObject({
+        isError: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import type { Desktop } from "@/lib/desktop";
+import type { DiffLine } from "@/lib/agent-events";
+import { shellQuote } from "@/lib/utils";
+
+export type EditorArgs = {
+  command: "view" | "create" | "str_replace" | "insert" | "undo_edit";
+  path: string;
+  file_text?: string;
+  insert_line?: number;
+  new_str?: string;
+  old_str?: string;
+  view_range?: number[];
+};
+
+export type EditorResult = {
+  type: "editor";
+  output: string;
+  isError?: boolean;
+  diff?: DiffLine[];
+};
+
+const SNIPPET_LINES = 4;
+const MAX_VIEW_CHARS = 20_000;
+const MAX_DIFF_LINES = 200;
+
+// Previous file contents per sandbox and path, for undo_edit.
+const history = new Map<string, Map<string, string[]>>();
+
+class EditorError extends Error {}
+
+const pushHistory = (desktop: Desktop, path: string, content: string) => {
+  const files = history.get(desktop.id) ?? new Map<string, string[]>();
+  files.set(path, [...(files.get(path) ?? []), content]);
+  history.set(desktop.id, files);
+};
+
+const pathKind = async (desktop: Desktop, path: string) => {
+  const result = await desktop.commands.run(
+    `if [ -d ${shellQuote(path)} ]; then echo dir; elif [ -e ${shellQuote(path)} ]; then echo file; else echo missing; fi`,
+  );
+  return result.stdout.trim() as "dir" | "file" | "missing";
+};
+
+const readText = async (desktop: Desktop, path: string) =>
+  new TextDecoder().decode(await desktop.files.read(path));
+
+const numberLines = (lines: string[], firstLine: number) =>
+  lines
+    .map((line, index) => `${String(firstLine + index).padStart(6)}\t${line}`)
+    .join("\n");
+
+// Shows the region that changed between two versions of a file. Common
+// leading and trailing lines are trimmed, which is exact for single edits.
+const diffLines = (before: string, after: string): DiffLine[] => {
+  const oldLines = before ? before.split("\n") : [];
+  const newLines = after ? after.split("\n") : [];
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const contextStart = Math.max(0, start - SNIPPET_LINES);
+  const contextEnd = Math.min(newLines.length, newEnd + SNIPPET_LINES);
+  const diff = [
+    ...newLines.slice(contextStart, start).map((text, index) => ({
+      type: "context" as const,
+      line: contextStart + index + 1,
+      text,
+    })),
+    ...oldLines.slice(start, oldEnd).map((text, index) => ({
+      type: "remove" as const,
+      line: start + index + 1,
+      text,
+    })),
+    ...newLines.slice(start, newEnd).map((text, index) => ({
+      type: "add" as const,
+      line: start + index + 1,
+      text,
+    })),
+    ...newLines.slice(newEnd, contextEnd).map((text, index) => ({
+      type: "context" as const,
+      line: newEnd + index + 1,
+      text,
+    })),
+  ];
+  return diff.slice(0, MAX_DIFF_LINES);
+};
+
+const snippet = (content: string, diff: DiffLine[]) => {
+  const lines = content.split("\n");
+  const touched = diff.filter((line) => line.type !== "remove");
+  const first = touched[0]?.line ?? 1;
+  const last = touched.at(-1)?.line ?? first;
+  return numberLines(lines.slice(first - 1, last), first);
+};
+
+const view = async (desktop: Desktop, args: EditorArgs) => {
+  const kind = await pathKind(desktop, args.path);
+  if (kind === "missing") {
+    throw new EditorError(`The path ${args.path} does not exist.`);
+  }
+  if (kind === "dir") {
+    if (args.view_range) {
+      throw new EditorError(
+        "The view_range parameter is not allowed when path points to a directory.",
+      );
+    }
+    const result = await desktop.commands.run(
+      `find ${shellQuote(args.path)} -maxdepth 2 -not -path '*/.*'`,
+    );
+    return `Files and directories up to 2 levels deep in ${args.path}, excluding hidden items:\n${result.stdout}`;
+  }
+
+  const lines = (await readText(desktop, args.path)).split("\n");
+  let [start, end] = [1, lines.length];
+  if (args.view_range) {
+    if (args.view_range.length !== 2) {
+      throw new EditorError("view_range must contain exactly two integers.");
+    }
+    [start, end] = args.view_range;
+    if (end === -1) end = lines.length;
+    if (
+      start < 1 ||
+      start > lines.length ||
+      end < start ||
+      end > lines.length
+    ) {
+      throw new EditorError(
+        `Invalid view_range ${JSON.stringify(args.view_range)}: the file has ${lines.length} lines.`,
+      );
+    }
+  }
+  const output = numberLines(lines.slice(start - 1, end), start);
+  return output.length > MAX_VIEW_CHARS
+    ? `${output.slice(0, MAX_VIEW_CHARS)}\n... (output truncated; use view_range to see more)`
+    : output;
+};
+
+const edit = async (
+  desktop: Desktop,
+  path: string,
+  update: (content: string) => string,
+): Promise<EditorResult> => {
+  if ((await pathKind(desktop, path)) !== "file") {
+    throw new EditorError(`The path ${path} is not an existing file.`);
+  }
+  const before = await readText(desktop, path);
+  const after = update(before);
+  await desktop.files.write(path, after);
+  pushHistory(desktop, path, before);
+  const diff = diffLines(before, after);
+  return {
+    type: "editor",
+    output: `The file ${path} has been edited. Snippet of the result:\n${snippet(after, diff)}`,
+    diff,
+  };
+};
+
+const execute = async (
+  desktop: Desktop,
+  args: EditorArgs,
+): Promise<EditorResult> => {
+  if (!args.path.startsWith("/")) {
+    throw new EditorError(
+      `The path ${args.path} is not absolute; it should start with "/".`,
+    );
+  }
+
+  switch (args.command) {
+    case "view":
+      return { type: "editor", output: await view(desktop, args) };
+    case "create": {
+      if (args.file_text === undefined) {
+        throw new EditorError("file_text is required for the create command.");
+      }
+      const kind = await pathKind(desktop, args.path);
+      if (kind === "dir") {
+        throw new EditorError(`The path ${args.path} is a directory.`);
+      }
+      const before = kind === "file" ? await readText(desktop, args.path) : "";
+      await desktop.files.write(args.path, args.file_text);
+      if (kind === "file") pushHistory(desktop, args.path, before);
+      return {
+        type: "editor",
+        output: `File created successfully at: ${args.path}`,
+        diff: diffLines(before, args.file_text),
+      };
+    }
+    case "str_replace": {
+      const { old_str, new_str = "" } = args;
+      if (!old_str) {
+        throw new EditorError(
+          "old_str is required for the str_replace command.",
+        );
+      }
+      return edit(desktop, args.path, (content) => {
+        const occurrences = content.split(old_str).length - 1;
+        if (occurrences === 0) {
+          throw new EditorError(
+            `No replacement was performed, old_str did not appear verbatim in ${args.path}.`,
+          );
+        }
+        if (occurrences > 1) {
+          const lines = content
+            .split("\n")
+            .flatMap((line, index) =>
+              line.includes(old_str) ? [index + 1] : [],
+            );
+          throw new EditorError(
+            `No replacement was performed. Multiple occurrences of old_str in lines ${lines.join(", ")}. Please ensure it is unique.`,
+          );
+        }
+        return content.replace(old_str, () => new_str);
+      });
+    }
+    case "insert": {
+      const { insert_line, new_str } = args;
+      if (insert_line === undefined || new_str === undefined) {
+        throw new EditorError(
+          "insert_line and new_str are required for the insert command.",
+        );
+      }
+      return edit(desktop, args.path, (content) => {
+        const lines = content.split("\n");
+        if (insert_line < 0 || insert_line > lines.length) {
+          throw new EditorError(
+            `Invalid insert_line ${insert_line}: it should be within [0, ${lines.length}].`,
+          );
+        }
+        lines.splice(insert_line, 0, ...new_str.split("\n"));
+        return lines.join("\n");
+      });
+    }
+    case "undo_edit": {
+      const previous = history.get(desktop.id)?.get(args.path);
+      const content = previous?.pop();
+      if (content === undefined) {
+        throw new EditorError(`No edit history found for ${args.path}.`);
+      }
+      const current = await readText(desktop, args.path);
+      await desktop.files.write(args.path, content);
+      return {
+        type: "editor",
+        output: `Last edit to ${args.path} undone successfully.`,
+        diff: diffLines(current, content),
+      };
+    }
+    default:
+      throw new EditorError(`Unrecognized command: ${args.command}`);
+  }
+};
+
+// Invalid requests come back to the model as error results instead of
+// failing the whole tool call.
+export const runEditorCommand = async (
+  desktop: Desktop,
+  args: EditorArgs,
+): Promise<EditorResult> => {
+  try {
+    return await execute(desktop, args);
+  } catch (error) {
+    if (!(error instanceof EditorError)) throw error;
+    return { type: "editor", output: error.message, isError: true };
+  }
+};
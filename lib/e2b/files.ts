@@ -0,0 +1,90 @@
+import { posix } from "node:path";
+import type { Desktop } from "@/lib/desktop";
+import { shellQuote } from "@/lib/utils";
+
+export const SANDBOX_HOME = "/home/user";
+export const UPLOAD_DIR = `${SANDBOX_HOME}/uploads`;
+export const DOWNLOADS_DIR = `${SANDBOX_HOME}/Downloads`;
+
+// Touched when a desktop is created; home files newer than it are treated as
+// artifacts the agent produced.
+const SESSION_MARKER = "/tmp/.computer-use-session-start";
+const MAX_ARTIFACTS = 200;
+
+export type SandboxFile = {
+  name: string;
+  path: string;
+  size: number;
+  modifiedAt: number;
+};
+
+export const markSessionStart = async (desktop: Desktop) => {
+  await desktop.commands.run(
+    `touch ${SESSION_MARKER} && mkdir -p ${UPLOAD_DIR} ${DOWNLOADS_DIR}`,
+  );
+};
+
+// Only paths inside the sandbox home can be downloaded.
+export const resolveSandboxPath = (path: string) => {
+  const resolved = posix.normalize(
+    path.startsWith("/") ? path : `${SANDBOX_HOME}/${path}`,
+  );
+  if (!resolved.startsWith(`${SANDBOX_HOME}/`)) {
+    throw new Error(`Path is outside ${SANDBOX_HOME}: ${path}`);
+  }
+  return resolved;
+};
+
+const uniqueName = (name: string, taken: Set<string>) => {
+  const base = posix.basename(name).replace(/[^\w.\- ]+/g, "_") || "file";
+  if (!taken.has(base)) return base;
+  const extension = posix.extname(base);
+  const stem = base.slice(0, base.length - extension.length);
+  for (let index = 1; ; index++) {
+    const candidate = `${stem}-${index}${extension}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+};
+
+export const uploadFiles = async (desktop: Desktop, files: File[]) => {
+  const existing = await desktop.commands.run(`ls -1 ${UPLOAD_DIR}`);
+  const taken = new Set(existing.stdout.split("\n").filter(Boolean));
+
+  const uploaded: SandboxFile[] = [];
+  for (const file of files) {
+    const name = uniqueName(file.name, taken);
+    taken.add(name);
+    const path = `${UPLOAD_DIR}/${name}`;
+    await desktop.files.write(path, new Uint8Array(await file.arrayBuffer()));
+    uploaded.push({ name, path, size: file.size, modifiedAt: Date.now() });
+  }
+  return uploaded;
+};
+
+export const listArtifacts = async (desktop: Desktop) => {
+  const format = `-printf '%s\\t%T@\\t%p\\n'`;
+  const result = await desktop.commands.run(
+    [
+      `find ${DOWNLOADS_DIR} -type f ${format} 2>/dev/null`,
+      `[ -e ${SESSION_MARKER} ] && find ${SANDBOX_HOME} -type f -newer ${SESSION_MARKER} ` +
+        `-not -path '*/.*' -not -path ${shellQuote(`${UPLOAD_DIR}/*`)} -not -path ${shellQuote(`${DOWNLOADS_DIR}/*`)} ${format} 2>/dev/null`,
+      "true",
+    ].join("; "),
+  );
+
+  return result.stdout
+    .split("\n")
+    .filter(Boolean)
+    .map((line): SandboxFile => {
+      const [size, modified, ...rest] = line.split("\t");
+      const path = rest.join("\t");
+      return {
+        name: posix.basename(path),
+        path,
+        size: Number(size),
+        modifiedAt: Math.round(Number(modified) * 1000),
+      };
+    })
+    .sort((a, b) => b.modifiedAt - a.modifiedAt)
+    .slice(0, MAX_ARTIFACTS);
+};
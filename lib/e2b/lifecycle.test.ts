@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getDesktopProvider } from "@/lib/desktop";
+import { heartbeatDesktop, killDesktop } from "./lifecycle";
+import { getSandbox, registerSandbox } from "./registry";
+
+const createDesktop = () =>
+  getDesktopProvider().create({ resolution: [64, 48], timeoutMs: 60_000 });
+
+describe("heartbeatDesktop", () => {
+  beforeAll(() => {
+    vi.stubEnv("DESKTOP_PROVIDER", "mock");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("tracks a desktop it doesn't know without an owner", async () => {
+    const desktop = await createDesktop();
+
+    expect(await heartbeatDesktop(desktop.id)).toBe(true);
+    expect(getSandbox(desktop.id)?.owner).toBeNull();
+  });
+
+  it("keeps the owner recorded when the desktop was created", async () => {
+    const desktop = await createDesktop();
+    registerSandbox(desktop.id, "client-a");
+
+    await heartbeatDesktop(desktop.id);
+    expect(getSandbox(desktop.id)?.owner).toBe("client-a");
+  });
+
+  it("forgets a desktop that is gone", async () => {
+    const desktop = await createDesktop();
+    registerSandbox(desktop.id, "client-a");
+    await killDesktop(desktop.id);
+
+    expect(await heartbeatDesktop(desktop.id)).toBe(false);
+    expect(getSandbox(desktop.id)).toBeUndefined();
+  });
+});
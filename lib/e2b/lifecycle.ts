@@ -0,0 +1,30 @@
+import { connectDesktop } from "./utils";
+import {
+  registerSandbox,
+  SANDBOX_TIMEOUT_MS,
+  unregisterSandbox,
+} from "./registry";
+
+// Server-only on purpose: as exports of the "use server" utils these would be
+// server actions any client could call, past the kill route's owner check.
+
+// Returns false once the desktop is gone so the client can stop pinging it.
+// Ownership is only taken when a desktop is created; a desktop the registry
+// doesn't know (after a restart, or one a run created) is tracked unowned.
+export const heartbeatDesktop = async (id: string) => {
+  const desktop = await connectDesktop(id);
+  if (!desktop) {
+    unregisterSandbox(id);
+    return false;
+  }
+  await desktop.keepAlive(SANDBOX_TIMEOUT_MS);
+  registerSandbox(id, null);
+  return true;
+};
+
+// Idempotent: killing a desktop that is already gone is a no-op.
+export const killDesktop = async (id: string) => {
+  unregisterSandbox(id);
+  const desktop = await connectDesktop(id);
+  await desktop?.kill();
+};
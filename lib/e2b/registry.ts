@@ -0,0 +1,76 @@
+import { getDesktopProvider } from "@/lib/desktop";
+
+// Provider-side lifetime of a desktop; every heartbeat pushes it back again.
+export const SANDBOX_TIMEOUT_MS = 300_000;
+// Desktops without a heartbeat or tool call for this long are killed.
+export const SANDBOX_IDLE_TIMEOUT_MS = Number(
+  process.env.SANDBOX_IDLE_TIMEOUT_MS ?? 120_000,
+);
+const REAP_INTERVAL_MS = 30_000;
+
+export type SandboxRecord = {
+  id: string;
+  owner: string | null;
+  createdAt: number;
+  lastHeartbeat: number;
+};
+
+// Kept on globalThis so dev-server reloads don't orphan tracked desktops.
+const registry = globalThis as typeof globalThis & {
+  __sandboxes?: Map<string, SandboxRecord>;
+  __sandboxReaper?: ReturnType<typeof setInterval>;
+};
+const sandboxes = (registry.__sandboxes ??= new Map());
+
+export const getSandbox = (id: string) => sandboxes.get(id);
+
+export const listSandboxes = () => Array.from(sandboxes.values());
+
+export const registerSandbox = (id: string, owner: string | null) => {
+  const now = Date.now();
+  const existing = sandboxes.get(id);
+  sandboxes.set(id, {
+    id,
+    owner: existing?.owner ?? owner,
+    createdAt: existing?.createdAt ?? now,
+    lastHeartbeat: now,
+  });
+  startReaper();
+};
+
+export const touchSandbox = (id: string) => {
+  const record = sandboxes.get(id);
+  if (record) record.lastHeartbeat = Date.now();
+};
+
+export const unregisterSandbox = (id: string) => {
+  sandboxes.delete(id);
+};
+
+const reapIdleSandboxes = async () => {
+  const cutoff = Date.now() - SANDBOX_IDLE_TIMEOUT_MS;
+  const idle = listSandboxes().filter(
+    (record) => record.lastHeartbeat < cutoff,
+  );
+
+  for (const record of idle) {
+    unregisterSandbox(record.id);
+    try {
+      const desktop = await getDesktopProvider().connect(record.id);
+      await desktop?.kill();
+      console.log(`Reaped idle desktop ${record.id}`);
+    } catch (error) {
+      console.error(`Failed to reap desktop ${record.id}`, error);
+    }
+  }
+};
+
+const startReaper = () => {
+  if (registry.__sandboxReaper) return;
+  registry.__sandboxReaper = setInterval(() => {
+    reapIdleSandboxes().catch((error) =>
+      console.error("Sandbox reaper failed:", error),
+    );
+  }, REAP_INTERVAL_MS);
+  registry.__sandboxReaper.unref?.();
+};
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockProvider } from "@/lib/desktop/mock";
+import type { DesktopProcess } from "@/lib/desktop/provider";
+import { formatBashResult, restartShell, runInShell } from "./shell";
+
+// What the shell prints for a command before the mock desktop answers its
+// markers; "hang" never answers, "exit" kills the shell mid-command.
+type Reply =
+  { stdout?: string; stderr?: string; exitCode?: number } | "hang" | "exit";
+
+const createDesktop = async (replies: Record<string, Reply> = {}) => {
+  const desktop = await createMockProvider().create({
+    resolution: [64, 48],
+    timeoutMs: 60_000,
+  });
+  const spawnShell = desktop.commands.spawn;
+  const spawn = vi
+    .spyOn(desktop.commands, "spawn")
+    .mockImplementation(async (command, options) => {
+      const shell = await spawnShell(command, options);
+      const sendStdin: DesktopProcess["sendStdin"] = async (data) => {
+        const reply = replies[data.slice(2, data.indexOf("\n} < /dev/null"))];
+        if (reply === "hang") return;
+        if (reply === "exit") return shell.kill();
+        if (reply?.stdout) options.onStdout(reply.stdout);
+        if (reply?.stderr) options.onStderr(reply.stderr);
+        if (reply?.exitCode === undefined) return shell.sendStdin(data);
+        const [, marker] = data.match(/(__BASH_DONE_\w+__) %d/)!;
+        options.onStdout(`\n${marker} ${reply.exitCode}\n`);
+        options.onStderr(`\n${marker}\n`);
+      };
+      return { ...shell, sendStdin };
+    });
+  return { desktop, spawn };
+};
+
+describe("runInShell", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("reads output up to the markers and keeps one shell per desktop", async () => {
+    const { desktop, spawn } = await createDesktop({
+      pwd: { stdout: "/home/user\n", stderr: "warning\n" },
+    });
+
+    expect(await runInShell(desktop, "pwd")).toEqual({
+      type: "bash",
+      stdout: "/home/user\n",
+      stderr: "warning\n",
+      exitCode: 0,
+    });
+    expect(await runInShell(desktop, "cd /tmp")).toMatchObject({
+      stdout: "",
+      exitCode: 0,
+    });
+    expect(spawn).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the command's exit code", async () => {
+    const { desktop } = await createDesktop({
+      false: { exitCode: 1 },
+      "ls /missing": { stderr: "No such file\n", exitCode: 2 },
+    });
+
+    expect(await runInShell(desktop, "false")).toMatchObject({ exitCode: 1 });
+    const result = await runInShell(desktop, "ls /missing");
+    expect(formatBashResult(result)).toBe(
+      "[stderr]\nNo such file\n[exit code: 2]",
+    );
+  });
+
+  it("restarts the shell after a command times out", async () => {
+    const { desktop, spawn } = await createDesktop({
+      "sleep 100": "hang",
+      pwd: { stdout: "/home/user\n" },
+    });
+
+    expect(await runInShell(desktop, "sleep 100", 20)).toMatchObject({
+      exitCode: -1,
+      timedOut: true,
+      stderr: "Command timed out after 0.02 seconds; the shell was restarted.",
+    });
+    expect(await runInShell(desktop, "pwd")).toMatchObject({
+      stdout: "/home/user\n",
+      exitCode: 0,
+    });
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+
+  it("starts a new shell after the old one exits", async () => {
+    const { desktop, spawn } = await createDesktop({ exit: "exit" });
+
+    expect(await runInShell(desktop, "exit")).toMatchObject({
+      stderr: "Shell exited; a new one will be started for the next command.",
+      exitCode: -1,
+    });
+    expect(await runInShell(desktop, "true")).toMatchObject({ exitCode: 0 });
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+
+  it("truncates long output", async () => {
+    const { desktop } = await createDesktop({
+      "yes | head": { stdout: "y".repeat(25_000) },
+    });
+
+    const { stdout } = await runInShell(desktop, "yes | head");
+    expect(stdout).toBe(
+      `${"y".repeat(20_000)}\n... (5000 characters truncated)`,
+    );
+  });
+
+  it("shares shells with other instances of the module", async () => {
+    const { desktop, spawn } = await createDesktop();
+    await runInShell(desktop, "cd /tmp");
+
+    vi.resetModules();
+    const shell = await import("./shell");
+    await shell.runInShell(desktop, "pwd");
+    expect(spawn).toHaveBeenCalledTimes(1);
+  });
+
+  it("restarts on request", async () => {
+    const { desktop, spawn } = await createDesktop();
+
+    await runInShell(desktop, "cd /tmp");
+    await restartShell(desktop);
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,183 @@
+import type { Desktop } from "@/lib/desktop";
+import type { DesktopProcess } from "@/lib/desktop/provider";
+
+export const BASH_TIMEOUT_MS = 120_000;
+const MAX_OUTPUT_CHARS = 20_000;
+
+export type BashResult = {
+  type: "bash";
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut?: boolean;
+};
+
+type ShellOutput = {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  onChange: () => void;
+};
+
+type ShellSession = ShellOutput & { process: DesktopProcess };
+
+// One long-lived bash per sandbox so cwd, exported variables and background
+// jobs carry over between tool calls. Commands on a shell run one at a time.
+// Kept on globalThis so route handlers and server actions share one shell.
+const store = globalThis as typeof globalThis & {
+  __shellSessions?: Map<string, Promise<ShellSession>>;
+  __shellQueues?: Map<string, Promise<unknown>>;
+};
+const sessions = (store.__shellSessions ??= new Map());
+const queues = (store.__shellQueues ??= new Map());
+
+const startShell = async (desktop: Desktop): Promise<ShellSession> => {
+  const output: ShellOutput = {
+    stdout: "",
+    stderr: "",
+    exitCode: null,
+    onChange: () => {},
+  };
+
+  const process = await desktop.commands.spawn("exec bash --noprofile --norc", {
+    timeoutMs: 0,
+    onStdout: (data) => {
+      output.stdout += data;
+      output.onChange();
+    },
+    onStderr: (data) => {
+      output.stderr += data;
+      output.onChange();
+    },
+    onExit: (exitCode) => {
+      output.exitCode = exitCode;
+      output.onChange();
+    },
+  });
+  return Object.assign(output, { process });
+};
+
+const getShell = async (desktop: Desktop) => {
+  const existing = await sessions.get(desktop.id)?.catch(() => null);
+  if (existing && existing.exitCode === null) return existing;
+  const started = startShell(desktop);
+  sessions.set(desktop.id, started);
+  return started;
+};
+
+const killShell = async (desktop: Desktop) => {
+  const existing = await sessions.get(desktop.id)?.catch(() => null);
+  sessions.delete(desktop.id);
+  await existing?.process.kill().catch(() => undefined);
+};
+
+// Serializes work on a sandbox's shell behind any command still running.
+const enqueue = <T>(desktop: Desktop, task: () => Promise<T>) => {
+  const previous = queues.get(desktop.id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  queues.set(desktop.id, next);
+  return next;
+};
+
+export const restartShell = (desktop: Desktop) =>
+  enqueue(desktop, async () => {
+    await killShell(desktop);
+    await getShell(desktop);
+  });
+
+const truncate = (output: string) =>
+  output.length > MAX_OUTPUT_CHARS
+    ? `${output.slice(0, MAX_OUTPUT_CHARS)}\n... (${output.length - MAX_OUTPUT_CHARS} characters truncated)`
+    : output;
+
+const execute = async (
+  desktop: Desktop,
+  command: string,
+  timeoutMs: number,
+): Promise<BashResult> => {
+  const session = await getShell(desktop);
+  const marker = `__BASH_DONE_${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2)}__`;
+  session.stdout = "";
+  session.stderr = "";
+
+  // The group reads from /dev/null so interactive commands cannot swallow
+  // the markers written after them.
+  await session.process.sendStdin(
+    `{ ${command}\n} < /dev/null\n` +
+      `printf '\\n${marker} %d\\n' "$?"\n` +
+      `printf '\\n${marker}\\n' >&2\n`,
+  );
+
+  const finished = await new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => resolve(false), timeoutMs);
+    session.onChange = () => {
+      const done =
+        session.exitCode !== null ||
+        (session.stdout.includes(`\n${marker} `) &&
+          session.stderr.includes(`\n${marker}\n`));
+      if (!done) return;
+      clearTimeout(timer);
+      session.onChange = () => {};
+      resolve(true);
+    };
+    session.onChange();
+  });
+
+  const stdoutEnd = session.stdout.indexOf(`\n${marker} `);
+  const stderrEnd = session.stderr.indexOf(`\n${marker}\n`);
+  const stdout =
+    stdoutEnd >= 0 ? session.stdout.slice(0, stdoutEnd) : session.stdout;
+  const stderr =
+    stderrEnd >= 0 ? session.stderr.slice(0, stderrEnd) : session.stderr;
+
+  if (!finished) {
+    // The shell is stuck on the command; drop it so the next call starts fresh.
+    await killShell(desktop);
+    return {
+      type: "bash",
+      stdout: truncate(stdout),
+      stderr: truncate(
+        `${stderr}${stderr ? "\n" : ""}Command timed out after ${timeoutMs / 1000} seconds; the shell was restarted.`,
+      ),
+      exitCode: -1,
+      timedOut: true,
+    };
+  }
+
+  if (stdoutEnd < 0) {
+    return {
+      type: "bash",
+      stdout: truncate(stdout),
+      stderr: truncate(
+        `${stderr}${stderr ? "\n" : ""}Shell exited; a new one will be started for the next command.`,
+      ),
+      exitCode: session.exitCode ?? -1,
+    };
+  }
+
+  const exitCode = Number(
+    session.stdout.slice(stdoutEnd + marker.length + 2).split("\n")[0],
+  );
+  return {
+    type: "bash",
+    stdout: truncate(stdout),
+    stderr: truncate(stderr),
+    exitCode: Number.isFinite(exitCode) ? exitCode : -1,
+  };
+};
+
+export const runInShell = (
+  desktop: Desktop,
+  command: string,
+  timeoutMs: number = BASH_TIMEOUT_MS,
+) => enqueue(desktop, () => execute(desktop, command, timeoutMs));
+
+export const formatBashResult = (result: BashResult) => {
+  const sections = [result.stdout.trimEnd()];
+  if (result.stderr.trim())
+    sections.push(`[stderr]\n${result.stderr.trimEnd()}`);
+  sections.push(`[exit code: ${result.exitCode}]`);
+  return sections.filter(Boolean).join("\n");
+};
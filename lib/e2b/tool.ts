@@ -1,149 +1,451 @@
 import { anthropic } from "@ai-sdk/anthropic";
-import { getDesktop } from "./utils";
+import { trace } from "@opentelemetry/api";
+import type { ToolExecutionOptions } from "ai";
+import {
+  deriveStatusFromResult,
+  normalizeToolName,
+  parseToolPayload,
+  parseToolResult,
+} from "@/lib/agent-events";
+import type { ApprovalGate } from "@/lib/approvals/types";
+import type { Desktop } from "@/lib/desktop";
+import type { EventPublisher } from "@/lib/events/bus";
+import {
+  checkToolCall,
+  formatViolation,
+  takeRateLimit,
+  type PolicyViolation,
+} from "@/lib/guardrails/enforce";
+import { getGuardrailPolicy } from "@/lib/guardrails/policy";
+import { getModel, type ModelConfig } from "@/lib/models";
+import { toolSpanAttributes, withSpan } from "@/lib/telemetry/tracer";
+import {
+  timeToolCall,
+  type TimingRecorder,
+  type ToolTiming,
+} from "@/lib/tool-timings";
+import { runEditorCommand, type EditorArgs, type EditorResult } from "./editor";
+import {
+  formatBashResult,
+  restartShell,
+  runInShell,
+  type BashResult,
+} from "./shell";
+import { getDesktop, requireDesktop } from "./utils";
+
+// Without an id the call gets a new desktop; with one it must still exist.
+const toolDesktop = (sandboxId: string | undefined, model: ModelConfig) =>
+  sandboxId
+    ? requireDesktop(sandboxId)
+    : getDesktop(undefined, undefined, model.resolution);
 
 const wait = async (seconds: number) => {
   await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
 };
 
-export const resolution = { x: 1024, y: 768 };
+const MAX_WAIT_SECONDS = 2;
 
-export const computerTool = (sandboxId: string) =>
-  anthropic.tools.computer_20250124({
-    displayWidthPx: resolution.x,
-    displayHeightPx: resolution.y,
-    displayNumber: 1,
-    execute: async ({
-      action,
-      coordinate,
-      text,
-      duration,
-      scroll_amount,
-      scroll_direction,
-      start_coordinate,
-    }) => {
-      const desktop = await getDesktop(sandboxId);
-
-      switch (action) {
-        case "screenshot": {
-          const image = await desktop.screenshot();
-          // Convert image data to base64 immediately
-          const base64Data = Buffer.from(image).toString("base64");
-          return {
-            type: "image" as const,
-            data: base64Data,
-          };
-        }
-        case "wait": {
-          if (!duration) throw new Error("Duration required for wait action");
-          const actualDuration = Math.min(duration, 2);
-          await wait(actualDuration);
-          return {
-            type: "text" as const,
-            text: `Waited for ${actualDuration} seconds`,
-          };
-        }
-        case "left_click": {
-          if (!coordinate)
-            throw new Error("Coordinate required for left click action");
-          const [x, y] = coordinate;
-          await desktop.moveMouse(x, y);
-          await desktop.leftClick();
-          return { type: "text" as const, text: `Left clicked at ${x}, ${y}` };
-        }
-        case "double_click": {
-          if (!coordinate)
-            throw new Error("Coordinate required for double click action");
-          const [x, y] = coordinate;
-          await desktop.moveMouse(x, y);
-          await desktop.doubleClick();
-          return {
-            type: "text" as const,
-            text: `Double clicked at ${x}, ${y}`,
-          };
-        }
-        case "right_click": {
-          if (!coordinate)
-            throw new Error("Coordinate required for right click action");
-          const [x, y] = coordinate;
-          await desktop.moveMouse(x, y);
-          await desktop.rightClick();
-          return { type: "text" as const, text: `Right clicked at ${x}, ${y}` };
-        }
-        case "mouse_move": {
-          if (!coordinate)
-            throw new Error("Coordinate required for mouse move action");
-          const [x, y] = coordinate;
-          await desktop.moveMouse(x, y);
-          return { type: "text" as const, text: `Moved mouse to ${x}, ${y}` };
-        }
-        case "type": {
-          if (!text) throw new Error("Text required for type action");
-          await desktop.write(text);
-          return { type: "text" as const, text: `Typed: ${text}` };
-        }
-        case "key": {
-          if (!text) throw new Error("Key required for key action");
-          await desktop.press(text === "Return" ? "enter" : text);
-          return { type: "text" as const, text: `Pressed key: ${text}` };
-        }
-        case "scroll": {
-          if (!scroll_direction)
-            throw new Error("Scroll direction required for scroll action");
-          if (!scroll_amount)
-            throw new Error("Scroll amount required for scroll action");
-
-          await desktop.scroll(
-            scroll_direction as "up" | "down",
-            scroll_amount,
-          );
-          return { type: "text" as const, text: `Scrolled ${text}` };
-        }
-        case "left_click_drag": {
-          if (!start_coordinate || !coordinate)
-            throw new Error("Coordinate required for mouse move action");
-          const [startX, startY] = start_coordinate;
-          const [endX, endY] = coordinate;
-
-          await desktop.drag([startX, startY], [endX, endY]);
-          return {
-            type: "text" as const,
-            text: `Dragged mouse from ${startX}, ${startY} to ${endX}, ${endY}`,
-          };
-        }
-        default:
-          throw new Error(`Unsupported action: ${action}`);
+// Clicks and scrolls may carry a key combination in `text` to hold down
+// (e.g. "shift" for shift+click); release it even if the action fails.
+const withHeldKeys = async (
+  desktop: Desktop,
+  keys: string | undefined,
+  run: () => Promise<void>,
+) => {
+  if (!keys) return run();
+  await desktop.keyDown(keys);
+  try {
+    await run();
+  } finally {
+    await desktop.keyUp(keys);
+  }
+};
+
+const describeTarget = (coordinate?: [number, number]) =>
+  coordinate ? ` at ${coordinate[0]}, ${coordinate[1]}` : "";
+
+const describeKeys = (keys?: string) => (keys ? ` holding ${keys}` : "");
+
+// Union of the arguments of every computer tool version. The 20241022 tool
+// sends untyped coordinate arrays and drags from the current cursor position.
+type ComputerArgs = {
+  action: string;
+  coordinate?: number[];
+  text?: string;
+  duration?: number;
+  scroll_amount?: number;
+  scroll_direction?: "up" | "down" | "left" | "right";
+  start_coordinate?: number[];
+};
+
+type ComputerResult =
+  { type: "image"; data: string } | { type: "text"; text: string };
+
+type BashToolResult = BashResult | { type: "text"; text: string } | string;
+
+// Returned instead of running a call the reviewer rejected.
+type RejectedResult = { type: "rejected"; text: string };
+
+// Calls stopped by a reviewer or the guardrail policy before they ran.
+type HaltedResult = RejectedResult | PolicyViolation;
+
+const isHalted = (result: unknown): result is HaltedResult => {
+  if (typeof result !== "object" || result === null) return false;
+  const { type } = result as { type?: unknown };
+  return type === "rejected" || type === "policy-violation";
+};
+
+// Calls must pass the guardrail policy and, with a gate, be approved; only
+// then do the (possibly edited) arguments reach `execute`, which is timed.
+const guarded =
+  <Args extends object, Result>(
+    toolName: string,
+    sandboxId: string | undefined,
+    gate: ApprovalGate | undefined,
+    recordTiming: TimingRecorder | undefined,
+    publish: EventPublisher | undefined,
+    execute: (args: Args) => Promise<Result>,
+  ) =>
+  async (
+    args: Args,
+    // Provider tool types only declare abortSignal; the SDK passes the id too.
+    {
+      toolCallId = crypto.randomUUID(),
+      abortSignal,
+    }: Partial<ToolExecutionOptions>,
+  ): Promise<Result | HaltedResult> => {
+    const startedAt = Date.now();
+    publish?.({
+      type: "call",
+      event: {
+        id: toolCallId,
+        toolName: normalizeToolName(toolName),
+        timestamp: startedAt,
+        status: "running",
+        payload: parseToolPayload(toolName, args),
+      },
+    });
+    // Calls that never ran finish with what stopped them.
+    const halt = (result: HaltedResult) => {
+      trace.getActiveSpan()?.setAttribute("tool.halted", result.type);
+      publish?.({
+        type: "result",
+        id: toolCallId,
+        status: deriveStatusFromResult(result),
+        durationMs: Date.now() - startedAt,
+        result,
+      });
+      return result;
+    };
+
+    const policy = getGuardrailPolicy();
+    let approved = args as Record<string, unknown>;
+    const violation = checkToolCall(policy, toolName, approved);
+    if (violation) return halt(violation);
+
+    if (gate) {
+      const outcome = await gate(
+        { toolName, toolCallId, args: approved },
+        abortSignal,
+      );
+      if (!outcome.approved) {
+        return halt({ type: "rejected", text: outcome.text });
       }
-    },
-    experimental_toToolResultContent(result) {
-      if (typeof result === "string") {
-        return [{ type: "text", text: result }];
+      // Edits made during review must pass the policy too.
+      if (outcome.args !== approved) {
+        const edited = checkToolCall(policy, toolName, outcome.args);
+        if (edited) return halt(edited);
       }
-      if (result.type === "image" && result.data) {
-        return [
+      approved = outcome.args;
+    }
+
+    const limited = takeRateLimit(policy, sandboxId ?? "default", toolName);
+    if (limited) return halt(limited);
+
+    let timing: ToolTiming | undefined;
+    const record = (measured: ToolTiming) => {
+      timing = measured;
+      recordTiming?.(measured);
+    };
+    try {
+      // A cancelled request or run must not touch the desktop any more.
+      abortSignal?.throwIfAborted();
+      const result = await timeToolCall(toolCallId, record, () =>
+        withSpan(
+          `tool.${toolName}`,
           {
-            type: "image",
-            data: result.data,
-            mimeType: "image/png",
+            ...toolSpanAttributes(toolName, approved),
+            "tool.call_id": toolCallId,
+            "sandbox.id": sandboxId,
           },
-        ];
-      }
-      if (result.type === "text" && result.text) {
-        return [{ type: "text", text: result.text }];
-      }
-      throw new Error("Invalid result format");
-    },
-  });
+          () => execute(approved as Args),
+        ),
+      );
+      const parsed = parseToolResult(result);
+      publish?.({
+        type: "result",
+        id: toolCallId,
+        status: deriveStatusFromResult(parsed),
+        durationMs: timing?.durationMs ?? 0,
+        result: parsed,
+      });
+      return result;
+    } catch (error) {
+      publish?.({
+        type: "error",
+        id: toolCallId,
+        durationMs: timing?.durationMs ?? 0,
+        error:
+          timing?.error ??
+          (error instanceof Error ? error.message : String(error)),
+      });
+      throw error;
+    }
+  };
 
-export const bashTool = (sandboxId?: string) =>
-  anthropic.tools.bash_20250124({
-    execute: async ({ command }) => {
-      const desktop = await getDesktop(sandboxId);
+const haltable =
+  <Result, Content>(toContent: (result: Result) => Content) =>
+  (result: Result | HaltedResult) => {
+    if (!isHalted(result)) return toContent(result);
+    const text =
+      result.type === "rejected" ? result.text : formatViolation(result);
+    return [{ type: "text" as const, text }];
+  };
 
-      try {
-        const result = await desktop.commands.run(command);
-        return (
-          result.stdout || "(Command executed successfully with no output)"
+const asPoint = (value?: number[]): [number, number] | undefined =>
+  value ? [value[0], value[1]] : undefined;
+
+const performComputerAction = async (
+  desktop: Desktop,
+  model: ModelConfig,
+  args: ComputerArgs,
+): Promise<ComputerResult> => {
+  const { action, text, duration, scroll_amount, scroll_direction } = args;
+  const coordinate = asPoint(args.coordinate);
+
+  const moveTo = async () => {
+    if (!coordinate) return;
+    await desktop.moveMouse(coordinate[0], coordinate[1]);
+  };
+
+  const click = async (label: string, press: () => Promise<void>) => {
+    await moveTo();
+    await withHeldKeys(desktop, text, press);
+    return {
+      type: "text" as const,
+      text: `${label}${describeTarget(coordinate)}${describeKeys(text)}`,
+    };
+  };
+
+  switch (action) {
+    case "screenshot": {
+      const image = await desktop.screenshot();
+      // Convert image data to base64 immediately
+      const base64Data = Buffer.from(image).toString("base64");
+      return {
+        type: "image" as const,
+        data: base64Data,
+      };
+    }
+    case "wait": {
+      if (!duration) throw new Error("Duration required for wait action");
+      const actualDuration = Math.min(duration, MAX_WAIT_SECONDS);
+      await wait(actualDuration);
+      return {
+        type: "text" as const,
+        text: `Waited for ${actualDuration} seconds`,
+      };
+    }
+    case "left_click":
+      return click("Left clicked", () => desktop.leftClick());
+    case "double_click":
+      return click("Double clicked", () => desktop.doubleClick());
+    case "triple_click":
+      return click("Triple clicked", () => desktop.tripleClick());
+    case "right_click":
+      return click("Right clicked", () => desktop.rightClick());
+    case "middle_click":
+      return click("Middle clicked", () => desktop.middleClick());
+    case "left_mouse_down": {
+      await moveTo();
+      await desktop.mousePress("left");
+      return {
+        type: "text" as const,
+        text: `Pressed left mouse button${describeTarget(coordinate)}`,
+      };
+    }
+    case "left_mouse_up": {
+      await moveTo();
+      await desktop.mouseRelease("left");
+      return {
+        type: "text" as const,
+        text: `Released left mouse button${describeTarget(coordinate)}`,
+      };
+    }
+    case "mouse_move": {
+      if (!coordinate)
+        throw new Error("Coordinate required for mouse move action");
+      const [x, y] = coordinate;
+      await desktop.moveMouse(x, y);
+      return { type: "text" as const, text: `Moved mouse to ${x}, ${y}` };
+    }
+    case "cursor_position": {
+      const { x, y } = await desktop.getCursorPosition();
+      return { type: "text" as const, text: `Cursor is at ${x}, ${y}` };
+    }
+    case "type": {
+      if (!text) throw new Error("Text required for type action");
+      await desktop.write(text);
+      return { type: "text" as const, text: `Typed: ${text}` };
+    }
+    case "key": {
+      if (!text) throw new Error("Key required for key action");
+      await desktop.press(text === "Return" ? "enter" : text);
+      return { type: "text" as const, text: `Pressed key: ${text}` };
+    }
+    case "hold_key": {
+      if (!text) throw new Error("Key required for hold key action");
+      if (!duration) throw new Error("Duration required for hold key action");
+      const actualDuration = Math.min(duration, MAX_WAIT_SECONDS);
+      await withHeldKeys(desktop, text, () => wait(actualDuration));
+      return {
+        type: "text" as const,
+        text: `Held ${text} for ${actualDuration} seconds`,
+      };
+    }
+    case "scroll": {
+      if (!scroll_direction)
+        throw new Error("Scroll direction required for scroll action");
+      if (!scroll_amount)
+        throw new Error("Scroll amount required for scroll action");
+
+      await moveTo();
+      await withHeldKeys(desktop, text, () =>
+        desktop.scroll(scroll_direction, scroll_amount),
+      );
+      return {
+        type: "text" as const,
+        text: `Scrolled ${scroll_direction} by ${scroll_amount}${describeTarget(coordinate)}${describeKeys(text)}`,
+      };
+    }
+    case "left_click_drag": {
+      const start_coordinate =
+        asPoint(args.start_coordinate) ??
+        (model.computerUseVersion === "20241022"
+          ? await desktop
+              .getCursorPosition()
+              .then(({ x, y }): [number, number] => [x, y])
+          : undefined);
+      if (!start_coordinate || !coordinate)
+        throw new Error(
+          "Start coordinate and coordinate required for drag action",
         );
+      const [startX, startY] = start_coordinate;
+      const [endX, endY] = coordinate;
+
+      await desktop.drag([startX, startY], [endX, endY]);
+      return {
+        type: "text" as const,
+        text: `Dragged mouse from ${startX}, ${startY} to ${endX}, ${endY}`,
+      };
+    }
+    default:
+      throw new Error(`Unsupported action: ${action}`);
+  }
+};
+
+// Connecting and acting are separate spans, e.g. `desktop.connect` then
+// `desktop.screenshot`.
+const runComputerAction = async (
+  sandboxId: string,
+  model: ModelConfig,
+  args: ComputerArgs,
+) => {
+  const desktop = await toolDesktop(sandboxId, model);
+  return withSpan(`desktop.${args.action}`, {}, () =>
+    performComputerAction(desktop, model, args),
+  );
+};
+
+const computerResultContent = (result: ComputerResult) => {
+  if (result.type === "image" && result.data) {
+    return [
+      {
+        type: "image" as const,
+        data: result.data,
+        mimeType: "image/png",
+      },
+    ];
+  }
+  if (result.type === "text" && result.text) {
+    return [{ type: "text" as const, text: result.text }];
+  }
+  throw new Error("Invalid result format");
+};
+
+// Picks the tool version the model was trained with.
+export const computerTool = (
+  sandboxId: string,
+  model: ModelConfig = getModel(),
+  gate?: ApprovalGate,
+  recordTiming?: TimingRecorder,
+  publish?: EventPublisher,
+) => {
+  const options = {
+    displayWidthPx: model.resolution.x,
+    displayHeightPx: model.resolution.y,
+    displayNumber: 1,
+    execute: guarded(
+      "computer",
+      sandboxId,
+      gate,
+      recordTiming,
+      publish,
+      (args: ComputerArgs) => runComputerAction(sandboxId, model, args),
+    ),
+    experimental_toToolResultContent: haltable(computerResultContent),
+  };
+  return model.computerUseVersion === "20241022"
+    ? anthropic.tools.computer_20241022(options)
+    : anthropic.tools.computer_20250124(options);
+};
+
+const bashOptions = (
+  sandboxId: string | undefined,
+  model: ModelConfig,
+  gate?: ApprovalGate,
+  recordTiming?: TimingRecorder,
+  publish?: EventPublisher,
+) => ({
+  execute: guarded(
+    "bash",
+    sandboxId,
+    gate,
+    recordTiming,
+    publish,
+    async ({
+      command,
+      restart,
+    }: {
+      command: string;
+      restart?: boolean;
+    }): Promise<BashToolResult> => {
+      const desktop = await toolDesktop(sandboxId, model);
+
+      try {
+        if (restart) {
+          await restartShell(desktop);
+          return { type: "text" as const, text: "Bash session restarted" };
+        }
+        return await withSpan("desktop.command", {}, async (span) => {
+          const result = await runInShell(
+            desktop,
+            command,
+            getGuardrailPolicy().maxCommandRuntimeSeconds * 1000,
+          );
+          span.setAttribute("bash.exit_code", result.exitCode);
+          return result;
+        });
       } catch (error) {
         console.error("Bash command failed:", error);
         if (error instanceof Error) {
@@ -153,4 +455,84 @@ export const bashTool = (sandboxId?: string) =>
         }
       }
     },
-  });
+  ),
+  experimental_toToolResultContent: haltable((result: BashToolResult) => {
+    if (typeof result === "string") {
+      return [{ type: "text" as const, text: result }];
+    }
+    if (result.type === "text") {
+      return [{ type: "text" as const, text: result.text }];
+    }
+    return [{ type: "text" as const, text: formatBashResult(result) }];
+  }),
+});
+
+export const bashTool = (
+  sandboxId?: string,
+  model: ModelConfig = getModel(),
+  gate?: ApprovalGate,
+  recordTiming?: TimingRecorder,
+  publish?: EventPublisher,
+) =>
+  model.computerUseVersion === "20241022"
+    ? anthropic.tools.bash_20241022(
+        bashOptions(sandboxId, model, gate, recordTiming, publish),
+      )
+    : anthropic.tools.bash_20250124(
+        bashOptions(sandboxId, model, gate, recordTiming, publish),
+      );
+
+const editorOptions = (
+  sandboxId: string | undefined,
+  model: ModelConfig,
+  gate?: ApprovalGate,
+  recordTiming?: TimingRecorder,
+  publish?: EventPublisher,
+) => ({
+  execute: guarded(
+    "str_replace_editor",
+    sandboxId,
+    gate,
+    recordTiming,
+    publish,
+    async (args: EditorArgs): Promise<EditorResult> => {
+      const desktop = await toolDesktop(sandboxId, model);
+
+      try {
+        return await withSpan("desktop.editor", {}, () =>
+          runEditorCommand(desktop, args),
+        );
+      } catch (error) {
+        console.error("Editor command failed:", error);
+        return {
+          type: "editor" as const,
+          output: `Error running ${args.command}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          isError: true,
+        };
+      }
+    },
+  ),
+  experimental_toToolResultContent: haltable((result: EditorResult) => [
+    {
+      type: "text" as const,
+      text: result.isError ? `Error: ${result.output}` : result.output,
+    },
+  ]),
+});
+
+export const editorTool = (
+  sandboxId?: string,
+  model: ModelConfig = getModel(),
+  gate?: ApprovalGate,
+  recordTiming?: TimingRecorder,
+  publish?: EventPublisher,
+) =>
+  model.computerUseVersion === "20241022"
+    ? anthropic.tools.textEditor_20241022(
+        editorOptions(sandboxId, model, gate, recordTiming, publish),
+      )
+    : anthropic.tools.textEditor_20250124(
+        editorOptions(sandboxId, model, gate, recordTiming, publish),
+      );
@@ -1,44 +1,101 @@
 "use server";
 
-import { Sandbox } from "@e2b/desktop";
-import { resolution } from "./tool";
+import { getDesktopProvider } from "@/lib/desktop";
+import { syncBrowserGuardrails } from "@/lib/guardrails/browser";
+import { getGuardrailPolicy } from "@/lib/guardrails/policy";
+import { markSessionStart } from "./files";
+import { registerSandbox, SANDBOX_TIMEOUT_MS, touchSandbox } from "./registry";
+import { getModel, type ModelConfig } from "@/lib/models";
+import { withSpan } from "@/lib/telemetry/tracer";
 
-export const getDesktop = async (id?: string) => {
+export const getDesktop = async (
+  id?: string,
+  owner?: string,
+  resolution: ModelConfig["resolution"] = getModel().resolution,
+) => {
   try {
+    const provider = getDesktopProvider();
     if (id) {
-      const connected = await Sandbox.connect(id);
-      const isRunning = await connected.isRunning();
-      if (isRunning) {
-        // await connected.stream.start();
+      const connected = await withSpan(
+        "desktop.connect",
+        { "sandbox.id": id },
+        () => provider.connect(id),
+      );
+      if (connected) {
+        touchSandbox(connected.id);
+        await syncBrowserGuardrails(connected, getGuardrailPolicy());
         return connected;
       }
     }
 
-    const desktop = await Sandbox.create({
-      resolution: [resolution.x, resolution.y], // Custom resolution
-      timeoutMs: 300000, // Container timeout in milliseconds
-    });
-    await desktop.stream.start();
-    return desktop;
+    return await withSpan(
+      "desktop.create",
+      { "desktop.resolution": [resolution.x, resolution.y] },
+      async (span) => {
+        const desktop = await provider.create({
+          resolution: [resolution.x, resolution.y], // Custom resolution
+          timeoutMs: SANDBOX_TIMEOUT_MS, // Container timeout in milliseconds
+        });
+        span.setAttribute("sandbox.id", desktop.id);
+        registerSandbox(desktop.id, owner ?? null);
+        await markSessionStart(desktop);
+        await syncBrowserGuardrails(desktop, getGuardrailPolicy());
+        return desktop;
+      },
+    );
   } catch (error) {
     console.error("Error in getDesktop:", error);
     throw error;
   }
 };
 
-export const getDesktopURL = async (id?: string) => {
+// For tool calls on a known desktop: one that has gone away is an error, not
+// a reason to carry on in a blank desktop under another id.
+export const requireDesktop = async (id: string) => {
+  const desktop = await withSpan("desktop.connect", { "sandbox.id": id }, () =>
+    getDesktopProvider().connect(id),
+  );
+  if (!desktop) throw new Error(`Desktop ${id} is no longer running`);
+  touchSandbox(desktop.id);
+  await syncBrowserGuardrails(desktop, getGuardrailPolicy());
+  return desktop;
+};
+
+// Unlike getDesktop, never provisions a new desktop; null when it is gone.
+export const connectDesktop = async (id: string) => {
   try {
-    const desktop = await getDesktop(id);
-    const streamUrl = desktop.stream.getUrl();
+    return await getDesktopProvider().connect(id);
+  } catch (error) {
+    console.error("Error in connectDesktop:", error);
+    return null;
+  }
+};
 
-    return { streamUrl, id: desktop.sandboxId };
+export const getDesktopURL = async (
+  id?: string,
+  owner?: string,
+  modelId?: string,
+) => {
+  try {
+    const desktop = await getDesktop(id, owner, getModel(modelId).resolution);
+    const streamUrl = await desktop.getStreamUrl();
+
+    return { streamUrl, id: desktop.id };
   } catch (error) {
     console.error("Error in getDesktopURL:", error);
     throw error;
   }
 };
 
-export const killDesktop = async (id: string = "desktop") => {
-  const desktop = await getDesktop(id);
-  await desktop.kill();
+// Reconnects to an existing desktop without provisioning; null when expired.
+export const getExistingDesktopURL = async (id: string) => {
+  const desktop = await connectDesktop(id);
+  if (!desktop) return null;
+  touchSandbox(desktop.id);
+  return { streamUrl: await desktop.getStreamUrl(), id: desktop.id };
+};
+
+export const getLiveDesktops = async (ids: string[]) => {
+  const desktops = await Promise.all(ids.map((id) => connectDesktop(id)));
+  return ids.filter((_, index) => desktops[index] !== null);
 };
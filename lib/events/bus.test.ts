@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { endTopic, publish, subscribe, type LiveEvent } from "./bus";
+
+const status: LiveEvent = { type: "status", id: "call-1", status: "running" };
+
+describe("live event bus", () => {
+  afterEach(() => {
+    endTopic("run:test");
+    vi.restoreAllMocks();
+  });
+
+  it("delivers events to the topic's listeners until they unsubscribe", () => {
+    const listener = vi.fn();
+    const other = vi.fn();
+    const unsubscribe = subscribe("run:test", listener);
+    subscribe("run:other", other);
+
+    publish("run:test", status);
+    unsubscribe();
+    publish("run:test", status);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(status);
+    expect(other).not.toHaveBeenCalled();
+    endTopic("run:other");
+  });
+
+  it("tells listeners when the topic ends and drops them", () => {
+    const listener = vi.fn();
+    subscribe("run:test", listener);
+
+    endTopic("run:test");
+    publish("run:test", status);
+
+    expect(listener.mock.calls).toEqual([[null]]);
+  });
+
+  it("keeps going when a listener throws", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const listener = vi.fn();
+    subscribe("run:test", () => {
+      throw new Error("closed");
+    });
+    subscribe("run:test", listener);
+
+    expect(() => publish("run:test", status)).not.toThrow();
+    expect(listener).toHaveBeenCalledWith(status);
+  });
+});
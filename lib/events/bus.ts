@@ -0,0 +1,75 @@
+import type {
+  ToolEvent,
+  ToolEventStatus,
+  ToolResult,
+} from "@/lib/agent-events";
+
+// What observers of a session or run receive, in the shapes of
+// lib/agent-events.ts; `id` is always the tool call id.
+export type LiveEvent =
+  | { type: "call"; event: ToolEvent }
+  | {
+      type: "result";
+      id: string;
+      status: ToolEventStatus;
+      durationMs: number;
+      result?: ToolResult;
+    }
+  // The tool threw instead of returning a result.
+  | { type: "error"; id: string; durationMs: number; error: string }
+  | { type: "status"; id: string; status: ToolEventStatus };
+
+export type EventPublisher = (event: LiveEvent) => void;
+
+// Null once the topic has ended, e.g. when a run finished.
+type Listener = (event: LiveEvent | null) => void;
+
+export const sessionTopic = (sessionId: string) => `session:${sessionId}`;
+export const runTopic = (runId: string) => `run:${runId}`;
+
+// Kept on globalThis so the routes that publish and the SSE routes that
+// subscribe share one bus.
+const registry = globalThis as typeof globalThis & {
+  __liveEventListeners?: Map<string, Set<Listener>>;
+};
+const listeners = (registry.__liveEventListeners ??= new Map<
+  string,
+  Set<Listener>
+>());
+
+// Returns the unsubscribe function.
+export const subscribe = (topic: string, listener: Listener) => {
+  const topicListeners = listeners.get(topic) ?? new Set();
+  topicListeners.add(listener);
+  listeners.set(topic, topicListeners);
+  return () => {
+    topicListeners.delete(listener);
+    if (topicListeners.size === 0 && listeners.get(topic) === topicListeners) {
+      listeners.delete(topic);
+    }
+  };
+};
+
+// A listener that throws must not stop the agent or the other listeners.
+const notify = (topic: string, event: LiveEvent | null) => {
+  listeners.get(topic)?.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Live event listener for ${topic} failed`, error);
+    }
+  });
+};
+
+export const publish = (topic: string, event: LiveEvent) =>
+  notify(topic, event);
+
+export const createPublisher =
+  (topic: string): EventPublisher =>
+  (event) =>
+    publish(topic, event);
+
+export const endTopic = (topic: string) => {
+  notify(topic, null);
+  listeners.delete(topic);
+};
@@ -0,0 +1,61 @@
+import { subscribe, type LiveEvent } from "./bus";
+
+// Comments keep proxies from closing a quiet connection.
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+export const formatServerSentEvent = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// Streams a topic as server-sent events until the client disconnects or
+// the topic ends; `onEnd` supplies the data of the closing `end` event.
+export const createEventStream = ({
+  topic,
+  signal,
+  onEnd,
+}: {
+  topic: string;
+  signal: AbortSignal;
+  onEnd?: () => unknown;
+}) => {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const close = () => {
+        cleanup();
+        controller.close();
+      };
+
+      const unsubscribe = subscribe(topic, (event: LiveEvent | null) => {
+        if (event) return send(formatServerSentEvent(event.type, event));
+        send(formatServerSentEvent("end", onEnd?.() ?? {}));
+        close();
+      });
+      const keepalive = setInterval(
+        () => send(": keepalive\n\n"),
+        KEEPALIVE_INTERVAL_MS,
+      );
+      cleanup = () => {
+        clearInterval(keepalive);
+        unsubscribe();
+        signal.removeEventListener("abort", close);
+      };
+      signal.addEventListener("abort", close);
+      send(": connected\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+};
+
+export const eventStreamResponse = (stream: ReadableStream<Uint8Array>) =>
+  new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
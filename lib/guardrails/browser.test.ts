@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Desktop } from "@/lib/desktop";
+import { syncBrowserGuardrails } from "./browser";
+import { parseGuardrailPolicy } from "./policy";
+
+const fakeDesktop = (id: string) => {
+  const run = vi.fn(async () => ({ stdout: "", stderr: "", exitCode: 0 }));
+  const write = vi.fn<(path: string, data: string) => Promise<void>>(
+    async () => {},
+  );
+  const desktop = { id, commands: { run }, files: { write } };
+  return { desktop: desktop as unknown as Desktop, run, write };
+};
+
+describe("syncBrowserGuardrails", () => {
+  it("writes the block once per policy and rewrites it when domains change", async () => {
+    const { desktop, run, write } = fakeDesktop("sync-1");
+    const limited = parseGuardrailPolicy({ allowedDomains: ["example.com"] });
+
+    await syncBrowserGuardrails(desktop, limited);
+    await syncBrowserGuardrails(desktop, limited);
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(write.mock.calls[0]).toEqual([
+      "/tmp/guardrails.pac",
+      expect.stringContaining('"example.com"'),
+    ]);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await syncBrowserGuardrails(
+      desktop,
+      parseGuardrailPolicy({ allowedDomains: ["docs.dev"] }),
+    );
+    expect(write.mock.calls[2][1]).toContain('"docs.dev"');
+  });
+
+  it("lifts the block once the policy stops limiting browsing", async () => {
+    const { desktop, run } = fakeDesktop("sync-2");
+
+    await syncBrowserGuardrails(
+      desktop,
+      parseGuardrailPolicy({ allowedDomains: ["example.com"] }),
+    );
+    await syncBrowserGuardrails(desktop, parseGuardrailPolicy({}));
+
+    expect(run).toHaveBeenLastCalledWith(
+      "sudo rm -f /etc/firefox/guardrails.pac /etc/firefox/policies/policies.json",
+    );
+  });
+});
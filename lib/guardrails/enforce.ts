@@ -0,0 +1,151 @@
+import { posix } from "node:path";
+import type { GuardrailPolicy } from "./policy";
+
+export type PolicyRule =
+  | "command-denied"
+  | "command-not-allowed"
+  | "blocked-path"
+  | "domain-not-allowed"
+  | "rate-limited";
+
+// Returned to the model instead of running the call.
+export type PolicyViolation = {
+  type: "policy-violation";
+  rule: PolicyRule;
+  reason: string;
+};
+
+const violation = (rule: PolicyRule, reason: string): PolicyViolation => ({
+  type: "policy-violation",
+  rule,
+  reason,
+});
+
+export const formatViolation = ({ rule, reason }: PolicyViolation) =>
+  JSON.stringify({ error: "policy_violation", rule, reason });
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const isAllowedDomain = (policy: GuardrailPolicy, host: string) => {
+  if (policy.allowedDomains.length === 0) return true;
+  const normalized = host.toLowerCase().replace(/\.$/, "");
+  return policy.allowedDomains.some(
+    (domain) => normalized === domain || normalized.endsWith(`.${domain}`),
+  );
+};
+
+const URL_HOSTS = /\b(?:https?|ftp):\/\/([^\s/:'"?#@]+)/gi;
+// Text typed into the address bar, e.g. "example.com/docs".
+const BARE_URL =
+  /^(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?::\d+)?(?:[/?#]\S*)?$/i;
+
+const checkDomains = (policy: GuardrailPolicy, hosts: string[]) => {
+  const blocked = hosts.find((host) => !isAllowedDomain(policy, host));
+  return blocked
+    ? violation(
+        "domain-not-allowed",
+        `${blocked} is not in the allowed domains (${policy.allowedDomains.join(", ")})`,
+      )
+    : undefined;
+};
+
+const checkCommand = (policy: GuardrailPolicy, command: string) => {
+  const denied = policy.commands.deny.find((pattern) =>
+    new RegExp(pattern).test(command),
+  );
+  if (denied) {
+    return violation("command-denied", `Command matches deny rule /${denied}/`);
+  }
+  const { allow } = policy.commands;
+  if (
+    allow.length &&
+    !allow.some((pattern) => new RegExp(pattern).test(command))
+  ) {
+    return violation(
+      "command-not-allowed",
+      "Command matches none of the allowed patterns",
+    );
+  }
+
+  const path = policy.blockedPaths.find((blocked) =>
+    new RegExp(
+      `(^|[\\s'"=:<>|;&(])${escapeRegExp(blocked)}(?=$|[\\s'"/;&|)<>])`,
+    ).test(command),
+  );
+  if (path) {
+    return violation("blocked-path", `Command touches blocked path ${path}`);
+  }
+
+  return checkDomains(
+    policy,
+    Array.from(command.matchAll(URL_HOSTS), (match) => match[1]),
+  );
+};
+
+const checkPath = (policy: GuardrailPolicy, path: string) => {
+  const resolved = posix.normalize(path);
+  const blocked = policy.blockedPaths.find(
+    (prefix) => resolved === prefix || resolved.startsWith(`${prefix}/`),
+  );
+  return blocked
+    ? violation("blocked-path", `${resolved} is under blocked path ${blocked}`)
+    : undefined;
+};
+
+// Checks a call's arguments against the policy; rate limits are separate so
+// a call held for approval is only counted once it runs.
+export const checkToolCall = (
+  policy: GuardrailPolicy,
+  toolName: string,
+  args: Record<string, unknown>,
+): PolicyViolation | undefined => {
+  if (toolName === "bash" && typeof args.command === "string") {
+    return checkCommand(policy, args.command);
+  }
+  if (toolName === "str_replace_editor" && typeof args.path === "string") {
+    return checkPath(policy, args.path);
+  }
+  if (
+    toolName === "computer" &&
+    args.action === "type" &&
+    typeof args.text === "string"
+  ) {
+    const host = BARE_URL.exec(args.text.trim())?.[1];
+    return host ? checkDomains(policy, [host]) : undefined;
+  }
+  return undefined;
+};
+
+// Kept on globalThis so dev-server reloads don't reset the windows.
+const store = globalThis as typeof globalThis & {
+  __guardrailCalls?: Map<string, number[]>;
+};
+const calls: Map<string, number[]> = (store.__guardrailCalls ??= new Map());
+
+// Records the call unless the tool's limit for this sandbox is used up.
+export const takeRateLimit = (
+  policy: GuardrailPolicy,
+  sandboxId: string,
+  toolName: string,
+  now = Date.now(),
+): PolicyViolation | undefined => {
+  const limit = policy.rateLimits[toolName];
+  if (!limit) return undefined;
+
+  const key = `${sandboxId}:${toolName}`;
+  const windowStart = now - limit.windowSeconds * 1000;
+  const recent = (calls.get(key) ?? []).filter(
+    (timestamp) => timestamp > windowStart,
+  );
+  if (recent.length >= limit.max) {
+    calls.set(key, recent);
+    const retryIn = Math.ceil((recent[0] - windowStart) / 1000);
+    return violation(
+      "rate-limited",
+      `Rate limit of ${limit.max} ${toolName} calls per ${limit.windowSeconds}s reached; retry in ${retryIn}s`,
+    );
+  }
+  calls.set(key, [...recent, now]);
+  return undefined;
+};
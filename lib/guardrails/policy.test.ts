@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { parseGuardrailPolicy } from "./policy";
+
+describe("parseGuardrailPolicy", () => {
+  it("treats missing sections as unrestricted", () => {
+    expect(parseGuardrailPolicy({})).toEqual({
+      commands: { allow: [], deny: [] },
+      blockedPaths: [],
+      maxCommandRuntimeSeconds: 120,
+      allowedDomains: [],
+      rateLimits: {},
+    });
+  });
+
+  it("normalizes paths and domains", () => {
+    const policy = parseGuardrailPolicy({
+      blockedPaths: ["/srv/secrets/"],
+      allowedDomains: ["*.Example.com", ".docs.dev"],
+    });
+    expect(policy.blockedPaths).toEqual(["/srv/secrets"]);
+    expect(policy.allowedDomains).toEqual(["example.com", "docs.dev"]);
+  });
+
+  it.each([
+    [null, "Invalid guardrail policy"],
+    [{ commands: { deny: ["("] } }, "bad pattern"],
+    [{ blockedPaths: "/root" }, "blockedPaths must be a string list"],
+    [{ maxCommandRuntimeSeconds: 0 }, "maxCommandRuntimeSeconds"],
+    [{ rateLimits: { bash: { max: 5 } } }, "rateLimits.bash.windowSeconds"],
+  ])("rejects %j", (value, message) => {
+    expect(() => parseGuardrailPolicy(value)).toThrow(message);
+  });
+});
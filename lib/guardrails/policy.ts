@@ -0,0 +1,108 @@
+import { readFileSync, statSync } from "node:fs";
+import defaultPolicy from "./default-policy.json";
+
+export type RateLimit = { max: number; windowSeconds: number };
+
+export type GuardrailPolicy = {
+  // Regexes matched against bash commands. An empty allow list allows any
+  // command that no deny pattern matches.
+  commands: { allow: string[]; deny: string[] };
+  // Absolute paths (and everything below them) commands and edits may not touch.
+  blockedPaths: string[];
+  maxCommandRuntimeSeconds: number;
+  // Domains (and their subdomains) the sandbox may browse; empty allows all.
+  allowedDomains: string[];
+  // Per tool, at most `max` calls per sandbox in any `windowSeconds` window.
+  rateLimits: Partial<Record<string, RateLimit>>;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown, field: string) => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`Invalid guardrail policy: ${field} must be a string list`);
+  }
+  return value as string[];
+};
+
+const patternList = (value: unknown, field: string) =>
+  stringList(value, field).map((pattern) => {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(
+        `Invalid guardrail policy: ${field} has a bad pattern: ${pattern}`,
+      );
+    }
+    return pattern;
+  });
+
+const positive = (value: unknown, field: string) => {
+  if (typeof value !== "number" || !(value > 0)) {
+    throw new Error(`Invalid guardrail policy: ${field} must be positive`);
+  }
+  return value;
+};
+
+// Missing sections fall back to "no restriction"; malformed ones throw so a
+// typo never silently disables a guardrail.
+export const parseGuardrailPolicy = (value: unknown): GuardrailPolicy => {
+  if (!isRecord(value)) throw new Error("Invalid guardrail policy");
+  const commands = isRecord(value.commands) ? value.commands : {};
+  const rateLimits = isRecord(value.rateLimits) ? value.rateLimits : {};
+
+  return {
+    commands: {
+      allow: patternList(commands.allow, "commands.allow"),
+      deny: patternList(commands.deny, "commands.deny"),
+    },
+    blockedPaths: stringList(value.blockedPaths, "blockedPaths").map((path) =>
+      path.replace(/\/+$/, ""),
+    ),
+    maxCommandRuntimeSeconds:
+      value.maxCommandRuntimeSeconds === undefined
+        ? 120
+        : positive(value.maxCommandRuntimeSeconds, "maxCommandRuntimeSeconds"),
+    allowedDomains: stringList(value.allowedDomains, "allowedDomains").map(
+      (domain) => domain.toLowerCase().replace(/^\*?\./, ""),
+    ),
+    rateLimits: Object.fromEntries(
+      Object.entries(rateLimits).map(([tool, limit]) => {
+        const record = isRecord(limit) ? limit : {};
+        return [
+          tool,
+          {
+            max: positive(record.max, `rateLimits.${tool}.max`),
+            windowSeconds: positive(
+              record.windowSeconds,
+              `rateLimits.${tool}.windowSeconds`,
+            ),
+          },
+        ];
+      }),
+    ),
+  };
+};
+
+const bundled = parseGuardrailPolicy(defaultPolicy);
+let cached: { path: string; mtimeMs: number; policy: GuardrailPolicy } | null =
+  null;
+
+// GUARDRAIL_POLICY points at a JSON file shaped like default-policy.json; it
+// is re-read whenever it changes, so edits apply without a restart. Tool
+// checks see them on the next call; browser blocks are rewritten on running
+// desktops the next time they are connected to (see syncBrowserGuardrails).
+export const getGuardrailPolicy = (): GuardrailPolicy => {
+  const path = process.env.GUARDRAIL_POLICY;
+  if (!path) return bundled;
+
+  const { mtimeMs } = statSync(path);
+  if (cached?.path === path && cached.mtimeMs === mtimeMs) {
+    return cached.policy;
+  }
+  const policy = parseGuardrailPolicy(JSON.parse(readFileSync(path, "utf8")));
+  cached = { path, mtimeMs, policy };
+  return policy;
+};
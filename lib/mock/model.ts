@@ -0,0 +1,81 @@
+import { readFileSync } from "node:fs";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+import defaultScript from "./fixtures/computer-use.json";
+
+// One scripted model response: optional text, then tool calls to make.
+export type MockStep = {
+  text?: string;
+  toolCalls?: { toolName: string; args: Record<string, unknown> }[];
+};
+
+export type MockScript = { steps: MockStep[] };
+
+const CHUNK_DELAY_MS = Number(process.env.MOCK_MODEL_DELAY_MS ?? 30);
+
+export const isMockModelEnabled = () =>
+  process.env.MOCK_MODEL === "1" || process.env.MOCK_MODEL === "true";
+
+// MOCK_MODEL_SCRIPT points at a fixture with the same shape as
+// fixtures/computer-use.json; the bundled one is used otherwise.
+const loadScript = (): MockScript => {
+  const scriptPath = process.env.MOCK_MODEL_SCRIPT;
+  if (!scriptPath) return defaultScript as MockScript;
+  return JSON.parse(readFileSync(scriptPath, "utf8")) as MockScript;
+};
+
+type Prompt = { role: string }[];
+
+// Every user message replays the script from the top; each model call within
+// the turn plays the next step.
+const stepIndex = (prompt: Prompt) => {
+  const lastUser = prompt.map((message) => message.role).lastIndexOf("user");
+  return prompt
+    .slice(lastUser + 1)
+    .filter((message) => message.role === "assistant").length;
+};
+
+// Roughly four characters per token, so offline runs still report usage.
+const estimateTokens = (value: unknown) =>
+  Math.ceil(JSON.stringify(value).length / 4);
+
+export const createMockModel = (script: MockScript = loadScript()) =>
+  new MockLanguageModelV1({
+    provider: "mock",
+    modelId: "scripted",
+    doStream: async ({ prompt }) => {
+      const step = script.steps[stepIndex(prompt)] ?? {
+        text: "The mock script has no more steps.",
+      };
+      const toolCalls = step.toolCalls ?? [];
+
+      return {
+        stream: simulateReadableStream({
+          chunkDelayInMs: CHUNK_DELAY_MS,
+          chunks: [
+            ...(step.text
+              ? [{ type: "text-delta" as const, textDelta: step.text }]
+              : []),
+            ...toolCalls.map((toolCall) => ({
+              type: "tool-call" as const,
+              toolCallType: "function" as const,
+              toolCallId: `mock-call-${crypto.randomUUID()}`,
+              toolName: toolCall.toolName,
+              args: JSON.stringify(toolCall.args),
+            })),
+            {
+              type: "finish" as const,
+              finishReason: toolCalls.length
+                ? ("tool-calls" as const)
+                : ("stop" as const),
+              usage: {
+                promptTokens: estimateTokens(prompt),
+                completionTokens: estimateTokens(step),
+              },
+            },
+          ],
+        }),
+        rawCall: { rawPrompt: prompt, rawSettings: {} },
+      };
+    },
+  });
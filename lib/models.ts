@@ -0,0 +1,85 @@
+export type ModelProvider = "anthropic";
+
+// Anthropic ships the computer, bash and text editor tools as one versioned
+// set; a model only accepts the set it was trained with.
+export type ComputerUseVersion = "20241022" | "20250124";
+
+// USD per million tokens, from Anthropic's published prices.
+export type ModelPricing = {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+};
+
+// Every Sonnet model in the registry shares the same prices.
+const SONNET_PRICING: ModelPricing = {
+  input: 3,
+  output: 15,
+  cacheWrite: 3.75,
+  cacheRead: 0.3,
+};
+
+export type ModelConfig = {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  providerModelId: string;
+  computerUseVersion: ComputerUseVersion;
+  // New desktops are created at the resolution of the session's model.
+  resolution: { x: number; y: number };
+  supportsPromptCaching: boolean;
+  pricing: ModelPricing;
+};
+
+export const MODELS: ModelConfig[] = [
+  {
+    id: "claude-sonnet-4-5",
+    label: "Claude Sonnet 4.5",
+    provider: "anthropic",
+    providerModelId: "claude-sonnet-4-5-20250929",
+    computerUseVersion: "20250124",
+    resolution: { x: 1024, y: 768 },
+    supportsPromptCaching: true,
+    pricing: SONNET_PRICING,
+  },
+  {
+    id: "claude-sonnet-4",
+    label: "Claude Sonnet 4",
+    provider: "anthropic",
+    providerModelId: "claude-sonnet-4-20250514",
+    computerUseVersion: "20250124",
+    resolution: { x: 1024, y: 768 },
+    supportsPromptCaching: true,
+    pricing: SONNET_PRICING,
+  },
+  {
+    id: "claude-3-7-sonnet",
+    label: "Claude 3.7 Sonnet",
+    provider: "anthropic",
+    providerModelId: "claude-3-7-sonnet-20250219",
+    computerUseVersion: "20250124",
+    resolution: { x: 1024, y: 768 },
+    supportsPromptCaching: true,
+    pricing: SONNET_PRICING,
+  },
+  {
+    id: "claude-3-5-sonnet",
+    label: "Claude 3.5 Sonnet",
+    provider: "anthropic",
+    providerModelId: "claude-3-5-sonnet-20241022",
+    computerUseVersion: "20241022",
+    resolution: { x: 1024, y: 768 },
+    supportsPromptCaching: true,
+    pricing: SONNET_PRICING,
+  },
+];
+
+export const DEFAULT_MODEL_ID = MODELS[0].id;
+
+export const findModel = (id: string) =>
+  MODELS.find((model) => model.id === id);
+
+// Falls back to the default model for missing or unknown ids.
+export const getModel = (id?: string | null): ModelConfig =>
+  (id ? findModel(id) : undefined) ?? MODELS[0];
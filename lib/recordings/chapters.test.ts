@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { parseToolPayload, type ToolEvent } from "@/lib/agent-events";
+import { findChapterAt, formatOffset, getChapters } from "./chapters";
+
+const event = (id: string, timestamp: number): ToolEvent => ({
+  id,
+  toolName: "computer",
+  timestamp,
+  status: "success",
+  payload: parseToolPayload("computer", { action: "screenshot" }),
+});
+
+const recording = { id: "r1", startedAt: 10_000, endedAt: 20_000 };
+
+describe("getChapters", () => {
+  it("places the recording's tool calls on its timeline in order", () => {
+    const chapters = getChapters(recording, [
+      event("late", 15_500),
+      event("before", 9_000),
+      event("start", 10_000),
+      event("after", 20_001),
+    ]);
+
+    expect(
+      chapters.map((chapter) => [chapter.event.id, chapter.offset]),
+    ).toEqual([
+      ["start", 0],
+      ["late", 5.5],
+    ]);
+  });
+});
+
+describe("findChapterAt", () => {
+  it("returns the last chapter that started before the time", () => {
+    const chapters = getChapters(recording, [
+      event("a", 11_000),
+      event("b", 14_000),
+    ]);
+
+    expect(findChapterAt(chapters, 0.5)).toBeUndefined();
+    expect(findChapterAt(chapters, 1)?.event.id).toBe("a");
+    expect(findChapterAt(chapters, 9)?.event.id).toBe("b");
+  });
+});
+
+describe("formatOffset", () => {
+  it("formats seconds as minutes and seconds", () => {
+    expect(formatOffset(5.9)).toBe("0:05");
+    expect(formatOffset(125)).toBe("2:05");
+  });
+});
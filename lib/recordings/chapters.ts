@@ -0,0 +1,34 @@
+import type { ToolEvent } from "@/lib/agent-events";
+import type { SessionRecording } from "@/lib/sessions/types";
+
+export type Chapter = {
+  // Seconds from the start of the video.
+  offset: number;
+  event: ToolEvent;
+};
+
+// Tool calls made while the recording ran, positioned on its timeline.
+export const getChapters = (
+  recording: SessionRecording,
+  events: ToolEvent[],
+): Chapter[] =>
+  events
+    .filter(
+      (event) =>
+        event.timestamp >= recording.startedAt &&
+        event.timestamp <= recording.endedAt,
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((event) => ({
+      offset: (event.timestamp - recording.startedAt) / 1000,
+      event,
+    }));
+
+// The chapter playing at `time`, i.e. the last one that started before it.
+export const findChapterAt = (chapters: Chapter[], time: number) =>
+  chapters.findLast((chapter) => chapter.offset <= time);
+
+export const formatOffset = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
@@ -0,0 +1,121 @@
+import { getDesktopProvider, type Desktop } from "@/lib/desktop";
+import type { ModelConfig } from "@/lib/models";
+import { addSessionRecording } from "@/lib/sessions/store";
+import { saveRecordingVideo } from "./storage";
+
+const SANDBOX_DIR = "/tmp/recordings";
+const FRAME_RATE = 5;
+// ffmpeg stops on its own after this, so a run the client abandoned mid-way
+// can't record forever.
+const MAX_RECORDING_SECONDS = Number(
+  process.env.MAX_RECORDING_SECONDS ?? 1_800,
+);
+// How long ffmpeg gets to write the end of the file once asked to stop.
+const STOP_TIMEOUT_SECONDS = 15;
+
+type ActiveRecording = {
+  id: string;
+  sessionId: string;
+  pid: number;
+  path: string;
+  startedAt: number;
+};
+
+// One recording per desktop, keyed by sandbox id. Kept on globalThis so
+// dev-server reloads don't lose track of running ffmpeg processes.
+const store = globalThis as typeof globalThis & {
+  __activeRecordings?: Map<string, ActiveRecording>;
+};
+const active: Map<string, ActiveRecording> = (store.__activeRecordings ??=
+  new Map());
+
+const startFfmpeg = async (
+  desktop: Desktop,
+  { x, y }: ModelConfig["resolution"],
+) => {
+  const id = crypto.randomUUID();
+  const path = `${SANDBOX_DIR}/${id}.mp4`;
+  const result = await desktop.commands.run(
+    `command -v ffmpeg >/dev/null || { echo "ffmpeg is not installed on the desktop" >&2; exit 127; }; ` +
+      `mkdir -p ${SANDBOX_DIR} && ` +
+      `nohup ffmpeg -nostdin -loglevel error -y -f x11grab -framerate ${FRAME_RATE} ` +
+      `-video_size ${x}x${y} -i "\${DISPLAY:-:0}" -t ${MAX_RECORDING_SECONDS} ` +
+      `-c:v libx264 -preset ultrafast -crf 30 -pix_fmt yuv420p -movflags +faststart ` +
+      `${path} > ${path}.log 2>&1 & echo $!`,
+  );
+  const pid = Number.parseInt(result.stdout.trim(), 10);
+  if (result.exitCode !== 0 || !Number.isInteger(pid)) {
+    throw new Error(
+      `Failed to start screen recording: ${result.stderr.trim() || "no ffmpeg process"}`,
+    );
+  }
+  return { id, pid, path, startedAt: Date.now() };
+};
+
+// Asks ffmpeg to finish the file (SIGINT), then copies it out of the sandbox.
+const stopFfmpeg = async (desktop: Desktop, { pid, path }: ActiveRecording) => {
+  const result = await desktop.commands.run(
+    `kill -INT ${pid} 2>/dev/null; ` +
+      `for i in $(seq ${STOP_TIMEOUT_SECONDS * 5}); do kill -0 ${pid} 2>/dev/null || exit 0; sleep 0.2; done; ` +
+      `kill -KILL ${pid}; exit 1`,
+    { timeoutMs: (STOP_TIMEOUT_SECONDS + 5) * 1000 },
+  );
+  if (result.exitCode !== 0) {
+    throw new Error("ffmpeg did not finish the recording in time");
+  }
+  const video = await desktop.files.read(path);
+  await desktop.commands.run(`rm -f ${path} ${path}.log`);
+  return video;
+};
+
+// Stops the desktop's recording and attaches the video to its session.
+// Failures are logged: a lost recording must never fail the run.
+export const finishRunRecording = async (sandboxId: string) => {
+  const recording = active.get(sandboxId);
+  if (!recording) return;
+  active.delete(sandboxId);
+  const endedAt = Date.now();
+
+  try {
+    const desktop = await getDesktopProvider().connect(sandboxId);
+    if (!desktop) throw new Error("The desktop is gone");
+    const video = await stopFfmpeg(desktop, recording);
+    await saveRecordingVideo(recording.sessionId, recording.id, video);
+    await addSessionRecording(recording.sessionId, {
+      id: recording.id,
+      startedAt: recording.startedAt,
+      endedAt,
+    });
+  } catch (error) {
+    console.error(`Failed to save recording ${recording.id}`, error);
+  }
+};
+
+// Called for every request of a run; only the first one starts ffmpeg. A new
+// run (a fresh user message) closes whatever the last run left recording.
+export const ensureRunRecording = async ({
+  sandboxId,
+  sessionId,
+  resolution,
+  isNewRun,
+}: {
+  sandboxId: string;
+  sessionId: string;
+  resolution: ModelConfig["resolution"];
+  isNewRun: boolean;
+}) => {
+  const current = active.get(sandboxId);
+  if (current && current.sessionId === sessionId && !isNewRun) return;
+  if (current) await finishRunRecording(sandboxId);
+
+  try {
+    const desktop = await getDesktopProvider().connect(sandboxId);
+    if (!desktop) return;
+    active.set(sandboxId, {
+      ...(await startFfmpeg(desktop, resolution)),
+      sessionId,
+    });
+  } catch (error) {
+    console.error(`Failed to start recording on ${sandboxId}`, error);
+  }
+};
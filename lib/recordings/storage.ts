@@ -0,0 +1,54 @@
+import { mkdir, rename, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { isValidSessionId } from "@/lib/sessions/store";
+
+// Videos live outside the session JSON, one directory per session.
+const RECORDINGS_DIR = path.resolve(
+  process.env.RECORDINGS_DIR ?? path.join(process.cwd(), ".data", "recordings"),
+);
+
+const RECORDING_ID_PATTERN = /^[\w-]{1,128}$/;
+
+export const isValidRecordingId = (id: string) => RECORDING_ID_PATTERN.test(id);
+
+const sessionDir = (sessionId: string) => {
+  if (!isValidSessionId(sessionId)) {
+    throw new Error(`Invalid session id: ${sessionId}`);
+  }
+  return path.join(RECORDINGS_DIR, sessionId);
+};
+
+export const recordingPath = (sessionId: string, recordingId: string) => {
+  if (!isValidRecordingId(recordingId)) {
+    throw new Error(`Invalid recording id: ${recordingId}`);
+  }
+  return path.join(sessionDir(sessionId), `${recordingId}.mp4`);
+};
+
+export const saveRecordingVideo = async (
+  sessionId: string,
+  recordingId: string,
+  video: Uint8Array,
+) => {
+  const target = recordingPath(sessionId, recordingId);
+  await mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${process.pid}.tmp`;
+  await writeFile(temporary, video);
+  await rename(temporary, target);
+};
+
+// Size in bytes, or null when the video was never saved.
+export const getRecordingSize = async (
+  sessionId: string,
+  recordingId: string,
+) => {
+  try {
+    return (await stat(recordingPath(sessionId, recordingId))).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+export const deleteSessionRecordings = (sessionId: string) =>
+  rm(sessionDir(sessionId), { recursive: true, force: true });
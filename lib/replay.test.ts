@@ -0,0 +1,115 @@
+import type { Message } from "ai";
+import { describe, expect, it } from "vitest";
+import { parseToolPayload, type ToolEvent } from "./agent-events";
+import { buildReplay, describeStep } from "./replay";
+
+const event = (
+  id: string,
+  toolName: "computer" | "bash",
+  args: Record<string, unknown>,
+): ToolEvent => ({
+  id,
+  toolName,
+  timestamp: 0,
+  status: "success",
+  payload: parseToolPayload(toolName, args),
+});
+
+const call = (
+  toolCallId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  result: unknown,
+) => ({
+  type: "tool-invocation" as const,
+  toolInvocation: {
+    state: "result" as const,
+    toolCallId,
+    toolName,
+    args,
+    result,
+  },
+});
+
+const messages: Message[] = [
+  { id: "u1", role: "user", content: "Open the docs", parts: [] },
+  {
+    id: "a1",
+    role: "assistant",
+    content: "",
+    parts: [
+      { type: "text", text: "Let me check the files first." },
+      call("t1", "bash", { command: "ls" }, { type: "text", text: "docs" }),
+      { type: "text", text: "Now I'll look at the screen." },
+      call(
+        "t2",
+        "computer",
+        { action: "screenshot" },
+        { type: "image", data: "first" },
+      ),
+      call(
+        "t3",
+        "computer",
+        { action: "left_click", coordinate: [5, 6] },
+        { type: "text", text: "Left clicked" },
+      ),
+      { type: "text", text: "Checking the result." },
+      call(
+        "t4",
+        "computer",
+        { action: "screenshot" },
+        { type: "image", data: "second" },
+      ),
+    ],
+  },
+];
+
+const events = [
+  event("t1", "bash", { command: "ls" }),
+  event("t2", "computer", { action: "screenshot" }),
+  event("t3", "computer", { action: "left_click", coordinate: [5, 6] }),
+  event("t4", "computer", { action: "screenshot" }),
+];
+
+describe("buildReplay", () => {
+  it("pairs each step with its nearest screenshot and narration", () => {
+    expect(
+      buildReplay(messages, events).map(({ event, screenshot, text }) => [
+        event.id,
+        screenshot,
+        text,
+      ]),
+    ).toEqual([
+      ["t1", "first", "Let me check the files first."],
+      ["t2", "first", "Now I'll look at the screen."],
+      ["t3", "first", "Now I'll look at the screen."],
+      ["t4", "second", "Checking the result."],
+    ]);
+  });
+
+  it("falls back to screenshots kept on the events", () => {
+    const steps = buildReplay(
+      [],
+      [{ ...events[1], result: { type: "image", data: "stored" } }, events[2]],
+    );
+    expect(steps.map((step) => [step.screenshot, step.text])).toEqual([
+      ["stored", ""],
+      ["stored", ""],
+    ]);
+  });
+
+  it("has no screenshot when none was taken", () => {
+    expect(buildReplay(messages, [events[0]])[0].screenshot).toBeNull();
+  });
+});
+
+describe("describeStep", () => {
+  it.each([
+    [events[2], "left click at (5, 6)"],
+    [event("k", "computer", { action: "type", text: "hello" }), 'type "hello"'],
+    [events[0], "$ ls"],
+    [event("r", "bash", { restart: true }), "restart shell"],
+  ])("describes %#", (step, caption) => {
+    expect(describeStep(step)).toBe(caption);
+  });
+});
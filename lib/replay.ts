@@ -0,0 +1,93 @@
+import type { Message } from "ai";
+import { parseToolResult, type ToolEvent } from "@/lib/agent-events";
+
+export type ReplayStep = {
+  event: ToolEvent;
+  // Base64 PNG closest to the step: its own result, else the last earlier
+  // screenshot, else the first later one.
+  screenshot: string | null;
+  // What the assistant last said before making the call.
+  text: string;
+};
+
+type CallContext = { text: string; image?: string };
+
+// Walks the messages in order, noting the narration before each tool call
+// and any screenshot it returned.
+const collectCallContext = (messages: Message[]) => {
+  const byId = new Map<string, CallContext>();
+  let text = "";
+  for (const message of messages) {
+    if (message.role !== "assistant") continue;
+    for (const part of message.parts ?? []) {
+      if (part.type === "text" && part.text.trim()) {
+        text = part.text.trim();
+      }
+      if (part.type === "tool-invocation") {
+        const { toolCallId, state } = part.toolInvocation;
+        const result =
+          state === "result"
+            ? parseToolResult(part.toolInvocation.result)
+            : undefined;
+        byId.set(toolCallId, {
+          text,
+          image: result?.type === "image" ? result.data : undefined,
+        });
+      }
+    }
+  }
+  return byId;
+};
+
+// Rebuilds a finished run step by step from the event log and the messages.
+export const buildReplay = (
+  messages: Message[],
+  events: ToolEvent[],
+): ReplayStep[] => {
+  const context = collectCallContext(messages);
+  const images = events.map((event) => {
+    const own = context.get(event.id)?.image;
+    if (own) return own;
+    return event.result?.type === "image" ? event.result.data : undefined;
+  });
+
+  let latest: string | null = null;
+  let text = "";
+  return events.map((event, index) => {
+    latest = images[index] ?? latest;
+    text = context.get(event.id)?.text || text;
+    return {
+      event,
+      screenshot: latest ?? images.slice(index).find(Boolean) ?? null,
+      text,
+    };
+  });
+};
+
+const truncate = (value: string, length = 60) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+// One-line caption for the action overlaid on the screenshot.
+export const describeStep = ({
+  payload,
+}: Pick<ToolEvent, "payload">): string => {
+  switch (payload.toolName) {
+    case "computer": {
+      const parts: string[] = [payload.action.replace(/_/g, " ")];
+      if (payload.coordinate) {
+        parts.push(`at (${payload.coordinate.join(", ")})`);
+      }
+      if (payload.text) parts.push(`"${truncate(payload.text, 40)}"`);
+      if (payload.scroll_direction) parts.push(payload.scroll_direction);
+      return parts.join(" ");
+    }
+    case "bash":
+      return payload.restart
+        ? "restart shell"
+        : `$ ${truncate(payload.command)}`;
+    case "str_replace_editor":
+      return `${payload.command.replace(/_/g, " ")} ${payload.path}`;
+    default:
+      return "unknown tool call";
+  }
+};
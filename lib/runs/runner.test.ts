@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMockModel, type MockScript } from "@/lib/mock/model";
+import { cancelRun, getRun, startRun } from "./runner";
+
+const mocks = vi.hoisted(() => ({
+  script: { steps: [] } as MockScript,
+  desktop: {
+    id: "desktop-1",
+    screenshot: async () => new Uint8Array([1, 2, 3]),
+    moveMouse: async () => {},
+    leftClick: async () => {},
+  },
+  killDesktop: vi.fn<(id: string) => Promise<void>>(async () => {}),
+}));
+
+vi.mock("@/lib/agent", () => ({
+  SYSTEM_PROMPT: "",
+  getLanguageModel: () => createMockModel(mocks.script),
+}));
+
+vi.mock("@/lib/e2b/utils", () => ({
+  getDesktop: async () => mocks.desktop,
+  requireDesktop: async () => mocks.desktop,
+}));
+
+vi.mock("@/lib/e2b/lifecycle", () => ({
+  heartbeatDesktop: async () => true,
+  killDesktop: (id: string) => mocks.killDesktop(id),
+}));
+
+const screenshot = { toolName: "computer", args: { action: "screenshot" } };
+const click = {
+  toolName: "computer",
+  args: { action: "left_click", coordinate: [10, 20] },
+};
+
+const settled = async (id: string) => {
+  await vi.waitFor(() => expect(getRun(id)?.status).not.toBe("running"));
+  return getRun(id)!;
+};
+
+describe("runner", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it("succeeds with the last step's text and logs every call", async () => {
+    mocks.script = {
+      steps: [
+        { text: "Looking first.", toolCalls: [screenshot] },
+        { toolCalls: [click] },
+        { text: "Clicked the button." },
+      ],
+    };
+
+    const { id, status } = startRun({ prompt: "Click it", maxSteps: 10 });
+    expect(status).toBe("running");
+    const run = await settled(id);
+
+    expect(run).toMatchObject({
+      status: "succeeded",
+      answer: "Clicked the button.",
+      error: null,
+      sandboxId: "desktop-1",
+      steps: 3,
+    });
+    expect(run.events.map(({ status }) => status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(run.finishedAt).not.toBeNull();
+    // The run provisioned the desktop, so it cleans it up.
+    await vi.waitFor(() =>
+      expect(mocks.killDesktop).toHaveBeenCalledWith("desktop-1"),
+    );
+  });
+
+  it("fails when it runs out of steps while still calling tools", async () => {
+    mocks.script = {
+      steps: [{ toolCalls: [screenshot] }, { toolCalls: [click] }],
+    };
+
+    const { id } = startRun({ prompt: "Click it", maxSteps: 2 });
+
+    expect(await settled(id)).toMatchObject({
+      status: "failed",
+      answer: null,
+      error: "Stopped after 2 steps without an answer",
+    });
+  });
+
+  it("stays cancelled and marks the call in flight as aborted", async () => {
+    mocks.script = { steps: [{ toolCalls: [screenshot] }, { text: "Done." }] };
+    let release = () => {};
+    vi.spyOn(mocks.desktop, "screenshot").mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve(new Uint8Array([1]));
+        }),
+    );
+
+    const { id } = startRun({ prompt: "Look", maxSteps: 10 });
+    await vi.waitFor(() => expect(getRun(id)?.events).toHaveLength(1));
+
+    expect(cancelRun(id)).toMatchObject({ status: "cancelled" });
+    release();
+    await vi.waitFor(() => expect(mocks.killDesktop).toHaveBeenCalled());
+
+    const run = getRun(id)!;
+    expect(run.status).toBe("cancelled");
+    expect(run.answer).toBeNull();
+    expect(run.events[0].status).toBe("aborted");
+    expect(cancelRun("missing")).toBeNull();
+  });
+
+  it("fails with the error of a tool that throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(mocks.desktop, "leftClick").mockRejectedValue(
+      new Error("Display went away"),
+    );
+    mocks.script = { steps: [{ toolCalls: [click] }, { text: "Done." }] };
+
+    const { id } = startRun({ prompt: "Click it", maxSteps: 10 });
+    const run = await settled(id);
+
+    expect(run.status).toBe("failed");
+    expect(run.error).toContain("Display went away");
+    expect(run.events[0]).toMatchObject({
+      status: "error",
+      error: "Display went away",
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { streamText } from "ai";
+import { getLanguageModel, SYSTEM_PROMPT } from "@/lib/agent";
+import {
+  deriveStatusFromResult,
+  eventReducer,
+  initialEventState,
+  normalizeToolName,
+  parseToolPayload,
+  parseToolResult,
+  type EventAction,
+  type EventState,
+} from "@/lib/agent-events";
+import { bashTool, computerTool, editorTool } from "@/lib/e2b/tool";
+import { heartbeatDesktop, killDesktop } from "@/lib/e2b/lifecycle";
+import { getDesktop, requireDesktop } from "@/lib/e2b/utils";
+import { createPublisher, endTopic, publish, runTopic } from "@/lib/events/bus";
+import { getModel, type ModelConfig } from "@/lib/models";
+import { agentTelemetry, withSpan } from "@/lib/telemetry/tracer";
+import type { ToolTiming } from "@/lib/tool-timings";
+import { estimateCostUsd, toTokenUsage } from "@/lib/usage";
+import type { AgentRun, RunInput } from "./types";
+
+// Finished runs stay readable through GET /api/runs/:id for this long.
+const RUN_RETENTION_MS = Number(process.env.RUN_RETENTION_MS ?? 3_600_000);
+// Nobody sends heartbeats for a headless run, so the run sends its own.
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+type RunEntry = {
+  run: Omit<AgentRun, "events">;
+  events: EventState;
+  controller: AbortController;
+};
+
+// Kept on globalThis so the run routes share one map across dev reloads.
+const registry = globalThis as typeof globalThis & {
+  __agentRuns?: Map<string, RunEntry>;
+};
+const runs = (registry.__agentRuns ??= new Map());
+
+const toAgentRun = ({ run, events }: RunEntry): AgentRun => ({
+  ...run,
+  events: events.order.map((id) => events.byId[id]),
+});
+
+const pruneRuns = () => {
+  const cutoff = Date.now() - RUN_RETENTION_MS;
+  runs.forEach(({ run }, id) => {
+    if (run.finishedAt !== null && run.finishedAt < cutoff) runs.delete(id);
+  });
+};
+
+// Only the first outcome counts, so a cancelled run stays cancelled when
+// its aborted stream fails afterwards.
+const finish = (
+  entry: RunEntry,
+  outcome: Pick<AgentRun, "status"> &
+    Partial<Pick<AgentRun, "answer" | "error">>,
+) => {
+  if (entry.run.status !== "running") return;
+  entry.run = { ...entry.run, ...outcome, finishedAt: Date.now() };
+  const topic = runTopic(entry.run.id);
+  // Calls cut short by a failure or cancellation never got a result.
+  entry.events.order.forEach((id) => {
+    if (entry.events.byId[id].status !== "running") return;
+    const status = outcome.status === "cancelled" ? "aborted" : "error";
+    entry.events = eventReducer(entry.events, {
+      type: "set-status",
+      id,
+      status,
+    });
+    publish(topic, { type: "status", id, status });
+  });
+  endTopic(topic);
+};
+
+const execute = async (entry: RunEntry, model: ModelConfig) => {
+  const dispatch = (action: EventAction) => {
+    entry.events = eventReducer(entry.events, action);
+  };
+  // Results arrive after their timings, which are held until then so the
+  // server's measurements win over the ones taken here.
+  const timings = new Map<string, ToolTiming>();
+  const callStarts: Record<string, number> = {};
+  const applyTiming = (toolCallId: string) => {
+    const timing = timings.get(toolCallId);
+    if (!timing) return;
+    timings.delete(toolCallId);
+    dispatch({
+      type: "register-timing",
+      id: toolCallId,
+      startedAt: timing.startedAt,
+      durationMs: timing.durationMs,
+      error: timing.error,
+    });
+  };
+
+  let ownsDesktop = false;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  try {
+    // Every tool call connects to this desktop and fails once it is gone.
+    const desktop = entry.run.sandboxId
+      ? await requireDesktop(entry.run.sandboxId)
+      : await getDesktop(undefined, undefined, model.resolution);
+    const sandboxId = desktop.id;
+    ownsDesktop = !entry.run.sandboxId;
+    entry.run = { ...entry.run, sandboxId };
+    heartbeat = setInterval(() => {
+      heartbeatDesktop(sandboxId).catch((error) =>
+        console.error(`Heartbeat failed for run ${entry.run.id}`, error),
+      );
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const recordTiming = (timing: ToolTiming) =>
+      timings.set(timing.toolCallId, timing);
+    const publishEvent = createPublisher(runTopic(entry.run.id));
+    const result = streamText({
+      model: getLanguageModel(model),
+      system: SYSTEM_PROMPT,
+      prompt: entry.run.prompt,
+      tools: {
+        computer: computerTool(
+          sandboxId,
+          model,
+          undefined,
+          recordTiming,
+          publishEvent,
+        ),
+        bash: bashTool(sandboxId, model, undefined, recordTiming, publishEvent),
+        str_replace_editor: editorTool(
+          sandboxId,
+          model,
+          undefined,
+          recordTiming,
+          publishEvent,
+        ),
+      },
+      maxSteps: entry.run.maxSteps,
+      abortSignal: entry.controller.signal,
+      experimental_telemetry: agentTelemetry("run", { runId: entry.run.id }),
+      providerOptions: model.supportsPromptCaching
+        ? { anthropic: { cacheControl: { type: "ephemeral" } } }
+        : undefined,
+      onStepFinish: ({ usage, providerMetadata }) => {
+        const tokens = toTokenUsage(usage, providerMetadata);
+        entry.run = {
+          ...entry.run,
+          steps: entry.run.steps + 1,
+          costUsd: entry.run.costUsd + estimateCostUsd(tokens, model.pricing),
+        };
+      },
+    });
+
+    for await (const part of result.fullStream) {
+      // Leaving the loop cancels the stream, for models that ignore the
+      // abort signal between steps.
+      if (entry.controller.signal.aborted) break;
+      if (part.type === "tool-call") {
+        callStarts[part.toolCallId] = Date.now();
+        dispatch({
+          type: "register-call",
+          event: {
+            id: part.toolCallId,
+            toolName: normalizeToolName(part.toolName),
+            timestamp: callStarts[part.toolCallId],
+            status: "running",
+            payload: parseToolPayload(part.toolName, part.args),
+          },
+        });
+      } else if (part.type === "tool-result") {
+        const parsedResult = parseToolResult(part.result);
+        dispatch({
+          type: "register-result",
+          id: part.toolCallId,
+          status: deriveStatusFromResult(parsedResult),
+          durationMs: Date.now() - (callStarts[part.toolCallId] ?? Date.now()),
+          result: parsedResult,
+        });
+        applyTiming(part.toolCallId);
+      } else if (part.type === "error") {
+        throw part.error;
+      }
+    }
+    if (entry.controller.signal.aborted) return;
+    // Earlier steps' text narrates the work; the last step's is the answer.
+    const lastStep = (await result.steps).at(-1);
+    // Hitting maxSteps ends the loop mid-task, with more tool calls pending.
+    if (lastStep?.finishReason === "tool-calls") {
+      finish(entry, {
+        status: "failed",
+        error: `Stopped after ${entry.run.maxSteps} steps without an answer`,
+      });
+      return;
+    }
+    finish(entry, { status: "succeeded", answer: lastStep?.text ?? "" });
+  } catch (error) {
+    // Calls that threw only reported their timing, which carries the error.
+    timings.forEach((_, toolCallId) => applyTiming(toolCallId));
+    if (!entry.controller.signal.aborted) {
+      console.error(`Run ${entry.run.id} failed`, error);
+    }
+    finish(entry, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    clearInterval(heartbeat);
+    // Desktops passed in belong to someone else and are left running.
+    if (ownsDesktop && entry.run.sandboxId) {
+      await killDesktop(entry.run.sandboxId).catch((error) =>
+        console.error(`Failed to kill desktop of run ${entry.run.id}`, error),
+      );
+    }
+  }
+};
+
+export const getRun = (id: string): AgentRun | null => {
+  const entry = runs.get(id);
+  return entry ? toAgentRun(entry) : null;
+};
+
+// Starts the tool loop in the background and returns right away.
+export const startRun = (input: RunInput): AgentRun => {
+  pruneRuns();
+  const model = getModel(input.modelId);
+  const entry: RunEntry = {
+    run: {
+      id: crypto.randomUUID(),
+      status: "running",
+      prompt: input.prompt,
+      modelId: model.id,
+      sandboxId: input.sandboxId ?? null,
+      maxSteps: input.maxSteps,
+      steps: 0,
+      answer: null,
+      error: null,
+      costUsd: 0,
+      createdAt: Date.now(),
+      finishedAt: null,
+    },
+    events: initialEventState,
+    controller: new AbortController(),
+  };
+  runs.set(entry.run.id, entry);
+  void withSpan(
+    "agent.run",
+    { "run.id": entry.run.id, "model.id": model.id },
+    async (span) => {
+      await execute(entry, model);
+      span.setAttributes({
+        "run.status": entry.run.status,
+        "run.steps": entry.run.steps,
+        "run.cost_usd": entry.run.costUsd,
+      });
+    },
+  );
+  return toAgentRun(entry);
+};
+
+// Null when there is no such run; finished runs are returned unchanged.
+export const cancelRun = (id: string): AgentRun | null => {
+  const entry = runs.get(id);
+  if (!entry) return null;
+  if (entry.run.status === "running") {
+    finish(entry, { status: "cancelled" });
+    entry.controller.abort();
+  }
+  return toAgentRun(entry);
+};
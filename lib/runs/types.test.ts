@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RUN_MAX_STEPS, parseRunInput } from "./types";
+
+describe("parseRunInput", () => {
+  it("fills in the step limit", () => {
+    expect(parseRunInput({ prompt: "Export the report" })).toEqual({
+      prompt: "Export the report",
+      modelId: undefined,
+      sandboxId: undefined,
+      maxSteps: DEFAULT_RUN_MAX_STEPS,
+    });
+    expect(
+      parseRunInput({ prompt: "Go", sandboxId: "sbx-1", maxSteps: 5 }),
+    ).toMatchObject({ sandboxId: "sbx-1", maxSteps: 5 });
+  });
+
+  it("rejects what the run couldn't start with", () => {
+    expect(() => parseRunInput(null)).toThrow("Expected a JSON object");
+    expect(() => parseRunInput({ prompt: " " })).toThrow("Expected a prompt");
+    expect(() => parseRunInput({ prompt: "Go", modelId: "gpt-2" })).toThrow(
+      "Unknown model: gpt-2",
+    );
+    expect(() => parseRunInput({ prompt: "Go", maxSteps: 0 })).toThrow(
+      "Expected maxSteps between 1 and 100",
+    );
+    expect(() => parseRunInput({ prompt: "Go", maxSteps: 2.5 })).toThrow(
+      "Expected maxSteps between 1 and 100",
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import type { ToolEvent } from "@/lib/agent-events";
+import { findModel } from "@/lib/models";
+
+export type RunStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+// An agent task started through POST /api/runs, run on the server without a
+// dashboard attached.
+export type AgentRun = {
+  id: string;
+  status: RunStatus;
+  prompt: string;
+  modelId: string;
+  // The desktop the run drives; null until one is provisioned.
+  sandboxId: string | null;
+  maxSteps: number;
+  // Model calls made so far.
+  steps: number;
+  // The model's last text once the run succeeded.
+  answer: string | null;
+  error: string | null;
+  events: ToolEvent[];
+  costUsd: number;
+  createdAt: number;
+  finishedAt: number | null;
+};
+
+export type RunInput = {
+  prompt: string;
+  modelId?: string;
+  sandboxId?: string;
+  maxSteps: number;
+};
+
+export const DEFAULT_RUN_MAX_STEPS = 30;
+export const MAX_RUN_MAX_STEPS = 100;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Throws with a message fit for a 400 response.
+export const parseRunInput = (value: unknown): RunInput => {
+  if (!isRecord(value)) throw new Error("Expected a JSON object");
+  const { prompt, modelId, sandboxId, maxSteps } = value;
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    throw new Error("Expected a prompt");
+  }
+  if (
+    modelId !== undefined &&
+    (typeof modelId !== "string" || !findModel(modelId))
+  ) {
+    throw new Error(`Unknown model: ${String(modelId)}`);
+  }
+  if (
+    sandboxId !== undefined &&
+    (typeof sandboxId !== "string" || !sandboxId)
+  ) {
+    throw new Error("Expected sandboxId to be a string");
+  }
+  if (
+    maxSteps !== undefined &&
+    (typeof maxSteps !== "number" ||
+      !Number.isInteger(maxSteps) ||
+      maxSteps < 1 ||
+      maxSteps > MAX_RUN_MAX_STEPS)
+  ) {
+    throw new Error(`Expected maxSteps between 1 and ${MAX_RUN_MAX_STEPS}`);
+  }
+  return {
+    prompt,
+    modelId,
+    sandboxId,
+    maxSteps: maxSteps ?? DEFAULT_RUN_MAX_STEPS,
+  };
+};
@@ -0,0 +1,114 @@
+import type { Message } from "ai";
+import { describe, expect, it } from "vitest";
+import type { ToolEvent } from "@/lib/agent-events";
+import { forkConversation, getBranchChoices } from "./branches";
+import type { SessionBranch } from "./types";
+
+const user = (id: string, text: string): Message => ({
+  id,
+  role: "user",
+  content: text,
+  parts: [{ type: "text", text }],
+});
+
+const assistant = (id: string, toolCallId: string): Message => ({
+  id,
+  role: "assistant",
+  content: "",
+  parts: [
+    {
+      type: "tool-invocation",
+      toolInvocation: {
+        state: "result",
+        toolCallId,
+        toolName: "computer",
+        args: { action: "screenshot" },
+        result: { type: "text", text: "ok" },
+      },
+    },
+  ],
+});
+
+const event = (id: string): ToolEvent => ({
+  id,
+  toolName: "computer",
+  timestamp: 0,
+  status: "success",
+  payload: { toolName: "computer", action: "screenshot" },
+});
+
+const branch = (
+  id: string,
+  messageIds: string[],
+  createdAt: number,
+): SessionBranch => ({ id, messageIds, createdAt });
+
+describe("forkConversation", () => {
+  const messages = [
+    user("u1", "Open the browser"),
+    assistant("a1", "call-1"),
+    user("u2", "Search for cats"),
+    assistant("a2", "call-2"),
+  ];
+  const events = [event("call-1"), event("call-2")];
+
+  it("keeps what came before the edited message and replaces it", () => {
+    const fork = forkConversation(messages, events, "u2", "Search for dogs");
+
+    expect(fork?.messages.slice(0, 2)).toEqual(messages.slice(0, 2));
+    expect(fork?.messages[2]).toMatchObject({
+      role: "user",
+      content: "Search for dogs",
+      parts: [{ type: "text", text: "Search for dogs" }],
+    });
+    expect(fork?.messages[2].id).not.toBe("u2");
+    expect(fork?.messages).toHaveLength(3);
+    expect(fork?.events.map(({ id }) => id)).toEqual(["call-1"]);
+  });
+
+  it("only forks from user messages of the conversation", () => {
+    expect(forkConversation(messages, events, "a1", "x")).toBeNull();
+    expect(forkConversation(messages, events, "missing", "x")).toBeNull();
+  });
+});
+
+describe("getBranchChoices", () => {
+  const branches = [
+    branch("main", ["u1", "a1", "u2", "a2"], 1),
+    branch("b", ["u1", "a1", "u2b", "a2b"], 2),
+    branch("c", ["u1", "a1", "u2c"], 3),
+    branch("d", ["u1b"], 4),
+  ];
+
+  it("lists the branches that part ways at a message, oldest first", () => {
+    expect(
+      getBranchChoices(branches, "b", ["u1", "a1", "u2b", "a2b"], 2),
+    ).toEqual({ branchIds: ["main", "b", "c"], current: 1 });
+    expect(
+      getBranchChoices(branches, "b", ["u1", "a1", "u2b", "a2b"], 0),
+    ).toEqual({ branchIds: ["b", "d"], current: 0 });
+  });
+
+  it("uses the live messages of the checked-out branch", () => {
+    // The stored outline of "main" hasn't caught up with the new message.
+    const live = ["u1", "a1", "u2", "a2", "u3"];
+    const forked = [
+      ...branches,
+      branch("e", ["u1", "a1", "u2", "a2", "u3e"], 5),
+    ];
+
+    expect(getBranchChoices(forked, "main", live, 4)).toEqual({
+      branchIds: ["main", "e"],
+      current: 0,
+    });
+  });
+
+  it("is null where there is only one way to go", () => {
+    expect(
+      getBranchChoices(branches, "main", ["u1", "a1", "u2", "a2"], 3),
+    ).toBeNull();
+    expect(
+      getBranchChoices([branch("main", [], 1)], "main", ["u1"], 0),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import type { Message } from "ai";
+import type { ToolEvent } from "@/lib/agent-events";
+import type { SessionBranch } from "./types";
+
+export const MAIN_BRANCH_ID = "main";
+
+const toolCallIds = (messages: Message[]) =>
+  new Set(
+    messages.flatMap((message) =>
+      (message.parts ?? []).flatMap((part) =>
+        part.type === "tool-invocation" ? [part.toolInvocation.toolCallId] : [],
+      ),
+    ),
+  );
+
+// A new branch's conversation: everything before the edited user message, then
+// the message with its new text. Only the events of the kept tool calls come
+// along. Null when `messageId` is not a user message of the conversation.
+export const forkConversation = (
+  messages: Message[],
+  events: ToolEvent[],
+  messageId: string,
+  text: string,
+): { messages: Message[]; events: ToolEvent[] } | null => {
+  const index = messages.findIndex(
+    (message) => message.id === messageId && message.role === "user",
+  );
+  if (index === -1) return null;
+
+  const kept = messages.slice(0, index);
+  const keptCalls = toolCallIds(kept);
+  return {
+    messages: [
+      ...kept,
+      {
+        ...messages[index],
+        id: crypto.randomUUID(),
+        content: text,
+        parts: [{ type: "text", text }],
+        createdAt: new Date(),
+      },
+    ],
+    events: events.filter((event) => keptCalls.has(event.id)),
+  };
+};
+
+// The branches that share the conversation up to `index` and differ at it,
+// one per distinct message, oldest first. `messageIds` are the checked-out
+// branch's current messages, which may be newer than its stored outline.
+// Null when there is nothing to switch between.
+export const getBranchChoices = (
+  branches: SessionBranch[],
+  branchId: string,
+  messageIds: string[],
+  index: number,
+): { branchIds: string[]; current: number } | null => {
+  const prefix = messageIds.slice(0, index);
+  const groups = new Map<string, SessionBranch[]>();
+  [...branches]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((branch) =>
+      branch.id === branchId ? { ...branch, messageIds } : branch,
+    )
+    .filter(
+      (branch) =>
+        branch.messageIds.length > index &&
+        prefix.every((id, position) => branch.messageIds[position] === id),
+    )
+    .forEach((branch) => {
+      const key = branch.messageIds[index];
+      groups.set(key, [...(groups.get(key) ?? []), branch]);
+    });
+  if (groups.size < 2) return null;
+
+  // Within a group, the checked-out branch or else the newest one.
+  const choices = [...groups.values()].map(
+    (group) =>
+      group.find((branch) => branch.id === branchId) ?? group[group.length - 1],
+  );
+  return {
+    branchIds: choices.map((branch) => branch.id),
+    current: choices.findIndex((branch) => branch.id === branchId),
+  };
+};
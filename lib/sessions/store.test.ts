@@ -0,0 +1,91 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { Message } from "ai";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// SESSIONS_DIR is read when the store loads.
+let store: typeof import("./store");
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "sessions-"));
+  vi.stubEnv("SESSIONS_DIR", dir);
+  store = await import("./store");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+const screenshotMessage = (id: string): Message => ({
+  id,
+  role: "user",
+  content: "x".repeat(10_000),
+});
+
+describe("listSessions", () => {
+  it("lists sessions from their summaries, newest first", async () => {
+    await store.createSession({
+      id: "older",
+      title: "Older",
+      messages: [screenshotMessage("m1")],
+      updatedAt: 1,
+    });
+    await store.createSession({ id: "newer", title: "Newer", updatedAt: 2 });
+
+    const sessions = await store.listSessions();
+    expect(sessions.map(({ id, title }) => [id, title])).toEqual([
+      ["newer", "Newer"],
+      ["older", "Older"],
+    ]);
+    expect(sessions[1]).not.toHaveProperty("messages");
+    expect((await readdir(dir)).sort()).toEqual([
+      "newer.json",
+      "newer.summary.json",
+      "older.json",
+      "older.summary.json",
+    ]);
+  });
+
+  it("keeps summaries in step with saves and deletes", async () => {
+    await store.updateSession("older", { title: "Renamed" });
+    expect((await store.listSessions())[0]).toMatchObject({
+      id: "older",
+      title: "Renamed",
+    });
+
+    await store.deleteSession("older");
+    expect((await store.listSessions()).map(({ id }) => id)).toEqual(["newer"]);
+    expect(await readdir(dir)).not.toContain("older.summary.json");
+  });
+
+  it("writes the summary of a session saved before summaries existed", async () => {
+    await writeFile(
+      path.join(dir, "legacy.json"),
+      JSON.stringify({
+        id: "legacy",
+        title: "Legacy",
+        messages: [],
+        events: [],
+        sandboxId: null,
+        createdAt: 0,
+        updatedAt: 3,
+      }),
+    );
+
+    expect((await store.listSessions())[0]).toEqual({
+      id: "legacy",
+      title: "Legacy",
+      sandboxId: null,
+      modelId: expect.any(String),
+      costUsd: 0,
+      budgetUsd: null,
+      readOnly: false,
+      createdAt: 0,
+      updatedAt: 3,
+    });
+    expect(await readdir(dir)).toContain("legacy.summary.json");
+  });
+});
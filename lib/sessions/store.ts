@@ -0,0 +1,326 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import type { Message } from "ai";
+import type { ToolEvent } from "@/lib/agent-events";
+import { DEFAULT_MODEL_ID } from "@/lib/models";
+import { forkConversation, MAIN_BRANCH_ID } from "./branches";
+import {
+  toSessionSummary,
+  type ChatSession,
+  type SessionRecording,
+  type SessionSummary,
+  type SessionUpdate,
+} from "./types";
+
+// One JSON file per session, so a large screenshot-heavy session doesn't slow
+// down reads of the others.
+export const SESSIONS_DIR = path.resolve(
+  process.env.SESSIONS_DIR ?? path.join(process.cwd(), ".data", "sessions"),
+);
+
+const SESSION_ID_PATTERN = /^[\w-]{1,128}$/;
+
+export const isValidSessionId = (id: string) => SESSION_ID_PATTERN.test(id);
+
+const sessionPath = (id: string) => {
+  if (!isValidSessionId(id)) {
+    throw new Error(`Invalid session id: ${id}`);
+  }
+  return path.join(SESSIONS_DIR, `${id}.json`);
+};
+
+// What the session list shows, beside each session so listing doesn't parse
+// every conversation and its screenshots.
+const summaryPath = (id: string) =>
+  sessionPath(id).replace(/\.json$/, ".summary.json");
+
+// Branches that aren't checked out, one file each beside the session's.
+type StoredBranch = { messages: Message[]; events: ToolEvent[] };
+
+const branchesDir = (id: string) =>
+  sessionPath(id).replace(/\.json$/, ".branches");
+
+const branchPath = (id: string, branchId: string) => {
+  if (!isValidSessionId(branchId)) {
+    throw new Error(`Invalid branch id: ${branchId}`);
+  }
+  return path.join(branchesDir(id), `${branchId}.json`);
+};
+
+// Writes to a session go one at a time so concurrent saves can't interleave.
+const queues = new Map<string, Promise<unknown>>();
+
+const enqueue = <T>(id: string, task: () => Promise<T>) => {
+  const previous = queues.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  queues.set(id, next);
+  next
+    .finally(() => {
+      if (queues.get(id) === next) queues.delete(id);
+    })
+    .catch(() => undefined);
+  return next;
+};
+
+const readSession = async (id: string): Promise<ChatSession | null> => {
+  try {
+    const raw = await readFile(sessionPath(id), "utf8");
+    // Sessions saved before per-session models, cost tracking, trace imports,
+    // recordings and branches get the defaults.
+    const session = JSON.parse(raw) as ChatSession;
+    const branchId = session.branchId ?? MAIN_BRANCH_ID;
+    return {
+      ...session,
+      modelId: session.modelId ?? DEFAULT_MODEL_ID,
+      costUsd: session.costUsd ?? 0,
+      budgetUsd: session.budgetUsd ?? null,
+      readOnly: session.readOnly ?? false,
+      recordings: session.recordings ?? [],
+      branchId,
+      branches: session.branches ?? [
+        {
+          id: branchId,
+          messageIds: session.messages.map((message) => message.id),
+          createdAt: session.createdAt,
+        },
+      ],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+// Write-then-rename keeps the previous file intact if the process dies mid-save.
+const writeJson = async (target: string, value: unknown) => {
+  await mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(value));
+  await rename(temporary, target);
+};
+
+// The checked-out branch's outline follows its messages on every save.
+const writeSession = async (session: ChatSession) => {
+  const synced: ChatSession = {
+    ...session,
+    branches: session.branches.map((branch) =>
+      branch.id === session.branchId
+        ? { ...branch, messageIds: session.messages.map(({ id }) => id) }
+        : branch,
+    ),
+  };
+  await writeJson(sessionPath(session.id), synced);
+  await writeJson(summaryPath(session.id), toSessionSummary(synced));
+  return synced;
+};
+
+// Sessions saved before summaries were kept get theirs on first listing.
+const readSummary = async (id: string): Promise<SessionSummary | null> => {
+  try {
+    return JSON.parse(
+      await readFile(summaryPath(id), "utf8"),
+    ) as SessionSummary;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  return enqueue(id, async () => {
+    const session = await readSession(id);
+    if (!session) return null;
+    const summary = toSessionSummary(session);
+    await writeJson(summaryPath(id), summary);
+    return summary;
+  });
+};
+
+const readBranch = async (
+  id: string,
+  branchId: string,
+): Promise<StoredBranch | null> => {
+  try {
+    return JSON.parse(
+      await readFile(branchPath(id, branchId), "utf8"),
+    ) as StoredBranch;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+// Sets the checked-out branch aside before another one takes its place.
+const stashBranch = (session: ChatSession) =>
+  writeJson(branchPath(session.id, session.branchId), {
+    messages: session.messages,
+    events: session.events,
+  } satisfies StoredBranch);
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  let entries: string[];
+  try {
+    entries = await readdir(SESSIONS_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const summaries = await Promise.all(
+    entries
+      .filter(
+        (entry) => entry.endsWith(".json") && !entry.endsWith(".summary.json"),
+      )
+      .map((entry) => readSummary(entry.slice(0, -".json".length))),
+  );
+  return summaries
+    .filter((summary): summary is SessionSummary => summary !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = (id: string) => readSession(id);
+
+export const createSession = (
+  input: Partial<ChatSession> & { id: string },
+): Promise<ChatSession | null> =>
+  enqueue(input.id, async () => {
+    if (await readSession(input.id)) return null;
+    const now = Date.now();
+    const branchId = input.branchId ?? MAIN_BRANCH_ID;
+    const session: ChatSession = {
+      id: input.id,
+      title: input.title ?? "New session",
+      messages: input.messages ?? [],
+      events: input.events ?? [],
+      sandboxId: input.sandboxId ?? null,
+      modelId: input.modelId ?? DEFAULT_MODEL_ID,
+      costUsd: input.costUsd ?? 0,
+      budgetUsd: input.budgetUsd ?? null,
+      readOnly: input.readOnly ?? false,
+      recordings: input.recordings ?? [],
+      branchId,
+      branches: input.branches ?? [
+        { id: branchId, messageIds: [], createdAt: now },
+      ],
+      createdAt: input.createdAt ?? now,
+      updatedAt: input.updatedAt ?? now,
+    };
+    await writeSession(session);
+    return session;
+  });
+
+export const updateSession = (
+  id: string,
+  update: SessionUpdate,
+): Promise<ChatSession | null> =>
+  enqueue(id, async () => {
+    const existing = await readSession(id);
+    if (!existing) return null;
+    const session: ChatSession = {
+      ...existing,
+      ...update,
+      id,
+      updatedAt: Date.now(),
+    };
+    await writeSession(session);
+    return session;
+  });
+
+// Spend isn't user activity, so updatedAt (and the list order) stays put.
+export const addSessionCost = (
+  id: string,
+  costUsd: number,
+): Promise<ChatSession | null> =>
+  enqueue(id, async () => {
+    const existing = await readSession(id);
+    if (!existing) return null;
+    const session = { ...existing, costUsd: existing.costUsd + costUsd };
+    await writeSession(session);
+    return session;
+  });
+
+export const addSessionRecording = (
+  id: string,
+  recording: SessionRecording,
+): Promise<ChatSession | null> =>
+  enqueue(id, async () => {
+    const existing = await readSession(id);
+    if (!existing) return null;
+    const session = {
+      ...existing,
+      recordings: [...existing.recordings, recording],
+    };
+    await writeSession(session);
+    return session;
+  });
+
+// Checks out a new branch where `messageId` is replaced by `text`; the
+// branch that was checked out is kept as it was.
+export const forkSession = (
+  id: string,
+  messageId: string,
+  text: string,
+): Promise<ChatSession | null> =>
+  enqueue(id, async () => {
+    const existing = await readSession(id);
+    if (!existing) return null;
+    const fork = forkConversation(
+      existing.messages,
+      existing.events,
+      messageId,
+      text,
+    );
+    if (!fork) return null;
+
+    await stashBranch(existing);
+    const now = Date.now();
+    const branchId = crypto.randomUUID();
+    const session: ChatSession = {
+      ...existing,
+      ...fork,
+      branchId,
+      branches: [
+        ...existing.branches,
+        { id: branchId, messageIds: [], createdAt: now },
+      ],
+      updatedAt: now,
+    };
+    return writeSession(session);
+  });
+
+export const checkoutSessionBranch = (
+  id: string,
+  branchId: string,
+): Promise<ChatSession | null> =>
+  enqueue(id, async () => {
+    const existing = await readSession(id);
+    if (!existing) return null;
+    if (existing.branchId === branchId) return existing;
+    const stored = existing.branches.some((branch) => branch.id === branchId)
+      ? await readBranch(id, branchId)
+      : null;
+    if (!stored) return null;
+
+    await stashBranch(existing);
+    const session: ChatSession = {
+      ...existing,
+      ...stored,
+      branchId,
+      updatedAt: Date.now(),
+    };
+    const checkedOut = await writeSession(session);
+    await rm(branchPath(id, branchId), { force: true });
+    return checkedOut;
+  });
+
+export const deleteSession = (id: string) =>
+  enqueue(id, async () => {
+    const existed = (await readSession(id)) !== null;
+    await rm(sessionPath(id), { force: true });
+    await rm(summaryPath(id), { force: true });
+    await rm(branchesDir(id), { recursive: true, force: true });
+    return existed;
+  });
@@ -0,0 +1,97 @@
+import type { Message } from "ai";
+import type { ToolEvent } from "@/lib/agent-events";
+import { findModel } from "@/lib/models";
+
+// A screen recording of one run, served by
+// /api/sessions/:id/recordings/:recordingId.
+export type SessionRecording = {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+};
+
+// A line of the conversation. Editing an earlier user message forks a new
+// branch from it; only the checked-out branch's messages and events live on
+// the session, the others are stored beside it until checked out.
+export type SessionBranch = {
+  id: string;
+  // In order, so branches that share a prefix can be matched up.
+  messageIds: string[];
+  createdAt: number;
+};
+
+export type ChatSession = {
+  id: string;
+  title: string;
+  messages: Message[];
+  events: ToolEvent[];
+  // Desktop provisioned for this session; null until it is first opened.
+  sandboxId: string | null;
+  // Registry id from lib/models.ts.
+  modelId: string;
+  // Estimated spend so far, added to by the chat route after every step.
+  costUsd: number;
+  // Runs stop once costUsd reaches this; null means no limit.
+  budgetUsd: number | null;
+  // Sessions imported from a trace bundle can be viewed and replayed only.
+  readOnly: boolean;
+  recordings: SessionRecording[];
+  // The checked-out branch, and every branch including it.
+  branchId: string;
+  branches: SessionBranch[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+// What the session list needs; messages, events, recordings and branches are
+// fetched per session.
+export type SessionSummary = Omit<
+  ChatSession,
+  "messages" | "events" | "recordings" | "branchId" | "branches"
+>;
+
+export type SessionUpdate = Partial<
+  Pick<
+    ChatSession,
+    "title" | "messages" | "events" | "sandboxId" | "modelId" | "budgetUsd"
+  >
+>;
+
+export const toSessionSummary = (session: ChatSession): SessionSummary => ({
+  id: session.id,
+  title: session.title,
+  sandboxId: session.sandboxId,
+  modelId: session.modelId,
+  costUsd: session.costUsd,
+  budgetUsd: session.budgetUsd,
+  readOnly: session.readOnly,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Keeps only the fields a client may change, dropping anything malformed.
+export const parseSessionUpdate = (value: unknown): SessionUpdate => {
+  if (!isRecord(value)) return {};
+  const update: SessionUpdate = {};
+  if (typeof value.title === "string") update.title = value.title;
+  if (Array.isArray(value.messages)) {
+    update.messages = value.messages as Message[];
+  }
+  if (Array.isArray(value.events)) update.events = value.events as ToolEvent[];
+  if (typeof value.sandboxId === "string" || value.sandboxId === null) {
+    update.sandboxId = value.sandboxId;
+  }
+  if (typeof value.modelId === "string" && findModel(value.modelId)) {
+    update.modelId = value.modelId;
+  }
+  if (
+    (typeof value.budgetUsd === "number" && value.budgetUsd > 0) ||
+    value.budgetUsd === null
+  ) {
+    update.budgetUsd = value.budgetUsd;
+  }
+  return update;
+};
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getTraceExporters } from "./config";
+
+describe("getTraceExporters", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("traces only when an exporter or OTLP endpoint is configured", () => {
+    expect(getTraceExporters({})).toEqual([]);
+    expect(
+      getTraceExporters({ OTEL_EXPORTER_OTLP_ENDPOINT: "http://collector" }),
+    ).toEqual(["otlp"]);
+    expect(
+      getTraceExporters({
+        OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: "http://collector/v1/traces",
+      }),
+    ).toEqual(["otlp"]);
+  });
+
+  it("reads the comma-separated exporter list", () => {
+    expect(getTraceExporters({ OTEL_TRACES_EXPORTER: "console" })).toEqual([
+      "console",
+    ]);
+    expect(
+      getTraceExporters({ OTEL_TRACES_EXPORTER: " Console, otlp " }),
+    ).toEqual(["otlp", "console"]);
+    expect(
+      getTraceExporters({
+        OTEL_TRACES_EXPORTER: "none",
+        OTEL_EXPORTER_OTLP_ENDPOINT: "http://collector",
+      }),
+    ).toEqual([]);
+  });
+
+  it("warns about exporters it doesn't know", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(
+      getTraceExporters({ OTEL_TRACES_EXPORTER: "zipkin,console" }),
+    ).toEqual(["console"]);
+    expect(warn).toHaveBeenCalledWith(
+      "Ignoring unknown trace exporter: zipkin",
+    );
+  });
+});
@@ -0,0 +1,31 @@
+export type TraceExporterName = "otlp" | "console";
+
+const EXPORTERS: TraceExporterName[] = ["otlp", "console"];
+
+export const DEFAULT_SERVICE_NAME = "ai-sdk-computer-use";
+
+// OTEL_TRACES_EXPORTER takes a comma-separated list as in the OpenTelemetry
+// spec ("otlp", "console" or "none"). Left unset, tracing is only on when an
+// OTLP endpoint is configured, so local runs stay quiet by default.
+export const getTraceExporters = (
+  env: Record<string, string | undefined>,
+): TraceExporterName[] => {
+  const requested = env.OTEL_TRACES_EXPORTER?.trim();
+  if (!requested) {
+    const endpoint =
+      env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || env.OTEL_EXPORTER_OTLP_ENDPOINT;
+    return endpoint ? ["otlp"] : [];
+  }
+
+  const names = requested
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (names.includes("none")) return [];
+  names
+    .filter((name) => !EXPORTERS.includes(name as TraceExporterName))
+    .forEach((name) =>
+      console.warn(`Ignoring unknown trace exporter: ${name}`),
+    );
+  return EXPORTERS.filter((name) => names.includes(name));
+};
@@ -0,0 +1,41 @@
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import {
+  DEFAULT_SERVICE_NAME,
+  getTraceExporters,
+  type TraceExporterName,
+} from "./config";
+
+// The OTLP exporter reads its endpoint and headers from the standard
+// OTEL_EXPORTER_OTLP_* variables; the console one prints each span as it
+// ends, for local use.
+const createSpanProcessor = (name: TraceExporterName): SpanProcessor =>
+  name === "otlp"
+    ? new BatchSpanProcessor(new OTLPTraceExporter())
+    : new SimpleSpanProcessor(new ConsoleSpanExporter());
+
+export const registerTracing = () => {
+  const exporters = getTraceExporters(process.env);
+  if (exporters.length === 0) return;
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      "service.name": process.env.OTEL_SERVICE_NAME || DEFAULT_SERVICE_NAME,
+    }),
+    spanProcessors: exporters.map(createSpanProcessor),
+  });
+  provider.register();
+  // Flush batched spans before the server exits.
+  process.once("SIGTERM", () => {
+    provider.shutdown().catch((error) => {
+      console.error("Failed to flush traces", error);
+    });
+  });
+};
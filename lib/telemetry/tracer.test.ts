@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { toolSpanAttributes } from "./tracer";
+
+describe("toolSpanAttributes", () => {
+  it("keeps actions, coordinates and commands", () => {
+    expect(
+      toolSpanAttributes("computer", {
+        action: "left_click_drag",
+        start_coordinate: [10, 20],
+        coordinate: [30, 40],
+      }),
+    ).toEqual({
+      "tool.name": "computer",
+      "tool.action": "left_click_drag",
+      "tool.start_coordinate": [10, 20],
+      "tool.coordinate": [30, 40],
+    });
+    expect(
+      toolSpanAttributes("bash", { command: "ls -la", restart: false }),
+    ).toEqual({
+      "tool.name": "bash",
+      "tool.command": "ls -la",
+      "tool.restart": false,
+    });
+  });
+
+  it("records only the length of typed text and file contents", () => {
+    expect(
+      toolSpanAttributes("computer", { action: "type", text: "hunter2" }),
+    ).toEqual({
+      "tool.name": "computer",
+      "tool.action": "type",
+      "tool.text_length": 7,
+    });
+    expect(
+      toolSpanAttributes("str_replace_editor", {
+        command: "create",
+        path: "/home/user/notes.txt",
+        file_text: "x".repeat(5000),
+      }),
+    ).toMatchObject({
+      "tool.path": "/home/user/notes.txt",
+      "tool.file_text_length": 5000,
+    });
+  });
+
+  it("truncates long strings and skips values spans can't hold", () => {
+    const attributes = toolSpanAttributes("bash", {
+      command: "echo ".repeat(100),
+      env: { HOME: "/root" },
+    });
+
+    expect(attributes["tool.command"]).toHaveLength(256);
+    expect(attributes).not.toHaveProperty("tool.env");
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  context,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span,
+} from "@opentelemetry/api";
+import type { TelemetrySettings } from "ai";
+import type { TokenUsage } from "@/lib/usage";
+import { DEFAULT_SERVICE_NAME } from "./config";
+
+// Spans are dropped until instrumentation.ts registers a tracer provider.
+export const tracer = trace.getTracer(DEFAULT_SERVICE_NAME);
+
+// The AI SDK's spans for each model step and tool call. Prompts and results
+// are left out: they carry every screenshot of the conversation.
+export const agentTelemetry = (
+  functionId: string,
+  metadata?: Record<string, string>,
+): TelemetrySettings => ({
+  isEnabled: true,
+  functionId,
+  metadata,
+  recordInputs: false,
+  recordOutputs: false,
+});
+
+export const recordSpanError = (span: Span, error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+};
+
+// Runs `fn` in a child span of the active one, which ends when `fn` settles.
+export const withSpan = <T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+): Promise<T> =>
+  tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+
+// For spans that outlive the call that started them, like a streamed
+// response; spans started inside `fn` become its children.
+export const inSpan = <T>(span: Span, fn: () => T) =>
+  context.with(trace.setSpan(context.active(), span), fn);
+
+// Typed text and file contents may be long or sensitive; only their length
+// is kept.
+const CONTENT_ARGS = new Set(["text", "file_text", "old_str", "new_str"]);
+const MAX_ATTRIBUTE_LENGTH = 256;
+
+// Tool arguments as span attributes, e.g. `tool.action` and `tool.coordinate`.
+export const toolSpanAttributes = (
+  toolName: string,
+  args: Record<string, unknown>,
+): Attributes => {
+  const attributes: Attributes = { "tool.name": toolName };
+  Object.entries(args).forEach(([key, value]) => {
+    if (typeof value === "string" && CONTENT_ARGS.has(key)) {
+      attributes[`tool.${key}_length`] = value.length;
+    } else if (typeof value === "string") {
+      attributes[`tool.${key}`] = value.slice(0, MAX_ATTRIBUTE_LENGTH);
+    } else if (typeof value === "number" || typeof value === "boolean") {
+      attributes[`tool.${key}`] = value;
+    } else if (
+      Array.isArray(value) &&
+      value.every((item) => typeof item === "number")
+    ) {
+      attributes[`tool.${key}`] = value;
+    }
+  });
+  return attributes;
+};
+
+export const usageAttributes = (
+  tokens: TokenUsage,
+  costUsd: number,
+): Attributes => ({
+  "usage.input_tokens": tokens.inputTokens,
+  "usage.output_tokens": tokens.outputTokens,
+  "usage.cache_read_tokens": tokens.cacheReadTokens,
+  "usage.cache_write_tokens": tokens.cacheWriteTokens,
+  "usage.cost_usd": costUsd,
+});
@@ -0,0 +1,90 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { SESSIONS_DIR } from "@/lib/sessions/store";
+import type { TaskTemplate, TemplateInput } from "./types";
+
+// The library sits with the sessions, one JSON file per template. A directory
+// (rather than a .json file) keeps it out of the session listing.
+const TEMPLATES_DIR = path.join(SESSIONS_DIR, "templates");
+
+const TEMPLATE_ID_PATTERN = /^[\w-]{1,128}$/;
+
+export const isValidTemplateId = (id: string) => TEMPLATE_ID_PATTERN.test(id);
+
+const templatePath = (id: string) => {
+  if (!isValidTemplateId(id)) {
+    throw new Error(`Invalid template id: ${id}`);
+  }
+  return path.join(TEMPLATES_DIR, `${id}.json`);
+};
+
+const readTemplate = async (id: string): Promise<TaskTemplate | null> => {
+  try {
+    return JSON.parse(await readFile(templatePath(id), "utf8")) as TaskTemplate;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+// Write-then-rename keeps the previous file intact if the process dies mid-save.
+const writeTemplate = async (template: TaskTemplate) => {
+  await mkdir(TEMPLATES_DIR, { recursive: true });
+  const target = templatePath(template.id);
+  const temporary = `${target}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(template));
+  await rename(temporary, target);
+  return template;
+};
+
+// Alphabetical, the order the picker shows them in.
+export const listTemplates = async (): Promise<TaskTemplate[]> => {
+  let entries: string[];
+  try {
+    entries = await readdir(TEMPLATES_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const templates = await Promise.all(
+    entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => readTemplate(entry.slice(0, -".json".length))),
+  );
+  return templates
+    .filter((template): template is TaskTemplate => template !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createTemplate = (input: TemplateInput) => {
+  const now = Date.now();
+  return writeTemplate({
+    id: crypto.randomUUID(),
+    ...input,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const updateTemplate = async (
+  id: string,
+  update: Partial<TemplateInput>,
+): Promise<TaskTemplate | null> => {
+  const existing = await readTemplate(id);
+  if (!existing) return null;
+  return writeTemplate({ ...existing, ...update, id, updatedAt: Date.now() });
+};
+
+export const deleteTemplate = async (id: string) => {
+  const existed = (await readTemplate(id)) !== null;
+  await rm(templatePath(id), { force: true });
+  return existed;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  fillTemplate,
+  getTemplateParameters,
+  parseTemplateInput,
+  parseTemplateLibrary,
+  toTemplateLibrary,
+} from "./types";
+
+describe("getTemplateParameters", () => {
+  it("lists each placeholder once, in order", () => {
+    expect(
+      getTemplateParameters(
+        "Log into {env}, export the report for {date} and mail it to {env}-ops",
+      ),
+    ).toEqual(["env", "date"]);
+    expect(getTemplateParameters("No parameters { here }")).toEqual([]);
+  });
+});
+
+describe("fillTemplate", () => {
+  it("replaces every occurrence and leaves unknown placeholders", () => {
+    expect(
+      fillTemplate("{env}: report for {date} on {env}", { env: "staging" }),
+    ).toBe("staging: report for {date} on staging");
+  });
+});
+
+describe("parseTemplateInput", () => {
+  it("needs a non-empty name and prompt", () => {
+    expect(parseTemplateInput({ name: " Daily ", prompt: "Go" })).toEqual({
+      name: "Daily",
+      prompt: "Go",
+    });
+    expect(parseTemplateInput({ name: "Daily", prompt: "  " })).toBeNull();
+    expect(parseTemplateInput({ prompt: "Go" })).toBeNull();
+  });
+});
+
+describe("parseTemplateLibrary", () => {
+  it("reads back an export", () => {
+    const library = toTemplateLibrary([
+      { id: "t1", name: "Daily", prompt: "Go", createdAt: 0, updatedAt: 0 },
+    ]);
+
+    expect(parseTemplateLibrary(JSON.parse(JSON.stringify(library)))).toEqual([
+      { name: "Daily", prompt: "Go" },
+    ]);
+  });
+
+  it("rejects other files and malformed templates", () => {
+    expect(() => parseTemplateLibrary({ templates: [] })).toThrow(
+      "Not a template library export",
+    );
+    expect(() =>
+      parseTemplateLibrary({ version: 1, templates: [{ name: "x" }] }),
+    ).toThrow("Template 1 is missing a name or prompt");
+  });
+});
@@ -0,0 +1,82 @@
+// A saved prompt the team reruns, with `{placeholder}` parameters filled in
+// before it is sent.
+export type TaskTemplate = {
+  id: string;
+  name: string;
+  prompt: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type TemplateInput = Pick<TaskTemplate, "name" | "prompt">;
+
+// What GET /api/templates/export downloads and POST /api/templates/import
+// takes back.
+export type TemplateLibrary = {
+  version: 1;
+  templates: TemplateInput[];
+};
+
+export const TEMPLATE_LIBRARY_VERSION = 1;
+
+const PLACEHOLDER_PATTERN = /\{([\w-]+)\}/g;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Placeholder names in the order they first appear, each once.
+export const getTemplateParameters = (prompt: string) => [
+  ...new Set(
+    Array.from(prompt.matchAll(PLACEHOLDER_PATTERN), ([, name]) => name),
+  ),
+];
+
+// Placeholders without a value are left as they are.
+export const fillTemplate = (prompt: string, values: Record<string, string>) =>
+  prompt.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : placeholder,
+  );
+
+// Null unless both fields are non-empty strings.
+export const parseTemplateInput = (value: unknown): TemplateInput | null => {
+  if (!isRecord(value)) return null;
+  const { name, prompt } = value;
+  if (typeof name !== "string" || typeof prompt !== "string") return null;
+  if (!name.trim() || !prompt.trim()) return null;
+  return { name: name.trim(), prompt };
+};
+
+// Only the fields a client may change, dropping anything malformed.
+export const parseTemplateUpdate = (value: unknown): Partial<TemplateInput> => {
+  if (!isRecord(value)) return {};
+  const update: Partial<TemplateInput> = {};
+  if (typeof value.name === "string" && value.name.trim()) {
+    update.name = value.name.trim();
+  }
+  if (typeof value.prompt === "string" && value.prompt.trim()) {
+    update.prompt = value.prompt;
+  }
+  return update;
+};
+
+export const parseTemplateLibrary = (value: unknown): TemplateInput[] => {
+  if (!isRecord(value) || value.version !== TEMPLATE_LIBRARY_VERSION) {
+    throw new Error("Not a template library export");
+  }
+  if (!Array.isArray(value.templates)) {
+    throw new Error("Template library has no templates");
+  }
+  return value.templates.map((template, index) => {
+    const input = parseTemplateInput(template);
+    if (!input)
+      throw new Error(`Template ${index + 1} is missing a name or prompt`);
+    return input;
+  });
+};
+
+export const toTemplateLibrary = (
+  templates: TaskTemplate[],
+): TemplateLibrary => ({
+  version: TEMPLATE_LIBRARY_VERSION,
+  templates: templates.map(({ name, prompt }) => ({ name, prompt })),
+});
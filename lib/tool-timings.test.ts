@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getToolTimings, timeToolCall, type ToolTiming } from "./tool-timings";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("timeToolCall", () => {
+  it("reports when the call started and how long it ran", async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const timings: ToolTiming[] = [];
+
+    const result = await timeToolCall(
+      "t1",
+      (timing) => timings.push(timing),
+      async () => {
+        vi.advanceTimersByTime(250);
+        return "done";
+      },
+    );
+
+    expect(result).toBe("done");
+    expect(timings).toEqual([
+      { toolCallId: "t1", startedAt: 1_000, endedAt: 1_250, durationMs: 250 },
+    ]);
+  });
+
+  it("reports and rethrows errors", async () => {
+    const timings: ToolTiming[] = [];
+
+    await expect(
+      timeToolCall(
+        "t1",
+        (timing) => timings.push(timing),
+        async () => {
+          throw new Error("boom");
+        },
+      ),
+    ).rejects.toThrow("boom");
+    expect(timings[0].error).toBe("boom");
+  });
+});
+
+describe("getToolTimings", () => {
+  it("picks the timing annotations", () => {
+    const timing = {
+      type: "tool-timing",
+      toolCallId: "t1",
+      startedAt: 1,
+      endedAt: 2,
+      durationMs: 1,
+    };
+    expect(
+      getToolTimings([{ type: "usage", costUsd: 1 }, timing, null]),
+    ).toEqual([timing]);
+  });
+});
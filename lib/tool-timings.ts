@@ -0,0 +1,57 @@
+import type { Message } from "ai";
+
+// Written into the assistant message's annotations once a tool call finishes
+// running on the server. Time spent waiting for approval is not included.
+export type ToolTimingAnnotation = {
+  type: "tool-timing";
+  toolCallId: string;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  // Set when the tool threw instead of returning a result.
+  error?: string;
+};
+
+export type ToolTiming = Omit<ToolTimingAnnotation, "type">;
+
+export type TimingRecorder = (timing: ToolTiming) => void;
+
+// Runs one tool call and reports how long it took, even when it throws.
+export const timeToolCall = async <Result>(
+  toolCallId: string,
+  record: TimingRecorder | undefined,
+  run: () => Promise<Result>,
+): Promise<Result> => {
+  const startedAt = Date.now();
+  let error: string | undefined;
+  try {
+    return await run();
+  } catch (thrown) {
+    error = thrown instanceof Error ? thrown.message : String(thrown);
+    throw thrown;
+  } finally {
+    const endedAt = Date.now();
+    record?.({
+      toolCallId,
+      startedAt,
+      endedAt,
+      durationMs: endedAt - startedAt,
+      ...(error !== undefined && { error }),
+    });
+  }
+};
+
+const isTimingAnnotation = (value: unknown): value is ToolTimingAnnotation => {
+  if (typeof value !== "object" || value === null) return false;
+  const annotation = value as Partial<ToolTimingAnnotation>;
+  return (
+    annotation.type === "tool-timing" &&
+    typeof annotation.toolCallId === "string" &&
+    typeof annotation.startedAt === "number" &&
+    typeof annotation.durationMs === "number"
+  );
+};
+
+export const getToolTimings = (
+  annotations: Message["annotations"],
+): ToolTimingAnnotation[] => (annotations ?? []).filter(isTimingAnnotation);
@@ -0,0 +1,182 @@
+import type { Message } from "ai";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import type { ToolEvent } from "@/lib/agent-events";
+import type { ChatSession } from "@/lib/sessions/types";
+import {
+  createTraceBundle,
+  readTraceBundle,
+  TRACE_FORMAT,
+  TRACE_VERSION,
+} from "./bundle";
+
+const png = Buffer.from("fake png bytes").toString("base64");
+
+const session: ChatSession = {
+  id: "s1",
+  title: "Open the docs",
+  messages: [
+    { id: "u1", role: "user", content: "Open the docs", parts: [] },
+    {
+      id: "a1",
+      role: "assistant",
+      content: "",
+      parts: [
+        { type: "text", text: "Taking a look." },
+        {
+          type: "tool-invocation",
+          toolInvocation: {
+            state: "result",
+            toolCallId: "call/1",
+            toolName: "computer",
+            args: { action: "screenshot" },
+            result: { type: "image", data: png },
+          },
+        },
+      ],
+    },
+  ] as Message[],
+  events: [
+    {
+      id: "call/1",
+      toolName: "computer",
+      timestamp: 1_000,
+      status: "success",
+      durationMs: 420,
+      payload: { toolName: "computer", action: "screenshot" },
+      result: { type: "image", data: png },
+    },
+  ] satisfies ToolEvent[],
+  sandboxId: "sandbox-1",
+  modelId: "claude-sonnet-4",
+  costUsd: 0.12,
+  budgetUsd: null,
+  readOnly: false,
+  recordings: [],
+  branchId: "main",
+  branches: [],
+  createdAt: 0,
+  updatedAt: 5_000,
+};
+
+// What useChat stores: every result in the parts and in toolInvocations.
+const invocation = {
+  state: "result",
+  toolCallId: "call-2",
+  toolName: "computer",
+  args: { action: "screenshot" },
+  result: { type: "image", data: png },
+} as const;
+const chatSession: ChatSession = {
+  ...session,
+  messages: [
+    {
+      id: "a2",
+      role: "assistant",
+      content: "",
+      parts: [{ type: "tool-invocation", toolInvocation: invocation }],
+      toolInvocations: [invocation],
+    },
+  ],
+  events: [],
+};
+
+describe("createTraceBundle", () => {
+  it("stores screenshots as separate files next to the manifest", () => {
+    const files = unzipSync(createTraceBundle(session));
+    expect(Object.keys(files).sort()).toEqual([
+      "report.html",
+      "report.md",
+      "screenshots/call_1.png",
+      "trace.json",
+    ]);
+    expect(strFromU8(files["screenshots/call_1.png"])).toBe("fake png bytes");
+
+    const manifest = JSON.parse(strFromU8(files["trace.json"]));
+    expect(manifest).toMatchObject({
+      format: TRACE_FORMAT,
+      version: TRACE_VERSION,
+      session: { id: "s1", modelId: "claude-sonnet-4", sandboxId: "sandbox-1" },
+    });
+    expect(manifest.events[0].result).toEqual({
+      type: "image",
+      file: "screenshots/call_1.png",
+    });
+    expect(strFromU8(files["trace.json"])).not.toContain(png);
+  });
+
+  it("writes a readable report of the run", () => {
+    const files = unzipSync(createTraceBundle(session));
+    const markdown = strFromU8(files["report.md"]);
+    expect(markdown).toContain("# Open the docs");
+    expect(markdown).toContain("- **Model:** Claude Sonnet 4");
+    expect(markdown).toContain("**User:** Open the docs");
+    expect(markdown).toContain("1. `computer` screenshot (success, 420 ms)");
+    expect(markdown).toContain("![Step 1](screenshots/call_1.png)");
+
+    const html = strFromU8(files["report.html"]);
+    expect(html).toContain("<title>Open the docs</title>");
+    expect(html).toContain('<img src="screenshots/call_1.png"');
+  });
+
+  it("keeps no image data in trace.json for useChat messages", () => {
+    const files = unzipSync(createTraceBundle(chatSession));
+    const json = strFromU8(files["trace.json"]);
+    expect(json).not.toContain(png);
+    expect(json).not.toContain("data:");
+    expect(json).not.toMatch(/"data"\s*:/);
+
+    const [message] = JSON.parse(json).messages;
+    const file = { type: "image", file: "screenshots/call-2.png" };
+    expect(message.toolInvocations[0].result).toEqual(file);
+    expect(message.parts[0].toolInvocation.result).toEqual(file);
+  });
+});
+
+describe("readTraceBundle", () => {
+  it("restores the messages and events of an exported session", () => {
+    const trace = readTraceBundle(createTraceBundle(session));
+    expect(trace.messages).toEqual(session.messages);
+    expect(trace.events).toEqual(session.events);
+    expect(trace.session.title).toBe("Open the docs");
+  });
+
+  it("restores images in both the parts and toolInvocations", () => {
+    const trace = readTraceBundle(createTraceBundle(chatSession));
+    expect(trace.messages).toEqual(chatSession.messages);
+  });
+
+  const bundle = (files: Record<string, string>) =>
+    zipSync(
+      Object.fromEntries(
+        Object.entries(files).map(([name, text]) => [name, strToU8(text)]),
+      ),
+    );
+  const manifest = (overrides: Record<string, unknown>) =>
+    JSON.stringify({
+      format: TRACE_FORMAT,
+      version: 1,
+      session: {},
+      messages: [],
+      events: [],
+      ...overrides,
+    });
+
+  it.each([
+    [strToU8("not a zip"), "not a zip file"],
+    [bundle({ "report.md": "" }), "no trace.json"],
+    [bundle({ "trace.json": "{" }), "not valid JSON"],
+    [bundle({ "trace.json": manifest({ format: "x" }) }), "Not a computer"],
+    [bundle({ "trace.json": manifest({ version: 99 }) }), "version: 99"],
+    [
+      bundle({
+        "trace.json": manifest({
+          events: [{ id: "e", result: { type: "image", file: "gone.png" } }],
+        }),
+      }),
+      "missing gone.png",
+    ],
+  ])("rejects invalid bundle %#", (bytes, message) => {
+    expect(() => readTraceBundle(bytes)).toThrow(message);
+  });
+});
@@ -0,0 +1,203 @@
+import type { Message } from "ai";
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import type { ToolEvent } from "@/lib/agent-events";
+import type { ChatSession } from "@/lib/sessions/types";
+import { renderHtmlReport, renderMarkdownReport } from "./report";
+
+export const TRACE_FORMAT = "computer-use-trace";
+// Bump when the manifest shape changes; older bundles must keep importing.
+export const TRACE_VERSION = 1;
+
+const MANIFEST_FILE = "trace.json";
+const SCREENSHOTS_DIR = "screenshots";
+
+export type TraceMetadata = Pick<
+  ChatSession,
+  | "id"
+  | "title"
+  | "modelId"
+  | "sandboxId"
+  | "costUsd"
+  | "budgetUsd"
+  | "createdAt"
+  | "updatedAt"
+>;
+
+// trace.json. Screenshot results point at a file in the bundle instead of
+// carrying the image: { type: "image", file: "screenshots/<call>.png" }.
+export type TraceManifest = {
+  format: typeof TRACE_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: TraceMetadata;
+  messages: Message[];
+  events: ToolEvent[];
+};
+
+type ImageResult = { type: "image"; data: string };
+type ImageFile = { type: "image"; file: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isImageResult = (value: unknown): value is ImageResult =>
+  isRecord(value) && value.type === "image" && typeof value.data === "string";
+
+const isImageFile = (value: unknown): value is ImageFile =>
+  isRecord(value) && value.type === "image" && typeof value.file === "string";
+
+type ToolInvocation = NonNullable<Message["toolInvocations"]>[number];
+
+// Swaps tool results through `swap` in both the messages and the event log.
+// useChat keeps each result twice on a message, in its parts and in
+// toolInvocations.
+const mapToolResults = (
+  messages: Message[],
+  events: ToolEvent[],
+  swap: (toolCallId: string, result: unknown) => unknown,
+) => {
+  const swapInvocation = (invocation: ToolInvocation): ToolInvocation =>
+    invocation.state === "result"
+      ? {
+          ...invocation,
+          result: swap(invocation.toolCallId, invocation.result),
+        }
+      : invocation;
+  return {
+    messages: messages.map((message) => ({
+      ...message,
+      ...(message.parts && {
+        parts: message.parts.map((part) =>
+          part.type === "tool-invocation"
+            ? { ...part, toolInvocation: swapInvocation(part.toolInvocation) }
+            : part,
+        ),
+      }),
+      ...(message.toolInvocations && {
+        toolInvocations: message.toolInvocations.map(swapInvocation),
+      }),
+    })),
+    events: events.map((event) =>
+      event.result
+        ? {
+            ...event,
+            result: swap(event.id, event.result) as ToolEvent["result"],
+          }
+        : event,
+    ),
+  };
+};
+
+const screenshotFile = (toolCallId: string) =>
+  `${SCREENSHOTS_DIR}/${toolCallId.replace(/[^\w-]/g, "_")}.png`;
+
+export const createTraceManifest = (
+  session: ChatSession,
+  screenshots: Record<string, Uint8Array> = {},
+): TraceManifest => {
+  const { messages, events } = mapToolResults(
+    session.messages,
+    session.events,
+    (toolCallId, result) => {
+      if (!isImageResult(result)) return result;
+      const file = screenshotFile(toolCallId);
+      screenshots[file] ??= Buffer.from(result.data, "base64");
+      return { type: "image", file } satisfies ImageFile;
+    },
+  );
+  return {
+    format: TRACE_FORMAT,
+    version: TRACE_VERSION,
+    exportedAt: Date.now(),
+    session: {
+      id: session.id,
+      title: session.title,
+      modelId: session.modelId,
+      sandboxId: session.sandboxId,
+      costUsd: session.costUsd,
+      budgetUsd: session.budgetUsd,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    },
+    messages,
+    events,
+  };
+};
+
+// A zip holding trace.json, one PNG per screenshot and the run report in
+// Markdown and HTML.
+export const createTraceBundle = (session: ChatSession): Uint8Array => {
+  const screenshots: Record<string, Uint8Array> = {};
+  const manifest = createTraceManifest(session, screenshots);
+  const files: Zippable = {
+    [MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)),
+    "report.md": strToU8(renderMarkdownReport(manifest)),
+    "report.html": strToU8(renderHtmlReport(manifest)),
+  };
+  // PNGs are already compressed.
+  for (const [file, bytes] of Object.entries(screenshots)) {
+    files[file] = [bytes, { level: 0 }];
+  }
+  return zipSync(files);
+};
+
+export type Trace = {
+  session: TraceMetadata;
+  messages: Message[];
+  events: ToolEvent[];
+};
+
+// Throws with a message fit for the user when the bundle is unusable.
+export const readTraceBundle = (bytes: Uint8Array): Trace => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new Error("Trace bundle is not a zip file");
+  }
+  if (!files[MANIFEST_FILE]) {
+    throw new Error(`Trace bundle has no ${MANIFEST_FILE}`);
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_FILE]));
+  } catch {
+    throw new Error(`${MANIFEST_FILE} is not valid JSON`);
+  }
+  if (!isRecord(manifest) || manifest.format !== TRACE_FORMAT) {
+    throw new Error("Not a computer use trace");
+  }
+  if (
+    typeof manifest.version !== "number" ||
+    manifest.version > TRACE_VERSION
+  ) {
+    throw new Error(`Unsupported trace version: ${String(manifest.version)}`);
+  }
+  if (
+    !isRecord(manifest.session) ||
+    !Array.isArray(manifest.messages) ||
+    !Array.isArray(manifest.events)
+  ) {
+    throw new Error(`${MANIFEST_FILE} is missing the session`);
+  }
+
+  const { messages, events } = mapToolResults(
+    manifest.messages as Message[],
+    manifest.events as ToolEvent[],
+    (_toolCallId, result) => {
+      if (!isImageFile(result)) return result;
+      const image = files[result.file];
+      if (!image) throw new Error(`Trace bundle is missing ${result.file}`);
+      return {
+        type: "image",
+        data: Buffer.from(image).toString("base64"),
+      } satisfies ImageResult;
+    },
+  );
+  return {
+    session: manifest.session as TraceMetadata,
+    messages,
+    events,
+  };
+};
@@ -0,0 +1,151 @@
+import type { ToolEvent } from "@/lib/agent-events";
+import { findModel } from "@/lib/models";
+import { describeStep } from "@/lib/replay";
+import { formatUsd } from "@/lib/usage";
+import type { TraceManifest } from "./bundle";
+
+type ReportEntry =
+  | { kind: "user" | "assistant"; text: string }
+  | {
+      kind: "step";
+      number: number;
+      event: ToolEvent;
+      // Path of the step's screenshot inside the bundle.
+      screenshot?: string;
+    };
+
+const screenshotOf = (result: unknown) =>
+  typeof result === "object" &&
+  result !== null &&
+  (result as { type?: unknown }).type === "image" &&
+  typeof (result as { file?: unknown }).file === "string"
+    ? (result as { file: string }).file
+    : undefined;
+
+// The run in message order, with tool calls numbered as in the event log.
+const toEntries = ({ messages, events }: TraceManifest): ReportEntry[] => {
+  const byId = new Map(events.map((event) => [event.id, event]));
+  const numbers = new Map(events.map((event, index) => [event.id, index + 1]));
+  const entries: ReportEntry[] = [];
+
+  for (const message of messages) {
+    if (message.role !== "user" && message.role !== "assistant") continue;
+    if (!message.parts?.length && message.content.trim()) {
+      entries.push({ kind: message.role, text: message.content.trim() });
+    }
+    for (const part of message.parts ?? []) {
+      if (part.type === "text" && part.text.trim()) {
+        entries.push({ kind: message.role, text: part.text.trim() });
+      }
+      if (part.type !== "tool-invocation") continue;
+      const { toolCallId } = part.toolInvocation;
+      const event = byId.get(toolCallId);
+      if (!event) continue;
+      entries.push({
+        kind: "step",
+        number: numbers.get(toolCallId) ?? 0,
+        event,
+        screenshot:
+          part.toolInvocation.state === "result"
+            ? screenshotOf(part.toolInvocation.result)
+            : undefined,
+      });
+    }
+  }
+  return entries;
+};
+
+const summarize = (trace: TraceManifest) => {
+  const { session, events } = trace;
+  const errors = events.filter((event) => event.status === "error").length;
+  return [
+    ["Model", findModel(session.modelId)?.label ?? session.modelId],
+    ["Sandbox", session.sandboxId ?? "none"],
+    ["Started", new Date(session.createdAt).toISOString()],
+    ["Last activity", new Date(session.updatedAt).toISOString()],
+    ["Tool calls", `${events.length} (${errors} failed)`],
+    ["Estimated cost", formatUsd(session.costUsd)],
+  ];
+};
+
+const stepStatus = ({ status, durationMs }: ToolEvent) =>
+  durationMs === undefined ? status : `${status}, ${durationMs} ms`;
+
+export const renderMarkdownReport = (trace: TraceManifest) => {
+  const lines = [`# ${trace.session.title}`, ""];
+  for (const [label, value] of summarize(trace)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  lines.push("", "## Run", "");
+
+  for (const entry of toEntries(trace)) {
+    if (entry.kind === "step") {
+      lines.push(
+        `${entry.number}. \`${entry.event.toolName}\` ${describeStep(entry.event).replace(/`/g, "'")} (${stepStatus(entry.event)})`,
+      );
+      if (entry.screenshot) {
+        lines.push("", `   ![Step ${entry.number}](${entry.screenshot})`);
+      }
+      lines.push("");
+    } else {
+      const speaker = entry.kind === "user" ? "User" : "Assistant";
+      lines.push(`**${speaker}:** ${entry.text}`, "");
+    }
+  }
+  return lines.join("\n");
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const STYLES = `
+body { font: 14px/1.5 system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #18181b; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dt { color: #71717a; }
+.message { white-space: pre-wrap; margin: 1rem 0; }
+.step { border: 1px solid #e4e4e7; border-radius: 6px; padding: 0.5rem 0.75rem; margin: 0.5rem 0; }
+.step code { background: #f4f4f5; padding: 0 0.25rem; border-radius: 4px; }
+.error { border-color: #fda4af; }
+.step img { display: block; max-width: 100%; margin-top: 0.5rem; border-radius: 4px; }
+`;
+
+export const renderHtmlReport = (trace: TraceManifest) => {
+  const summary = summarize(trace)
+    .map(
+      ([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`,
+    )
+    .join("");
+  const body = toEntries(trace)
+    .map((entry) => {
+      if (entry.kind !== "step") {
+        const speaker = entry.kind === "user" ? "User" : "Assistant";
+        return `<p class="message"><strong>${speaker}:</strong> ${escapeHtml(entry.text)}</p>`;
+      }
+      const image = entry.screenshot
+        ? `<img src="${escapeHtml(entry.screenshot)}" alt="Step ${entry.number}" loading="lazy">`
+        : "";
+      return `<div class="step${entry.event.status === "error" ? " error" : ""}">${entry.number}. <code>${escapeHtml(entry.event.toolName)}</code> ${escapeHtml(describeStep(entry.event))} <small>(${escapeHtml(stepStatus(entry.event))})</small>${image}</div>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(trace.session.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(trace.session.title)}</h1>
+<dl>${summary}</dl>
+<h2>Run</h2>
+${body}
+</body>
+</html>
+`;
+};
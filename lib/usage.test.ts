@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { getModel } from "./models";
+import {
+  estimateCostUsd,
+  formatUsd,
+  getStepUsages,
+  isOverBudget,
+  toTokenUsage,
+} from "./usage";
+
+describe("toTokenUsage", () => {
+  it("reads Anthropic cache metrics from the provider metadata", () => {
+    expect(
+      toTokenUsage(
+        { promptTokens: 1200, completionTokens: 80, totalTokens: 1280 },
+        {
+          anthropic: {
+            cacheCreationInputTokens: 3000,
+            cacheReadInputTokens: 45000,
+          },
+        },
+      ),
+    ).toEqual({
+      inputTokens: 1200,
+      outputTokens: 80,
+      cacheReadTokens: 45000,
+      cacheWriteTokens: 3000,
+    });
+  });
+
+  it("treats missing or invalid counts as zero", () => {
+    expect(
+      toTokenUsage({
+        promptTokens: NaN,
+        completionTokens: 12,
+        totalTokens: NaN,
+      }),
+    ).toEqual({
+      inputTokens: 0,
+      outputTokens: 12,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+    });
+  });
+});
+
+describe("estimateCostUsd", () => {
+  it("prices each kind of token separately", () => {
+    const { pricing } = getModel("claude-sonnet-4");
+    expect(
+      estimateCostUsd(
+        {
+          inputTokens: 1_000_000,
+          outputTokens: 100_000,
+          cacheReadTokens: 1_000_000,
+          cacheWriteTokens: 0,
+        },
+        pricing,
+      ),
+    ).toBeCloseTo(3 + 1.5 + 0.3);
+  });
+});
+
+describe("isOverBudget", () => {
+  it("stops once spend reaches the budget", () => {
+    expect(isOverBudget(0.99, 1)).toBe(false);
+    expect(isOverBudget(1, 1)).toBe(true);
+    expect(isOverBudget(1000, null)).toBe(false);
+  });
+});
+
+describe("getStepUsages", () => {
+  it("keeps only usage annotations", () => {
+    const usage = {
+      type: "usage",
+      modelId: "claude-sonnet-4",
+      inputTokens: 1,
+      outputTokens: 1,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: 0.00002,
+      sessionCostUsd: null,
+      budgetUsd: null,
+    };
+    expect(
+      getStepUsages([
+        { type: "approval-request", toolCallId: "a" },
+        usage,
+        "note",
+        null,
+      ]),
+    ).toEqual([usage]);
+    expect(getStepUsages(undefined)).toEqual([]);
+  });
+});
+
+describe("formatUsd", () => {
+  it("shows sub-cent amounts with more precision", () => {
+    expect(formatUsd(0)).toBe("$0.00");
+    expect(formatUsd(0.0042)).toBe("$0.0042");
+    expect(formatUsd(1.5)).toBe("$1.50");
+  });
+});
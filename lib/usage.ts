@@ -0,0 +1,63 @@
+import type { JSONValue, LanguageModelUsage, ProviderMetadata } from "ai";
+import type { ModelPricing } from "@/lib/models";
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+};
+
+// Streamed once per model step; the session total is what the server has
+// recorded after adding this step.
+export type UsageAnnotation = TokenUsage & {
+  type: "usage";
+  modelId: string;
+  costUsd: number;
+  sessionCostUsd: number | null;
+  budgetUsd: number | null;
+};
+
+// Prefix of the error the chat route returns once a session is over budget.
+export const BUDGET_EXCEEDED = "Budget exceeded";
+
+const count = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : 0;
+
+// Anthropic reports cache writes and reads separately from the uncached
+// input tokens, so the four counts never overlap.
+export const toTokenUsage = (
+  usage: LanguageModelUsage,
+  providerMetadata?: ProviderMetadata,
+): TokenUsage => ({
+  inputTokens: count(usage.promptTokens),
+  outputTokens: count(usage.completionTokens),
+  cacheReadTokens: count(providerMetadata?.anthropic?.cacheReadInputTokens),
+  cacheWriteTokens: count(
+    providerMetadata?.anthropic?.cacheCreationInputTokens,
+  ),
+});
+
+export const estimateCostUsd = (usage: TokenUsage, pricing: ModelPricing) =>
+  (usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheReadTokens * pricing.cacheRead +
+    usage.cacheWriteTokens * pricing.cacheWrite) /
+  1_000_000;
+
+export const isOverBudget = (costUsd: number, budgetUsd: number | null) =>
+  budgetUsd !== null && costUsd >= budgetUsd;
+
+const isUsageAnnotation = (value: unknown): value is UsageAnnotation =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as { type?: unknown }).type === "usage";
+
+export const getStepUsages = (annotations?: JSONValue[]) =>
+  (annotations ?? []).filter(isUsageAnnotation);
+
+export const formatUsd = (value: number) =>
+  value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+
+export const formatTokens = (value: number) =>
+  value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
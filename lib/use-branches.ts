@@ -0,0 +1,108 @@
+import { useCallback, useMemo, useState, type MutableRefObject } from "react";
+import type { Message } from "ai";
+import { toast } from "sonner";
+import { getBranchChoices, MAIN_BRANCH_ID } from "@/lib/sessions/branches";
+import type { ChatSession, SessionBranch } from "@/lib/sessions/types";
+import { sessionUrl } from "@/lib/use-session-persistence";
+
+type UseBranchesOptions = {
+  // The session whose messages are shown; null while one is loading.
+  sessionId: string | null;
+  messages: Message[];
+  activeSessionRef: MutableRefObject<string | null>;
+  flushSessionSave: () => Promise<void>;
+  // Puts the checked-out branch's messages and events on screen.
+  onCheckout: (session: ChatSession) => void;
+  // Runs the model on a forked branch's edited message.
+  reload: () => void;
+};
+
+// The open session's branches: forking from an edited user message and
+// switching between the branches that part ways there.
+export const useBranches = ({
+  sessionId,
+  messages,
+  activeSessionRef,
+  flushSessionSave,
+  onCheckout,
+  reload,
+}: UseBranchesOptions) => {
+  const [branchId, setBranchId] = useState(MAIN_BRANCH_ID);
+  const [branches, setBranches] = useState<SessionBranch[]>([]);
+
+  const showBranches = useCallback(
+    (session: Pick<ChatSession, "branchId" | "branches">) => {
+      setBranchId(session.branchId);
+      setBranches(session.branches);
+    },
+    [],
+  );
+
+  const checkout = useCallback(
+    (session: ChatSession) => {
+      onCheckout(session);
+      showBranches(session);
+    },
+    [onCheckout, showBranches],
+  );
+
+  // Pending saves go first so they can't land on the branch that replaces
+  // the one they were made on.
+  const forkFromMessage = useCallback(
+    async (messageId: string, text: string) => {
+      if (!sessionId) return;
+      try {
+        await flushSessionSave();
+        const response = await fetch(`${sessionUrl(sessionId)}/branches`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ messageId, text }),
+        });
+        if (!response.ok) throw new Error(await response.text());
+        const session = (await response.json()) as ChatSession;
+        if (activeSessionRef.current !== sessionId) return;
+        checkout(session);
+        reload();
+      } catch (error) {
+        console.error("Failed to fork session:", error);
+        toast.error("Failed to edit the message");
+      }
+    },
+    [sessionId, activeSessionRef, flushSessionSave, checkout, reload],
+  );
+
+  const switchBranch = useCallback(
+    async (nextBranchId: string) => {
+      if (!sessionId) return;
+      try {
+        await flushSessionSave();
+        const response = await fetch(
+          `${sessionUrl(sessionId)}/branches/${encodeURIComponent(nextBranchId)}`,
+          { method: "PUT" },
+        );
+        if (!response.ok) throw new Error(await response.text());
+        const session = (await response.json()) as ChatSession;
+        if (activeSessionRef.current !== sessionId) return;
+        checkout(session);
+      } catch (error) {
+        console.error("Failed to switch branch:", error);
+        toast.error("Failed to switch branch");
+      }
+    },
+    [sessionId, activeSessionRef, flushSessionSave, checkout],
+  );
+
+  // Switchers for the user messages where branches part ways.
+  const branchChoices = useMemo(() => {
+    const messageIds = messages.map((message) => message.id);
+    return Object.fromEntries(
+      messages.flatMap((message, index) => {
+        if (message.role !== "user") return [];
+        const choices = getBranchChoices(branches, branchId, messageIds, index);
+        return choices ? [[message.id, choices]] : [];
+      }),
+    );
+  }, [messages, branches, branchId]);
+
+  return { branchChoices, showBranches, forkFromMessage, switchBranch };
+};
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_CONTEXT_STRATEGY_ID,
+  findContextStrategy,
+  isValidKeepScreenshots,
+} from "@/lib/context/strategies";
+
+const APPROVAL_MODE_KEY = "computer-use:approval-mode";
+const RECORD_SCREEN_KEY = "computer-use:record-screen";
+const CONTEXT_STRATEGY_KEY = "computer-use:context-strategy";
+const KEEP_SCREENSHOTS_KEY = "computer-use:keep-screenshots";
+
+// Options sent with every chat request, remembered per browser.
+export const useChatSettings = () => {
+  // Risky tool calls wait for approval unless the user turned this off.
+  const [approvalMode, setApprovalMode] = useState(true);
+  // Runs are only recorded when the user asks for it.
+  const [recordScreen, setRecordScreen] = useState(false);
+  const [contextStrategyId, setContextStrategyId] = useState(
+    DEFAULT_CONTEXT_STRATEGY_ID,
+  );
+  // Overrides the strategy's number of screenshots sent as taken.
+  const [keepScreenshots, setKeepScreenshots] = useState<number | null>(null);
+
+  useEffect(() => {
+    setApprovalMode(localStorage.getItem(APPROVAL_MODE_KEY) !== "off");
+    setRecordScreen(localStorage.getItem(RECORD_SCREEN_KEY) === "on");
+    const storedStrategy = localStorage.getItem(CONTEXT_STRATEGY_KEY);
+    if (storedStrategy && findContextStrategy(storedStrategy)) {
+      setContextStrategyId(storedStrategy);
+    }
+    const storedKeep = Number(localStorage.getItem(KEEP_SCREENSHOTS_KEY));
+    if (isValidKeepScreenshots(storedKeep)) {
+      setKeepScreenshots(storedKeep);
+    }
+  }, []);
+
+  const changeApprovalMode = useCallback((enabled: boolean) => {
+    setApprovalMode(enabled);
+    localStorage.setItem(APPROVAL_MODE_KEY, enabled ? "on" : "off");
+  }, []);
+
+  const changeRecordScreen = useCallback((enabled: boolean) => {
+    setRecordScreen(enabled);
+    localStorage.setItem(RECORD_SCREEN_KEY, enabled ? "on" : "off");
+  }, []);
+
+  const changeKeepScreenshots = useCallback((value: number | null) => {
+    setKeepScreenshots(value);
+    if (value === null) {
+      localStorage.removeItem(KEEP_SCREENSHOTS_KEY);
+    } else {
+      localStorage.setItem(KEEP_SCREENSHOTS_KEY, String(value));
+    }
+  }, []);
+
+  // Another strategy starts from its own number of screenshots.
+  const changeContextStrategy = useCallback(
+    (strategyId: string) => {
+      setContextStrategyId(strategyId);
+      localStorage.setItem(CONTEXT_STRATEGY_KEY, strategyId);
+      changeKeepScreenshots(null);
+    },
+    [changeKeepScreenshots],
+  );
+
+  return {
+    approvalMode,
+    changeApprovalMode,
+    recordScreen,
+    changeRecordScreen,
+    contextStrategyId,
+    changeContextStrategy,
+    keepScreenshots,
+    changeKeepScreenshots,
+  };
+};
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  getDesktopURL,
+  getExistingDesktopURL,
+  getLiveDesktops,
+} from "@/lib/e2b/utils";
+import type { SessionSummary } from "@/lib/sessions/types";
+import { createId } from "@/lib/utils";
+
+const CLIENT_ID_KEY = "computer-use:client-id";
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+export type DesktopStatus = "live" | "expired";
+
+// Identifies this browser as the owner of the desktops it creates.
+const getClientId = () => {
+  const existing = localStorage.getItem(CLIENT_ID_KEY);
+  if (existing) return existing;
+  const clientId = createId();
+  localStorage.setItem(CLIENT_ID_KEY, clientId);
+  return clientId;
+};
+
+const killDesktopBeacon = (sandboxId: string) => {
+  navigator.sendBeacon(
+    `/api/kill-desktop?sandboxId=${encodeURIComponent(
+      sandboxId,
+    )}&owner=${encodeURIComponent(getClientId())}`,
+  );
+};
+
+type UseDesktopOptions = {
+  sessions: SessionSummary[];
+  activeSession: SessionSummary | null;
+  hasHydrated: boolean;
+  // Records a newly provisioned desktop on its session.
+  onProvision: (sessionId: string, sandboxId: string) => void;
+};
+
+// The open session's desktop stream, plus the status of every session's
+// desktop. Live desktops are kept alive with heartbeats, including those of
+// background sessions, and killed when the page goes away.
+export const useDesktop = ({
+  sessions,
+  activeSession,
+  hasHydrated,
+  onProvision,
+}: UseDesktopOptions) => {
+  const [streamUrl, setStreamUrl] = useState<string | null>(null);
+  const [isInitializing, setIsInitializing] = useState(true);
+  const [desktopStatus, setDesktopStatus] = useState<
+    Record<string, DesktopStatus>
+  >({});
+  const liveSandboxIdsRef = useRef<string[]>([]);
+  const sessionsRef = useRef<SessionSummary[]>([]);
+  const activeSessionRef = useRef<string | null>(null);
+
+  const activeSessionId = activeSession?.id ?? null;
+  const sandboxId = activeSession?.sandboxId ?? null;
+  const isDesktopExpired =
+    sandboxId !== null && desktopStatus[sandboxId] === "expired";
+
+  useEffect(() => {
+    sessionsRef.current = sessions;
+  }, [sessions]);
+
+  useEffect(() => {
+    activeSessionRef.current = activeSessionId;
+  }, [activeSessionId]);
+
+  const provisionDesktop = useCallback(
+    async (session: SessionSummary) => {
+      try {
+        setIsInitializing(true);
+        const { streamUrl, id } = await getDesktopURL(
+          undefined,
+          getClientId(),
+          session.modelId,
+        );
+        setDesktopStatus((prev) => ({ ...prev, [id]: "live" }));
+        onProvision(session.id, id);
+        if (activeSessionRef.current === session.id) setStreamUrl(streamUrl);
+      } catch (err) {
+        console.error("Failed to initialize desktop:", err);
+        toast.error("Failed to initialize desktop");
+      } finally {
+        if (activeSessionRef.current === session.id) setIsInitializing(false);
+      }
+    },
+    [onProvision],
+  );
+
+  // Sessions keep their desktop across switches; an expired one is not
+  // replaced until the user asks for a new desktop.
+  const openSessionDesktop = useCallback(
+    async (session: SessionSummary) => {
+      setStreamUrl(null);
+      if (!session.sandboxId) {
+        await provisionDesktop(session);
+        return;
+      }
+
+      const id = session.sandboxId;
+      try {
+        setIsInitializing(true);
+        const desktop = await getExistingDesktopURL(id);
+        setDesktopStatus((prev) => ({
+          ...prev,
+          [id]: desktop ? "live" : "expired",
+        }));
+        if (desktop && activeSessionRef.current === session.id) {
+          setStreamUrl(desktop.streamUrl);
+        }
+      } catch (err) {
+        console.error("Failed to reconnect desktop:", err);
+        toast.error("Failed to reconnect desktop");
+      } finally {
+        if (activeSessionRef.current === session.id) setIsInitializing(false);
+      }
+    },
+    [provisionDesktop],
+  );
+
+  // Imported traces are only replayed, so they never get a desktop.
+  const closeDesktop = useCallback(() => {
+    setStreamUrl(null);
+    setIsInitializing(false);
+  }, []);
+
+  const refreshDesktop = useCallback(async () => {
+    if (!activeSession) return;
+    if (sandboxId && desktopStatus[sandboxId] === "live") {
+      killDesktopBeacon(sandboxId);
+      setDesktopStatus((prev) => ({ ...prev, [sandboxId]: "expired" }));
+    }
+    setStreamUrl(null);
+    await provisionDesktop(activeSession);
+  }, [activeSession, sandboxId, desktopStatus, provisionDesktop]);
+
+  // For a deleted session, whose desktop is no longer needed.
+  const discardDesktop = useCallback((id: string) => {
+    killDesktopBeacon(id);
+    setDesktopStatus((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    liveSandboxIdsRef.current = Object.entries(desktopStatus)
+      .filter(([, status]) => status === "live")
+      .map(([id]) => id);
+  }, [desktopStatus]);
+
+  useEffect(() => {
+    const killDesktops = () => {
+      liveSandboxIdsRef.current.forEach(killDesktopBeacon);
+    };
+
+    const isIOS =
+      /iPad|iPhone|iPod/.test(navigator.userAgent) ||
+      (navigator.platform === "MacIntel" && navigator.maxTouchPoints > 1);
+    const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
+
+    if (isIOS || isSafari) {
+      window.addEventListener("pagehide", killDesktops);
+
+      return () => {
+        window.removeEventListener("pagehide", killDesktops);
+        killDesktops();
+      };
+    }
+
+    window.addEventListener("beforeunload", killDesktops);
+
+    return () => {
+      window.removeEventListener("beforeunload", killDesktops);
+      killDesktops();
+    };
+  }, []);
+
+  // Background sessions are pinged too so their desktops survive a switch.
+  useEffect(() => {
+    const sendHeartbeat = async (id: string) => {
+      try {
+        const response = await fetch(
+          `/api/heartbeat?sandboxId=${encodeURIComponent(id)}`,
+          { method: "POST" },
+        );
+        if (response.status === 404) {
+          setDesktopStatus((prev) => ({ ...prev, [id]: "expired" }));
+          if (id === sandboxId) {
+            setStreamUrl(null);
+            toast.error("Desktop expired", {
+              description: "Start a new desktop to continue.",
+            });
+          }
+        }
+      } catch (error) {
+        console.error("Heartbeat failed:", error);
+      }
+    };
+
+    const interval = setInterval(
+      () => liveSandboxIdsRef.current.forEach(sendHeartbeat),
+      HEARTBEAT_INTERVAL_MS,
+    );
+    return () => clearInterval(interval);
+  }, [sandboxId]);
+
+  // Desktops of inactive sessions are only checked once, after a reload.
+  useEffect(() => {
+    if (!hasHydrated) return;
+    const ids = sessionsRef.current
+      .map((session) => session.sandboxId)
+      .filter((id): id is string => Boolean(id));
+    if (ids.length === 0) return;
+
+    getLiveDesktops(ids)
+      .then((live) =>
+        setDesktopStatus((prev) => {
+          const next = { ...prev };
+          ids.forEach((id) => {
+            next[id] ??= live.includes(id) ? "live" : "expired";
+          });
+          return next;
+        }),
+      )
+      .catch((error) => console.error("Failed to check desktops:", error));
+  }, [hasHydrated]);
+
+  return {
+    streamUrl,
+    isInitializing,
+    isDesktopExpired,
+    desktopStatus,
+    openSessionDesktop,
+    closeDesktop,
+    refreshDesktop,
+    discardDesktop,
+  };
+};
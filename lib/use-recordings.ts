@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import type { SessionRecording } from "@/lib/sessions/types";
+import { sessionUrl } from "@/lib/use-session-persistence";
+
+// The server attaches a run's video once the run stops, so recordings are
+// refetched whenever the chat goes idle.
+export const useRecordings = (sessionId: string | null, isLoading: boolean) => {
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setRecordings([]);
+      return;
+    }
+    if (isLoading) return;
+    let cancelled = false;
+    fetch(`${sessionUrl(sessionId)}/recordings`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error(await response.text());
+        const body = (await response.json()) as {
+          recordings: SessionRecording[];
+        };
+        if (!cancelled) setRecordings(body.recordings);
+      })
+      .catch((error) => console.error("Failed to load recordings:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, isLoading]);
+
+  return recordings;
+};
@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Message } from "ai";
+import { toast } from "sonner";
+import type { ToolEvent } from "@/lib/agent-events";
+import {
+  toSessionSummary,
+  type ChatSession,
+  type SessionSummary,
+  type SessionUpdate,
+} from "@/lib/sessions/types";
+import { createId } from "@/lib/utils";
+
+// Sessions used to live in localStorage; they are imported once and removed.
+const LEGACY_STORAGE_KEY = "computer-use:sessions";
+const ACTIVE_SESSION_KEY = "computer-use:active-session";
+const SAVE_DEBOUNCE_MS = 1_000;
+
+type LegacyStoredSessions = {
+  sessions?: unknown[];
+  activeSessionId?: string | null;
+};
+
+// What the session list shows and can change without loading the session.
+export type SessionSettings = Partial<
+  Pick<SessionSummary, "sandboxId" | "modelId" | "budgetUsd">
+>;
+
+type MessagePart = NonNullable<Message["parts"]>[number];
+
+export const sessionUrl = (id: string) =>
+  `/api/sessions/${encodeURIComponent(id)}`;
+
+const importTraceBundle = async (file: File): Promise<SessionSummary> => {
+  const response = await fetch("/api/traces", {
+    method: "POST",
+    headers: { "Content-Type": "application/zip" },
+    body: file,
+  });
+  if (!response.ok) throw new Error(await response.text());
+  return (await response.json()) as SessionSummary;
+};
+
+const createStoredSession = async (): Promise<SessionSummary> => {
+  const response = await fetch("/api/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id: createId() }),
+  });
+  if (!response.ok) throw new Error(await response.text());
+  return toSessionSummary((await response.json()) as ChatSession);
+};
+
+const saveSession = async (
+  id: string,
+  update: SessionUpdate,
+  keepalive = false,
+) => {
+  const response = await fetch(sessionUrl(id), {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+    keepalive,
+  });
+  if (!response.ok) throw new Error(await response.text());
+};
+
+// Returns the previously active session id, or null when there was nothing
+// to import.
+const importLegacySessions = async () => {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return null;
+  const parsed = JSON.parse(raw) as LegacyStoredSessions;
+  const response = await fetch("/api/sessions/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sessions: parsed.sessions ?? [] }),
+  });
+  if (!response.ok) throw new Error(await response.text());
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return parsed.activeSessionId ?? null;
+};
+
+const isTextPart = (
+  part: MessagePart,
+): part is MessagePart & { type: "text"; text: string } =>
+  part.type === "text" && "text" in part && typeof part.text === "string";
+
+const extractMessageText = (message: Message): string | undefined => {
+  if (typeof message.content === "string") return message.content;
+  const textPart = message.parts?.find(isTextPart);
+  return textPart?.text;
+};
+
+const deriveSessionTitle = (messages: Message[], fallback: string) => {
+  const firstUserMessage = messages.find((message) => message.role === "user");
+  const text = firstUserMessage
+    ? extractMessageText(firstUserMessage)
+    : undefined;
+  if (!text) return fallback;
+  return text.trim().slice(0, 48) || fallback;
+};
+
+// The session list and which session is open, kept on the server. Edits to
+// the open conversation are saved debounced; switching sessions or leaving
+// the page flushes them.
+export const useSessionPersistence = () => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [hasHydrated, setHasHydrated] = useState(false);
+  const sessionsRef = useRef<SessionSummary[]>([]);
+  const activeSessionRef = useRef<string | null>(null);
+  const pendingSaveRef = useRef<{ id: string; update: SessionUpdate } | null>(
+    null,
+  );
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const activeSession = useMemo(
+    () => sessions.find((session) => session.id === activeSessionId) ?? null,
+    [sessions, activeSessionId],
+  );
+
+  useEffect(() => {
+    sessionsRef.current = sessions;
+  }, [sessions]);
+
+  useEffect(() => {
+    activeSessionRef.current = activeSessionId;
+    if (activeSessionId) {
+      localStorage.setItem(ACTIVE_SESSION_KEY, activeSessionId);
+    }
+  }, [activeSessionId]);
+
+  // The latest summary, for effects that shouldn't rerun on every change.
+  const findSession = useCallback(
+    (sessionId: string) =>
+      sessionsRef.current.find((session) => session.id === sessionId) ?? null,
+    [],
+  );
+
+  // Resolves once the save is done, for callers that must not race it.
+  const flushSessionSave = useCallback(async (keepalive = false) => {
+    clearTimeout(saveTimerRef.current);
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    await saveSession(pending.id, pending.update, keepalive).catch((error) =>
+      console.error("Failed to save session:", error),
+    );
+  }, []);
+
+  useEffect(() => {
+    const flush = () => flushSessionSave(true);
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      clearTimeout(saveTimerRef.current);
+    };
+  }, [flushSessionSave]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const importedActiveId = await importLegacySessions().catch((error) => {
+          console.error("Failed to import stored sessions:", error);
+          return null;
+        });
+        const response = await fetch("/api/sessions");
+        if (!response.ok) throw new Error(await response.text());
+        const { sessions: stored } = (await response.json()) as {
+          sessions: SessionSummary[];
+        };
+        if (stored.length === 0) stored.push(await createStoredSession());
+
+        const preferredId =
+          importedActiveId ?? localStorage.getItem(ACTIVE_SESSION_KEY);
+        setSessions(stored);
+        setActiveSessionId(
+          stored.find((session) => session.id === preferredId)?.id ??
+            stored[0].id,
+        );
+      } catch (error) {
+        console.error("Failed to load sessions:", error);
+        toast.error("Failed to load sessions");
+      } finally {
+        setHasHydrated(true);
+      }
+    };
+
+    load();
+  }, []);
+
+  const updateSession = useCallback(
+    (sessionId: string, settings: SessionSettings) => {
+      setSessions((prev) =>
+        prev.map((session) =>
+          session.id === sessionId ? { ...session, ...settings } : session,
+        ),
+      );
+      saveSession(sessionId, settings).catch((error) =>
+        console.error("Failed to save session settings:", error),
+      );
+    },
+    [],
+  );
+
+  // The route saves spend itself; this only keeps the list up to date.
+  const recordSessionCost = useCallback(
+    (sessionId: string, costUsd: number) => {
+      setSessions((prev) =>
+        prev.map((session) =>
+          session.id === sessionId && session.costUsd < costUsd
+            ? { ...session, costUsd }
+            : session,
+        ),
+      );
+    },
+    [],
+  );
+
+  const saveConversation = useCallback(
+    (sessionId: string, messages: Message[], events: ToolEvent[]) => {
+      const current = findSession(sessionId);
+      if (current?.readOnly) return;
+      const title = deriveSessionTitle(
+        messages,
+        current?.title ?? "New session",
+      );
+
+      setSessions((prev) =>
+        prev.map((session) =>
+          session.id === sessionId
+            ? { ...session, title, updatedAt: Date.now() }
+            : session,
+        ),
+      );
+      pendingSaveRef.current = {
+        id: sessionId,
+        update: { title, messages, events },
+      };
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = setTimeout(
+        () => flushSessionSave(),
+        SAVE_DEBOUNCE_MS,
+      );
+    },
+    [findSession, flushSessionSave],
+  );
+
+  const addSession = useCallback((session: SessionSummary) => {
+    setSessions((prev) => [session, ...prev]);
+    setActiveSessionId(session.id);
+  }, []);
+
+  const createSession = useCallback(async () => {
+    try {
+      addSession(await createStoredSession());
+    } catch (error) {
+      console.error("Failed to create session:", error);
+      toast.error("Failed to create session");
+    }
+  }, [addSession]);
+
+  const importTrace = useCallback(
+    async (file: File) => {
+      try {
+        addSession(await importTraceBundle(file));
+      } catch (error) {
+        console.error("Failed to import trace:", error);
+        toast.error("Failed to import trace", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      }
+    },
+    [addSession],
+  );
+
+  // Opens another session when the open one is deleted, creating one if it
+  // was the last.
+  const deleteSession = useCallback(async (sessionId: string) => {
+    if (pendingSaveRef.current?.id === sessionId) {
+      pendingSaveRef.current = null;
+    }
+
+    try {
+      const response = await fetch(sessionUrl(sessionId), {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(await response.text());
+      }
+    } catch (error) {
+      console.error("Failed to delete session:", error);
+      toast.error("Failed to delete session");
+      return;
+    }
+
+    setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+    if (sessionId !== activeSessionRef.current) return;
+
+    const nextSession = sessionsRef.current.find(
+      (session) => session.id !== sessionId,
+    );
+    if (nextSession) {
+      setActiveSessionId(nextSession.id);
+      return;
+    }
+    try {
+      const session = await createStoredSession();
+      setSessions([session]);
+      setActiveSessionId(session.id);
+    } catch (error) {
+      console.error("Failed to create session:", error);
+      toast.error("Failed to create session");
+    }
+  }, []);
+
+  return {
+    sessions,
+    activeSession,
+    activeSessionId,
+    activeSessionRef,
+    selectSession: setActiveSessionId,
+    findSession,
+    hasHydrated,
+    updateSession,
+    recordSessionCost,
+    saveConversation,
+    flushSessionSave,
+    createSession,
+    importTrace,
+    deleteSession,
+  };
+};
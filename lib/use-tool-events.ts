@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef } from "react";
+import type { Message } from "ai";
+import {
+  deriveStatusFromResult,
+  eventReducer,
+  initialEventState,
+  normalizeToolName,
+  parseToolPayload,
+  parseToolResult,
+  type ToolEvent,
+} from "@/lib/agent-events";
+import { getApprovalState } from "@/lib/approvals/types";
+import { getToolTimings } from "@/lib/tool-timings";
+
+type MessagePart = NonNullable<Message["parts"]>[number];
+
+type ToolInvocationPart = MessagePart & {
+  type: "tool-invocation";
+  toolInvocation: {
+    toolCallId: string;
+    toolName: string;
+    state: "call" | "result";
+    args: unknown;
+    result?: unknown;
+  };
+};
+
+const isToolInvocationPart = (part: MessagePart): part is ToolInvocationPart =>
+  part.type === "tool-invocation";
+
+// The tool event log of the open conversation. Calls, approvals, results and
+// server timings are picked up from the messages as they stream in, each
+// once; `enabled` holds the scan off until sessions have loaded.
+export const useToolEvents = (messages: Message[], enabled: boolean) => {
+  const [eventState, dispatchEvent] = useReducer(
+    eventReducer,
+    initialEventState,
+  );
+  const seenCallsRef = useRef<Set<string>>(new Set());
+  const seenResultsRef = useRef<Set<string>>(new Set());
+  const seenApprovalsRef = useRef<Record<string, "requested" | "decided">>({});
+  const seenTimingsRef = useRef<Set<string>>(new Set());
+  const callStartRef = useRef<Record<string, number>>({});
+
+  // Replaces the log with a stored one. Stored events keep their original
+  // timings; only calls that never got a result are left for the message
+  // scan to finish.
+  const showEvents = useCallback((stored: ToolEvent[]) => {
+    seenCallsRef.current = new Set();
+    seenResultsRef.current = new Set();
+    seenApprovalsRef.current = {};
+    seenTimingsRef.current = new Set();
+    callStartRef.current = {};
+    dispatchEvent({ type: "hydrate", events: stored });
+    stored.forEach((event) => {
+      seenCallsRef.current.add(event.id);
+      if (event.serverTimed) seenTimingsRef.current.add(event.id);
+      if (event.status === "running" || event.status === "awaiting-approval") {
+        callStartRef.current[event.id] = event.timestamp;
+      } else {
+        seenResultsRef.current.add(event.id);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    messages.forEach((message) => {
+      message.parts?.forEach((part) => {
+        if (!isToolInvocationPart(part)) return;
+
+        const { toolCallId, toolName, state, args, result } =
+          part.toolInvocation;
+        if (!toolCallId) return;
+
+        // Held calls wait in "awaiting-approval" until the route streams the
+        // decision; the timer restarts so durations cover the run only.
+        const approval = getApprovalState(message.annotations, toolCallId);
+        const approvalStep = approval?.result
+          ? "decided"
+          : approval
+            ? "requested"
+            : undefined;
+
+        if (state === "call" && !seenCallsRef.current.has(toolCallId)) {
+          seenCallsRef.current.add(toolCallId);
+          const timestamp = Date.now();
+          callStartRef.current[toolCallId] = timestamp;
+
+          dispatchEvent({
+            type: "register-call",
+            event: {
+              id: toolCallId,
+              toolName: normalizeToolName(toolName),
+              timestamp,
+              status:
+                approvalStep === "requested" ? "awaiting-approval" : "running",
+              payload: parseToolPayload(toolName, args),
+            },
+          });
+        }
+
+        if (
+          state === "call" &&
+          approvalStep &&
+          seenApprovalsRef.current[toolCallId] !== approvalStep
+        ) {
+          seenApprovalsRef.current[toolCallId] = approvalStep;
+          if (approvalStep === "decided") {
+            callStartRef.current[toolCallId] = Date.now();
+          }
+          dispatchEvent({
+            type: "set-status",
+            id: toolCallId,
+            status:
+              approvalStep === "requested" ? "awaiting-approval" : "running",
+          });
+        }
+
+        if (state === "result" && !seenResultsRef.current.has(toolCallId)) {
+          seenResultsRef.current.add(toolCallId);
+          const startedAt = callStartRef.current[toolCallId] ?? Date.now();
+          const parsedResult = parseToolResult(result);
+          const status = deriveStatusFromResult(parsedResult);
+
+          dispatchEvent({
+            type: "register-result",
+            id: toolCallId,
+            status,
+            durationMs: Math.max(0, Date.now() - startedAt),
+            result: parsedResult,
+          });
+        }
+      });
+
+      // The server's timings replace the ones measured above.
+      getToolTimings(message.annotations).forEach((timing) => {
+        const { toolCallId } = timing;
+        if (
+          seenTimingsRef.current.has(toolCallId) ||
+          (!seenCallsRef.current.has(toolCallId) &&
+            !seenResultsRef.current.has(toolCallId))
+        ) {
+          return;
+        }
+        seenTimingsRef.current.add(toolCallId);
+        dispatchEvent({
+          type: "register-timing",
+          id: toolCallId,
+          startedAt: timing.startedAt,
+          durationMs: timing.durationMs,
+          error: timing.error,
+        });
+      });
+    });
+  }, [messages, enabled]);
+
+  const events = useMemo<ToolEvent[]>(
+    () =>
+      eventState.order
+        .map((id) => eventState.byId[id])
+        .filter((event): event is ToolEvent => Boolean(event)),
+    [eventState],
+  );
+
+  return { events, showEvents };
+};
@@ -0,0 +1,49 @@
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import type { UploadedFile } from "@/components/input";
+
+// Files uploaded to the desktop and not yet announced to the model.
+export const useUploads = (sandboxId: string | null) => {
+  const [pendingUploads, setPendingUploads] = useState<UploadedFile[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const uploadFiles = useCallback(
+    async (files: File[]) => {
+      if (!sandboxId) return;
+      const form = new FormData();
+      files.forEach((file) => form.append("files", file));
+      try {
+        setIsUploading(true);
+        const response = await fetch(
+          `/api/upload?sandboxId=${encodeURIComponent(sandboxId)}`,
+          { method: "POST", body: form },
+        );
+        if (!response.ok) throw new Error(await response.text());
+        const { files: uploaded } = (await response.json()) as {
+          files: UploadedFile[];
+        };
+        setPendingUploads((prev) => [...prev, ...uploaded]);
+      } catch (error) {
+        console.error("Failed to upload files:", error);
+        toast.error("Failed to upload files");
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [sandboxId],
+  );
+
+  const removeUpload = useCallback((path: string) => {
+    setPendingUploads((prev) => prev.filter((upload) => upload.path !== path));
+  }, []);
+
+  const clearUploads = useCallback(() => setPendingUploads([]), []);
+
+  return {
+    pendingUploads,
+    isUploading,
+    uploadFiles,
+    removeUpload,
+    clearUploads,
+  };
+};
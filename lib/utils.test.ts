@@ -0,0 +1,9 @@
+import { describe, expect, it } from "vitest";
+import { shellQuote } from "./utils";
+
+describe("shellQuote", () => {
+  it("wraps values in single quotes and escapes embedded quotes", () => {
+    expect(shellQuote("a b")).toBe("'a b'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+});
@@ -1,4 +1,3 @@
-import { UIMessage } from "ai";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 
@@ -8,34 +7,18 @@ export function cn(...inputs: ClassValue[]) {
 
 export const ABORTED = "User aborted";
 
-export const prunedMessages = (messages: UIMessage[]): UIMessage[] => {
-  if (messages.at(-1)?.role === "assistant") {
-    return messages;
+export const shellQuote = (value: string) =>
+  `'${value.replace(/'/g, "'\\''")}'`;
+
+export const createId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
   }
+  return `id-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
 
-  return messages.map((message) => {
-    // check if last message part is a tool invocation in a call state, then append a part with the tool result
-    message.parts = message.parts.map((part) => {
-      if (part.type === "tool-invocation") {
-        if (
-          part.toolInvocation.toolName === "computer" &&
-          part.toolInvocation.args.action === "screenshot"
-        ) {
-          return {
-            ...part,
-            toolInvocation: {
-              ...part.toolInvocation,
-              result: {
-                type: "text",
-                text: "Image redacted to save input tokens",
-              },
-            },
-          };
-        }
-        return part;
-      }
-      return part;
-    });
-    return message;
+export const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
   });
-};
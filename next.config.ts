@@ -1,5 +1,15 @@
 import type { NextConfig } from "next";
 
+// The local desktop provider serves noVNC from a container port on this host.
+const localDesktopOrigins =
+  process.env.DESKTOP_PROVIDER === "local"
+    ? ` http://${process.env.LOCAL_DESKTOP_HOST ?? "localhost"}:*`
+    : "";
+
+// The mock desktop's viewer is a page served by this app.
+const mockDesktopOrigins =
+  process.env.DESKTOP_PROVIDER === "mock" ? " 'self'" : "";
+
 const nextConfig: NextConfig = {
   /* config options here */
   async headers() {
@@ -11,9 +21,9 @@ const nextConfig: NextConfig = {
             key: "Content-Security-Policy",
             value: [
               "default-src 'self'",
-              "frame-src https://*.e2b.dev https://*.e2b.app https://va.vercel-scripts.com",
+              `frame-src https://*.e2b.dev https://*.e2b.app https://va.vercel-scripts.com${localDesktopOrigins}${mockDesktopOrigins}`,
               "frame-ancestors 'self' https://*.e2b.dev https://*.e2b.app",
-              "connect-src 'self' https://*.e2b.dev https://*.e2b.app",
+              `connect-src 'self' https://*.e2b.dev https://*.e2b.app${localDesktopOrigins}`,
               "img-src 'self' data: https://*.e2b.dev https://*.e2b.app",
               "script-src 'self' 'unsafe-inline' 'unsafe-eval' https://*.e2b.dev https://*.e2b.app https://va.vercel-scripts.com",
               "style-src 'self' 'unsafe-inline'",
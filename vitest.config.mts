@@ -0,0 +1,15 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // Next compiles JSX itself (tsconfig keeps it as "preserve"); tests need
+  // the automatic runtime.
+  esbuild: { jsx: "automatic" },
+  resolve: {
+    alias: { "@": path.resolve(__dirname, ".") },
+  },
+  test: {
+    include: ["**/*.test.{ts,tsx}"],
+    exclude: ["node_modules/**", ".next/**"],
+  },
+});